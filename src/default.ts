@@ -9,16 +9,107 @@ export * from './index.js';
 // Export utilities
 export * from './utils/index.js';
 
-export type { SDKConfig } from './index.js';
+export type { SDKConfig, ChainConfig, A2ATaskOptions } from './index.js';
 export { Agent } from './helpers/agent.js';
+export type { MetadataUpdateResult } from './types/interfaces.js';
 export { Web3Client } from './helpers/web3client.js';
-export type { TransactionOptions } from './helpers/web3client.js';
-export { IPFSClient } from './helpers/ipfsClient.js';
+export type { TransactionOptions, TransactionEstimate, ContractCall } from './helpers/web3client.js';
+export type { RegistryBackend, BackendLogFilter } from './helpers/registryBackend.js';
+export { MemoryRegistryBackend } from './helpers/memoryBackend.js';
+export { MemoryIPFSStore } from './helpers/memoryIpfsStore.js';
+export { IPFSClient, formatRegistrationFile } from './helpers/ipfsClient.js';
 export type { IPFSClientConfig } from './helpers/ipfsClient.js';
+export type { StorageProvider, VerifiedContent } from './helpers/storageProvider.js';
+export { fetchFromGateways, fetchVerifiedFromGateways, checkContent, gatewayUrls } from './helpers/storageProvider.js';
+export { PinataStorage } from './helpers/pinataStorage.js';
+export type { PinataStorageConfig } from './helpers/pinataStorage.js';
+export { KuboStorage } from './helpers/kuboStorage.js';
+export type { KuboStorageConfig } from './helpers/kuboStorage.js';
+export { PinningServiceStorage } from './helpers/pinningServiceStorage.js';
+export type { PinningServiceStorageConfig } from './helpers/pinningServiceStorage.js';
+export { FilesystemStorage } from './helpers/filesystemStorage.js';
+export { HttpUploadTarget } from './helpers/httpUploadTarget.js';
+export type { HttpUploadTargetConfig } from './helpers/httpUploadTarget.js';
 export { SubgraphClient } from './helpers/subgraphclient.js';
 export { FeedbackManager } from './helpers/feedbackManager.js';
+export { ValidationManager, computeRequestHash } from './helpers/validationManager.js';
+export { ValidatorService, FileCheckpointStore, MemoryCheckpointStore } from './helpers/validatorService.js';
+export type {
+  ValidatorServiceOptions,
+  ValidationHandler,
+  ValidationDecision,
+  ValidationRequestEvent,
+  CheckpointStore,
+  PendingValidationRequest,
+} from './helpers/validatorService.js';
+export { EventSubscriber } from './helpers/eventSubscriber.js';
+export type {
+  EventSubscriberOptions,
+  EventSubscription,
+  EventFilter,
+  AgentUpdate,
+  RegistryEventMap,
+  RegistryEventName,
+  RegistryEventCallback,
+  AgentRegisteredEvent,
+  MetadataSetEvent,
+  NewFeedbackEvent,
+  FeedbackRevokedEvent,
+} from './helpers/eventSubscriber.js';
+export { LocalIndexer, FileIndexStore, MemoryIndexStore } from './helpers/localIndexer.js';
+export type {
+  LocalIndexerOptions,
+  IndexStore,
+  LocalIndexData,
+  IndexedAgent,
+  IndexedFeedback,
+} from './helpers/localIndexer.js';
 export { EndpointCrawler } from './helpers/endpoint-crawler.js';
 export type { McpCapabilities, A2aCapabilities } from './helpers/endpoint-crawler.js';
+export { McpClient, McpError, MCP_PROTOCOL_VERSION } from './helpers/mcpClient.js';
+export type {
+  McpClientOptions,
+  McpServerInfo,
+  McpTool,
+  McpToolResult,
+  McpResource,
+  McpPrompt,
+  McpContent,
+} from './helpers/mcpClient.js';
+export { A2AClient, A2AError } from './helpers/a2aClient.js';
+export type {
+  A2AClientOptions,
+  A2AAgentCard,
+  A2AAgentExtension,
+  A2ASkill,
+  A2AMessage,
+  A2AMessageInput,
+  A2AMessageSendConfiguration,
+  A2APart,
+  A2ATask,
+  A2ATaskState,
+  A2ATaskStatus,
+  A2AArtifact,
+  A2AStreamEvent,
+  A2ATaskStatusUpdateEvent,
+  A2ATaskArtifactUpdateEvent,
+} from './helpers/a2aClient.js';
+export { toA2AAgentCard, fromA2AAgentCard, A2A_PROTOCOL_VERSION, X402_A2A_EXTENSION } from './helpers/a2aAgentCard.js';
+export type { A2AAgentCardOptions } from './helpers/a2aAgentCard.js';
+export { AgentRouter } from './helpers/agentRouter.js';
+export type {
+  RouteRequest,
+  RouteExecuteOptions,
+  RouteWeights,
+  RouteScores,
+  RouteCandidate,
+  RouteRejection,
+  RouteRejectionReason,
+  RouteExecution,
+  RoutePlan,
+} from './helpers/agentRouter.js';
+export { runWithFailover, FailoverExhausted } from './helpers/failover.js';
+export type { RetryOptions, FailureKind, FailoverAttempt, FailoverTarget } from './helpers/failover.js';
 export { AgentIndexer } from './helpers/agentIndexer.js';
 
 // Export contract definitions
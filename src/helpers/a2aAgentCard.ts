@@ -0,0 +1,167 @@
+/**
+ * Conversion between registration files and A2A agent cards
+ * https://a2a-protocol.org/latest/specification/#5-agent-discovery-the-agent-card
+ */
+
+import type { Endpoint, RegistrationFile } from '../types/interfaces.js';
+import { EndpointType } from '../types/enum.js';
+import type { A2AAgentCard, A2ASkill } from './a2aClient.js';
+
+export const A2A_PROTOCOL_VERSION = '0.3.0';
+
+// A2A extension for x402 payments: https://github.com/google-agentic-commerce/a2a-x402
+export const X402_A2A_EXTENSION = 'https://github.com/google-a2a/a2a-x402/v0.1';
+
+// Paths under which agent cards are published; stripped from the A2A endpoint to get the JSON-RPC URL
+const AGENT_CARD_PATH = /\/(\.well-known\/agent-card\.json|\.well-known\/agent\.json|agentcard\.json)$/;
+
+export interface A2AAgentCardOptions {
+  url?: string; // JSON-RPC endpoint (default: the A2A endpoint without its agent card path)
+  version?: string; // Agent version (default: from the card the agent was created from, else 1.0.0)
+  provider?: { organization: string; url: string };
+  documentationUrl?: string;
+  capabilities?: { streaming?: boolean; pushNotifications?: boolean; stateTransitionHistory?: boolean };
+  defaultInputModes?: string[]; // default: text/plain and application/json
+  defaultOutputModes?: string[];
+}
+
+/**
+ * Agent card for a registration file
+ *
+ * Skills come from the A2A endpoint (full details when known, else skill names), or from the published tools when
+ * the agent declares no skills. Agents with x402support advertise the x402 extension and an X-PAYMENT security scheme
+ * @throws Error when there is no A2A endpoint and no url option
+ */
+export function toA2AAgentCard(registrationFile: RegistrationFile, options: A2AAgentCardOptions = {}): A2AAgentCard {
+  const endpoint = registrationFile.endpoints.find((ep) => ep.type === EndpointType.A2A);
+  const meta = endpoint?.meta ?? {};
+  const url = options.url ?? meta.url ?? (endpoint ? endpoint.value.replace(AGENT_CARD_PATH, '') : undefined);
+  if (!url || !/^https?:\/\//.test(url) || /\.json($|\?)/.test(url)) {
+    throw new Error('No A2A endpoint URL for the agent card. Call setA2A() with the agent URL or pass options.url.');
+  }
+
+  const x402 = registrationFile.x402support;
+  const provider = options.provider ?? meta.provider;
+  const documentationUrl = options.documentationUrl ?? meta.documentationUrl;
+  const capabilities = { ...meta.capabilities, ...options.capabilities };
+  if (x402) {
+    const extensions = (capabilities.extensions ?? []).filter((extension: { uri: string }) => extension.uri !== X402_A2A_EXTENSION);
+    capabilities.extensions = [
+      ...extensions,
+      { uri: X402_A2A_EXTENSION, description: 'Supports payments using the x402 protocol', required: false },
+    ];
+  }
+
+  const defaultModes = ['text/plain', 'application/json'];
+  return {
+    protocolVersion: typeof meta.version === 'string' && /^\d+\.\d+\.\d+$/.test(meta.version) ? meta.version : A2A_PROTOCOL_VERSION,
+    name: registrationFile.name,
+    description: registrationFile.description,
+    url,
+    preferredTransport: meta.preferredTransport ?? 'JSONRPC',
+    ...(meta.additionalInterfaces ? { additionalInterfaces: meta.additionalInterfaces } : {}),
+    ...(registrationFile.image ? { iconUrl: registrationFile.image } : {}),
+    ...(provider ? { provider } : {}),
+    version: options.version ?? meta.agentVersion ?? '1.0.0',
+    ...(documentationUrl ? { documentationUrl } : {}),
+    capabilities,
+    ...(x402 ? {
+      securitySchemes: {
+        x402: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-PAYMENT',
+          description: 'x402 payment payload; unpaid requests are answered with HTTP 402 and the payment requirements',
+        },
+      },
+    } : {}),
+    defaultInputModes: options.defaultInputModes ?? meta.defaultInputModes ?? defaultModes,
+    defaultOutputModes: options.defaultOutputModes ?? meta.defaultOutputModes ?? defaultModes,
+    skills: cardSkills(registrationFile, meta),
+  };
+}
+
+/**
+ * Registration file for an agent described by an A2A agent card
+ * Card details that the registration file has no field for (skills, provider, version, transports, capabilities,
+ * modes) are kept in the A2A endpoint's meta, so toA2AAgentCard() gives the card back
+ * @param cardUrl - Where the card is published; used as the A2A endpoint (default: card.url)
+ */
+export function fromA2AAgentCard(card: A2AAgentCard, cardUrl?: string): RegistrationFile {
+  if (!card || typeof card.name !== 'string' || typeof card.url !== 'string') {
+    throw new Error('Invalid A2A agent card: name and url are required');
+  }
+
+  const skills = Array.isArray(card.skills) ? card.skills : [];
+  const meta: Record<string, unknown> = {
+    version: card.protocolVersion ?? A2A_PROTOCOL_VERSION,
+    a2aSkills: skills.map((skill) => skill.name || skill.id),
+    a2aSkillsDetails: skills,
+  };
+  const keys = [
+    'preferredTransport', 'additionalInterfaces', 'provider', 'documentationUrl', 'capabilities', 'defaultInputModes', 'defaultOutputModes',
+  ] as const;
+  for (const key of keys) {
+    if (card[key] !== undefined) {
+      meta[key] = card[key];
+    }
+  }
+  if (card.version !== undefined) {
+    meta.agentVersion = card.version;
+  }
+  if (cardUrl && cardUrl !== card.url) {
+    meta.url = card.url; // JSON-RPC endpoint, when the endpoint value is the card location
+  }
+
+  const endpoint: Endpoint = { type: EndpointType.A2A, value: cardUrl ?? card.url, meta };
+  return {
+    name: card.name,
+    description: card.description ?? '',
+    image: card.iconUrl,
+    endpoints: [endpoint],
+    trustModels: [],
+    owners: [],
+    operators: [],
+    active: true,
+    x402support: acceptsX402(card),
+    metadata: {},
+    updatedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+function cardSkills(registrationFile: RegistrationFile, meta: Record<string, any>): A2ASkill[] {
+  if (Array.isArray(meta.a2aSkillsDetails) && meta.a2aSkillsDetails.length > 0) {
+    return (meta.a2aSkillsDetails as A2ASkill[]).map((skill) => ({ ...skill, tags: skill.tags ?? [] }));
+  }
+  if (Array.isArray(meta.a2aSkills) && meta.a2aSkills.length > 0) {
+    return (meta.a2aSkills as string[]).map((name) => ({
+      id: name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+      name,
+      description: name,
+      tags: [],
+    }));
+  }
+
+  return (registrationFile.tools ?? []).map((tool) => {
+    const priced = registrationFile.x402support && !!tool.pricing?.price;
+    return {
+      id: tool.name,
+      name: tool.name,
+      description: tool.description,
+      tags: priced ? ['x402'] : [],
+      inputModes: ['application/json'],
+      outputModes: ['application/json'],
+      ...(priced ? { security: [{ x402: [] }] } : {}),
+    };
+  });
+}
+
+function acceptsX402(card: A2AAgentCard): boolean {
+  const extensions = card.capabilities?.extensions ?? [];
+  if (extensions.some((extension) => /x402/i.test(extension.uri))) {
+    return true;
+  }
+  return Object.entries(card.securitySchemes ?? {}).some(([name, scheme]) =>
+    /x402/i.test(name) || String(scheme.name).toLowerCase() === 'x-payment'
+  );
+}
@@ -0,0 +1,354 @@
+/**
+ * Agent2Agent (A2A) client over JSON-RPC, with streaming via Server-Sent Events
+ * https://a2a-protocol.org/latest/specification/
+ */
+
+import { randomUUID } from 'crypto';
+import { readSseEvents } from '../utils/sse.js';
+
+// Agent card locations tried when the registered endpoint is not a card itself
+const AGENT_CARD_PATHS = ['/.well-known/agent-card.json', '/.well-known/agent.json', '/agentcard.json'];
+
+export type A2ATaskState =
+  | 'submitted'
+  | 'working'
+  | 'input-required'
+  | 'completed'
+  | 'canceled'
+  | 'failed'
+  | 'rejected'
+  | 'auth-required'
+  | 'unknown';
+
+export type A2APart =
+  | { kind: 'text'; text: string; metadata?: Record<string, unknown> }
+  | {
+    kind: 'file';
+    file: { name?: string; mimeType?: string } & ({ bytes: string } | { uri: string }); // bytes are base64
+    metadata?: Record<string, unknown>;
+  }
+  | { kind: 'data'; data: Record<string, unknown>; metadata?: Record<string, unknown> };
+
+export interface A2AMessage {
+  kind: 'message';
+  messageId: string;
+  role: 'user' | 'agent';
+  parts: A2APart[];
+  contextId?: string;
+  taskId?: string;
+  referenceTaskIds?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Message to send: plain text, or a message whose messageId and role may be left out
+ */
+export type A2AMessageInput = string | (Omit<A2AMessage, 'kind' | 'messageId' | 'role'> & Partial<Pick<A2AMessage, 'messageId' | 'role'>>);
+
+export interface A2ATaskStatus {
+  state: A2ATaskState;
+  message?: A2AMessage;
+  timestamp?: string; // ISO 8601
+}
+
+export interface A2AArtifact {
+  artifactId: string;
+  name?: string;
+  description?: string;
+  parts: A2APart[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface A2ATask {
+  kind: 'task';
+  id: string;
+  contextId: string;
+  status: A2ATaskStatus;
+  artifacts?: A2AArtifact[];
+  history?: A2AMessage[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface A2ATaskStatusUpdateEvent {
+  kind: 'status-update';
+  taskId: string;
+  contextId: string;
+  status: A2ATaskStatus;
+  final: boolean; // Last event of the stream
+  metadata?: Record<string, unknown>;
+}
+
+export interface A2ATaskArtifactUpdateEvent {
+  kind: 'artifact-update';
+  taskId: string;
+  contextId: string;
+  artifact: A2AArtifact;
+  append?: boolean; // Parts continue the artifact sent earlier with the same id
+  lastChunk?: boolean;
+  metadata?: Record<string, unknown>;
+}
+
+export type A2AStreamEvent = A2ATask | A2AMessage | A2ATaskStatusUpdateEvent | A2ATaskArtifactUpdateEvent;
+
+export interface A2ASkill {
+  id: string;
+  name: string;
+  description?: string;
+  tags?: string[];
+  examples?: string[];
+  inputModes?: string[];
+  outputModes?: string[];
+  security?: Array<Record<string, string[]>>;
+}
+
+export interface A2AAgentExtension {
+  uri: string;
+  description?: string;
+  required?: boolean; // Clients must support the extension to talk to the agent
+  params?: Record<string, unknown>;
+}
+
+export interface A2AAgentCard {
+  name: string;
+  description?: string;
+  url: string; // Endpoint for the preferred transport
+  version?: string;
+  protocolVersion?: string;
+  preferredTransport?: string; // JSONRPC unless stated otherwise
+  additionalInterfaces?: Array<{ url: string; transport: string }>;
+  iconUrl?: string;
+  provider?: { organization: string; url: string };
+  documentationUrl?: string;
+  capabilities?: { streaming?: boolean; pushNotifications?: boolean; stateTransitionHistory?: boolean; extensions?: A2AAgentExtension[] };
+  securitySchemes?: Record<string, Record<string, unknown>>; // OpenAPI 3 security scheme objects
+  security?: Array<Record<string, string[]>>;
+  defaultInputModes?: string[];
+  defaultOutputModes?: string[];
+  skills?: A2ASkill[];
+  [key: string]: unknown;
+}
+
+export interface A2AMessageSendConfiguration {
+  acceptedOutputModes?: string[];
+  historyLength?: number;
+  blocking?: boolean; // Wait for a terminal or interrupted state before responding
+}
+
+export interface A2AClientOptions {
+  timeout?: number; // ms per request; streams may run longer (default: 30000)
+  headers?: Record<string, string>;
+  fetch?: typeof fetch; // e.g. createPaidFetch() for x402-gated agents
+}
+
+/**
+ * JSON-RPC error returned by the agent (e.g. -32001 task not found, -32002 task not cancelable)
+ */
+export class A2AError extends Error {
+  readonly name = 'A2AError';
+
+  constructor(message: string, readonly code: number, readonly data?: unknown) {
+    super(message);
+  }
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * Client for one A2A agent, addressed by its agent card URL or JSON-RPC endpoint
+ */
+export class A2AClient {
+  private readonly timeout: number;
+  private readonly fetch: typeof fetch;
+  private _card: A2AAgentCard | undefined;
+  private _cardPublished = false; // _card was fetched, not stood in for by the URL
+  private _loading: Promise<A2AAgentCard> | undefined;
+  private _nextId = 1;
+
+  constructor(readonly url: string, private options: A2AClientOptions = {}) {
+    if (!/^https?:\/\//.test(url)) {
+      throw new Error(`A2A endpoint must be an HTTP(S) URL, got: ${url}`);
+    }
+    this.timeout = options.timeout ?? 30000;
+    this.fetch = options.fetch ?? fetch;
+  }
+
+  /**
+   * Fetch the agent card (once); without one the URL is used as the JSON-RPC endpoint
+   */
+  async getAgentCard(): Promise<A2AAgentCard> {
+    if (this._card) {
+      return this._card;
+    }
+    this._loading ??= this._loadCard().finally(() => {
+      this._loading = undefined;
+    });
+    return this._loading;
+  }
+
+  /**
+   * Fetch the agent card (once)
+   * @returns undefined when no card is published at the URL
+   */
+  async findAgentCard(): Promise<A2AAgentCard | undefined> {
+    const card = await this.getAgentCard();
+    return this._cardPublished ? card : undefined;
+  }
+
+  /**
+   * message/send - returns the task created for the message, or the agent's direct reply
+   */
+  async sendMessage(message: A2AMessageInput, configuration?: A2AMessageSendConfiguration): Promise<A2ATask | A2AMessage> {
+    return this.request('message/send', this._messageParams(message, configuration));
+  }
+
+  /**
+   * message/stream - yields the task or message, then status and artifact updates until the final one
+   * Falls back to message/send when the agent card does not advertise streaming
+   */
+  async *streamMessage(message: A2AMessageInput, configuration?: A2AMessageSendConfiguration): AsyncGenerator<A2AStreamEvent> {
+    const card = await this.getAgentCard();
+    const params = this._messageParams(message, configuration);
+    if (card.capabilities?.streaming === false) {
+      yield await this.request<A2ATask | A2AMessage>('message/send', params);
+      return;
+    }
+
+    const method = 'message/stream';
+    const response = await this.fetch(await this._endpoint(), {
+      method: 'POST',
+      headers: { ...this.options.headers, 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: this._nextId++, method, params }),
+    });
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`A2A request ${method} failed: HTTP ${response.status}`);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('text/event-stream') || !response.body) {
+      // Agent answered with a single JSON-RPC response
+      yield unwrap<A2AStreamEvent>(await response.json() as JsonRpcResponse);
+      return;
+    }
+
+    for await (const event of readSseEvents(response.body)) {
+      if (!event.data.trim()) {
+        continue;
+      }
+      const update = unwrap<A2AStreamEvent>(JSON.parse(event.data) as JsonRpcResponse);
+      yield update;
+      if (isFinal(update)) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * tasks/get
+   * @param historyLength - Number of recent messages to include in task.history
+   */
+  async getTask(taskId: string, historyLength?: number): Promise<A2ATask> {
+    return this.request('tasks/get', historyLength !== undefined ? { id: taskId, historyLength } : { id: taskId });
+  }
+
+  /**
+   * tasks/cancel
+   */
+  async cancelTask(taskId: string): Promise<A2ATask> {
+    return this.request('tasks/cancel', { id: taskId });
+  }
+
+  /**
+   * Send a JSON-RPC request and return its result
+   * @throws A2AError for JSON-RPC errors
+   */
+  async request<T = any>(method: string, params: Record<string, unknown>): Promise<T> {
+    const response = await this.fetch(await this._endpoint(), {
+      method: 'POST',
+      headers: { ...this.options.headers, 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: this._nextId++, method, params }),
+      signal: AbortSignal.timeout(this.timeout),
+    });
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`A2A request ${method} failed: HTTP ${response.status}`);
+    }
+    return unwrap<T>(await response.json() as JsonRpcResponse);
+  }
+
+  private async _loadCard(): Promise<A2AAgentCard> {
+    const base = this.url.replace(/\/$/, '');
+    const candidates = /\.json($|\?)/.test(this.url) ? [this.url] : AGENT_CARD_PATHS.map((path) => `${base}${path}`);
+
+    for (const candidate of candidates) {
+      try {
+        const response = await this.fetch(candidate, {
+          headers: { ...this.options.headers, Accept: 'application/json' },
+          signal: AbortSignal.timeout(this.timeout),
+        });
+        if (!response.ok) {
+          await response.body?.cancel();
+          continue;
+        }
+        const card = await response.json() as A2AAgentCard;
+        if (card && typeof card.url === 'string') {
+          this._card = { ...card, url: new URL(card.url, candidate).toString() };
+          this._cardPublished = true;
+          return this._card;
+        }
+      } catch {
+        // Try next location
+        continue;
+      }
+    }
+
+    if (candidates[0] === this.url) {
+      throw new Error(`Failed to load A2A agent card from ${this.url}`);
+    }
+    // No card published - treat the URL as the JSON-RPC endpoint
+    this._card = { name: this.url, url: this.url };
+    return this._card;
+  }
+
+  /**
+   * JSON-RPC endpoint from the agent card
+   */
+  private async _endpoint(): Promise<string> {
+    const card = await this.getAgentCard();
+    const transport = card.preferredTransport?.toUpperCase();
+    if (transport && transport !== 'JSONRPC') {
+      const jsonRpc = card.additionalInterfaces?.find((entry) => entry.transport.toUpperCase() === 'JSONRPC');
+      if (!jsonRpc) {
+        throw new Error(`A2A agent ${card.name} does not offer the JSONRPC transport (preferred: ${card.preferredTransport})`);
+      }
+      return jsonRpc.url;
+    }
+    return card.url;
+  }
+
+  private _messageParams(message: A2AMessageInput, configuration?: A2AMessageSendConfiguration): Record<string, unknown> {
+    const normalized: A2AMessage = typeof message === 'string'
+      ? { kind: 'message', messageId: randomUUID(), role: 'user', parts: [{ kind: 'text', text: message }] }
+      : { ...message, kind: 'message', messageId: message.messageId ?? randomUUID(), role: message.role ?? 'user' };
+    return configuration ? { message: normalized, configuration } : { message: normalized };
+  }
+}
+
+function unwrap<T>(response: JsonRpcResponse): T {
+  if (response.error) {
+    throw new A2AError(response.error.message, response.error.code, response.error.data);
+  }
+  return response.result as T;
+}
+
+/**
+ * Whether a stream event ends the stream (a direct reply or a final status update)
+ */
+function isFinal(event: A2AStreamEvent): boolean {
+  return event.kind === 'message' || (event.kind === 'status-update' && event.final);
+}
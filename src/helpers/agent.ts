@@ -1,52 +1,58 @@
 /**
- * Agent class for managing individual agents (Singleton Pattern)
+ * Agent class for managing individual agents
  */
 
 import { ethers } from 'ethers';
 import type {
   RegistrationFile,
   Endpoint,
+  MetadataUpdateResult,
 } from '../types/interfaces.js';
 import type { AgentId, Address, URI } from '../types/common.js';
 import { EndpointType, TrustModel } from '../types/enum.js';
 import type { FluidSDK } from '../index.js';
+import type { Tool } from './function-tools.js';
 import { EndpointCrawler } from './endpoint-crawler.js';
+import type { A2AAgentCard } from './a2aClient.js';
+import { fromA2AAgentCard, toA2AAgentCard, type A2AAgentCardOptions } from './a2aAgentCard.js';
+import { formatRegistrationFile } from './ipfsClient.js';
+import { assertRegistrationFile } from './registrationValidator.js';
+import {
+  PLAN_AGENT_ID,
+  PLAN_CID,
+  describeContractCall,
+  diffJson,
+  fetchPublishedFile,
+  fillPlaceholders,
+  planFingerprint,
+  type AppliedPlan,
+  type ContractOperation,
+  type PlanOperation,
+  type RegistrationPlan,
+  type UploadOperation,
+} from './registrationPlan.js';
+import { MULTICALL_ABI } from './contracts.js';
+import { encodeCall, type ContractCall } from './web3client.js';
+import { computeRawCid } from '../utils/cid.js';
 import { parseAgentId } from '../utils/id-format.js'
 import { TIMEOUTS } from '../utils/constants.js';
 
 /**
- * Agent class for managing individual agents (Singleton Pattern)
+ * Agent class for managing individual agents
  */
 export class Agent {
-  private static instance: Agent | null = null;
   private registrationFile: RegistrationFile;
   private _endpointCrawler: EndpointCrawler;
   private _dirtyMetadata = new Set<string>();
   private _lastRegisteredWallet: Address | undefined;
   private _lastRegisteredEns: string | undefined;
+  private _lastMetadataUpdates: MetadataUpdateResult[] = [];
 
-  private constructor(private sdk: FluidSDK, registrationFile: RegistrationFile) {
+  constructor(private sdk: FluidSDK, registrationFile: RegistrationFile) {
     this.registrationFile = registrationFile;
     this._endpointCrawler = new EndpointCrawler(5000);
   }
 
-  /**
-   * Get singleton instance
-   */
-  public static getInstance(sdk: FluidSDK, registrationFile: RegistrationFile): Agent {
-    if (!Agent.instance) {
-      Agent.instance = new Agent(sdk, registrationFile);
-    }
-    return Agent.instance;
-  }
-
-  /**
-   * Reset singleton instance
-   */
-  public static resetInstance(): void {
-    Agent.instance = null;
-  }
-
   /**
    * Update registration file for existing instance
    */
@@ -88,6 +94,17 @@ export class Agent {
     return ep?.value;
   }
 
+  /**
+   * Per-key results of the metadata update made by the last registerIPFS() or apply() on a registered agent
+   */
+  get lastMetadataUpdates(): MetadataUpdateResult[] {
+    return this._lastMetadataUpdates;
+  }
+
+  get tools(): Tool[] {
+    return this.registrationFile.tools || [];
+  }
+
   get ensEndpoint(): string | undefined {
     const ep = this.registrationFile.endpoints.find((e) => e.type === EndpointType.ENS);
     return ep?.value;
@@ -202,6 +219,9 @@ export class Agent {
         if (capabilities?.a2aSkills) {
           meta.a2aSkills = capabilities.a2aSkills;
         }
+        if (capabilities?.a2aSkillsDetails) {
+          meta.a2aSkillsDetails = capabilities.a2aSkillsDetails;
+        }
       } catch (error) {
         // Soft fail - continue without capabilities
       }
@@ -310,6 +330,22 @@ export class Agent {
     return this.registrationFile;
   }
 
+  /**
+   * A2A agent card for this agent, to publish at /.well-known/agent-card.json
+   * @throws Error when the agent has no A2A endpoint and options.url is not set
+   */
+  toA2AAgentCard(options: A2AAgentCardOptions = {}): A2AAgentCard {
+    return toA2AAgentCard(this.registrationFile, options);
+  }
+
+  /**
+   * Registration file from an existing A2A agent card (use with new Agent(sdk, file) or sdk.createAgentFromA2ACard)
+   * @param cardUrl - Where the card is published; used as the A2A endpoint (default: card.url)
+   */
+  static fromA2AAgentCard(card: A2AAgentCard, cardUrl?: string): RegistrationFile {
+    return fromA2AAgentCard(card, cardUrl);
+  }
+
   /**
    * Update basic agent information
    */
@@ -336,16 +372,10 @@ export class Agent {
     if (!this.registrationFile.name || !this.registrationFile.description) {
       throw new Error('Agent must have name and description before registration');
     }
-    const tools = await fetch(`${this.registrationFile.agentURI}/tools`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    }).then((res) => res.json());
-
-    if (!tools) {
-      throw new Error('Failed to fetch tools from agent URI');  
-    }
+    const tools = await this._fetchTools();
+    this._keepTools(tools);
+    // Checked before anything is minted or uploaded
+    assertRegistrationFile(formatRegistrationFile(this.registrationFile, undefined, undefined, tools));
 
     if (this.registrationFile.agentId) {
       // Agent already registered - update registration file and redeploy
@@ -362,13 +392,8 @@ export class Agent {
 
       // Update metadata on-chain if changed
       // Only send transactions for dirty (changed) metadata to save gas
-      if (this._dirtyMetadata.size > 0) {
-        try {
-          await this._updateMetadataOnChain();
-        } catch (error) {
-          // Transaction was sent and will eventually confirm - continue silently
-        }
-      }
+      const metadataUpdates = await this._updateMetadataOnChain();
+      this._lastMetadataUpdates = metadataUpdates;
 
       // Update agent URI on-chain
       const { tokenId } = parseAgentId(this.registrationFile.agentId);
@@ -389,10 +414,13 @@ export class Agent {
         // Transaction was sent and will eventually confirm - continue silently
       }
 
-      // Clear dirty flags
+      // Clear dirty flags; metadata keys that failed to update are retried next time
       this._lastRegisteredWallet = this.walletAddress;
       this._lastRegisteredEns = this.ensEndpoint;
       this._dirtyMetadata.clear();
+      for (const update of metadataUpdates) {
+        if (update.status === 'failed') this._dirtyMetadata.add(update.key);
+      }
 
       this.registrationFile.agentURI = `ipfs://${ipfsCid}`;
       return this.registrationFile;
@@ -434,15 +462,179 @@ export class Agent {
     }
   }
 
+  /**
+   * Operations registerIPFS() would run, without sending anything
+   * Lists the IPFS upload with its changes against the published file, and each contract call with decoded args and
+   * estimated gas and fee. Pass the plan to apply() to execute it
+   */
+  async plan(): Promise<RegistrationPlan> {
+    const { state, operations } = await this._draftPlan();
+    const upload = operations.find((operation): operation is UploadOperation => operation.kind === 'upload')!;
+
+    if (upload.previousUri) {
+      try {
+        const published = await fetchPublishedFile(upload.previousUri, this.sdk.ipfsClient);
+        upload.changes = diffJson(published, upload.payload);
+      } catch (error) {
+        upload.previousError = error instanceof Error ? error.message : String(error);
+        upload.changes = diffJson({}, upload.payload);
+      }
+    } else {
+      upload.changes = diffJson({}, upload.payload);
+    }
+
+    // Estimated with the CID the upload is expected to get; calls on an agent that is not minted yet cannot be estimated
+    const expectedCid = computeRawCid(JSON.stringify(upload.payload));
+    let totalGas: bigint | undefined = 0n;
+    let totalFee = 0n;
+    for (const operation of operations) {
+      if (operation.kind !== 'contract') continue;
+      if (operation.args.includes(PLAN_AGENT_ID)) {
+        operation.estimateError = 'Depends on the agent ID minted by register()';
+        totalGas = undefined;
+        continue;
+      }
+      try {
+        const estimate = await this.sdk.web3Client.estimateContractCall(
+          this._planContract(operation.method),
+          operation.method,
+          ...fillPlaceholders(operation.args, { cid: expectedCid })
+        );
+        if (estimate) {
+          operation.gas = estimate.gas.toString();
+          operation.fee = estimate.fee.toString();
+          totalGas = totalGas === undefined ? undefined : totalGas + estimate.gas;
+          totalFee += estimate.fee;
+        } else {
+          totalGas = undefined;
+        }
+      } catch (error) {
+        operation.estimateError = error instanceof Error ? error.message : String(error);
+        totalGas = undefined;
+      }
+    }
+
+    return {
+      action: this.registrationFile.agentId ? 'update' : 'register',
+      ...(this.registrationFile.agentId ? { agentId: this.registrationFile.agentId } : {}),
+      chainId: state.chainId,
+      ...(state.from ? { from: state.from } : {}),
+      operations,
+      ...(totalGas !== undefined ? { totalGas: totalGas.toString(), totalFee: totalFee.toString() } : {}),
+      fingerprint: planFingerprint(state, operations),
+      createdAt: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  /**
+   * Execute a plan from plan(), operation by operation
+   * Failed metadata updates stay dirty and are reported in lastMetadataUpdates, like registerIPFS()
+   * @throws Error if the agent, its tools or the signer changed since the plan was made, or the plan was edited
+   */
+  async apply(plan: RegistrationPlan): Promise<AppliedPlan> {
+    const { state, operations, tools } = await this._draftPlan();
+    const fingerprint = planFingerprint(state, operations);
+    if (planFingerprint(state, plan.operations) !== plan.fingerprint) {
+      throw new Error('Plan does not match its fingerprint; it was edited or made for another agent or signer');
+    }
+    if (fingerprint !== plan.fingerprint) {
+      throw new Error('Plan is out of date: the agent changed since plan() was called. Create a new plan.');
+    }
+
+    const transactions: AppliedPlan['transactions'] = [];
+    const metadataUpdates: MetadataUpdateResult[] = [];
+    const metadataKeys = plan.action === 'update' ? this._dirtyMetadataCalls().map((call) => call.args[1] as string) : [];
+    this._keepTools(tools);
+    let agentId = this.registrationFile.agentId ? BigInt(parseAgentId(this.registrationFile.agentId).tokenId) : undefined;
+    let cid: string | undefined;
+
+    for (const operation of plan.operations) {
+      if (operation.kind === 'upload') {
+        const payload = fillPlaceholders(operation.payload, agentId !== undefined ? { agentId } : {}, true);
+        assertRegistrationFile(payload);
+        cid = await this.sdk.ipfsClient!.addJson(payload);
+        continue;
+      }
+
+      const args = fillPlaceholders(operation.args, { ...(agentId !== undefined ? { agentId } : {}), ...(cid ? { cid } : {}) });
+      if (operation.method === 'setMetadata' || operation.method === 'multicall') {
+        // Like registerIPFS(): a failed metadata update does not stop the plan, its keys stay dirty
+        const batched = operation.method === 'multicall';
+        let txHash: string | undefined;
+        let outcome: Pick<MetadataUpdateResult, 'status' | 'error'>;
+        try {
+          txHash = await this.sdk.web3Client.transactContract(this._planContract(operation.method), operation.method, {}, ...args);
+          transactions.push({ method: operation.method, txHash });
+          outcome = await this._waitForMetadataUpdate(txHash);
+        } catch (error) {
+          outcome = { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+        }
+        for (const key of batched ? metadataKeys : [args[1] as string]) {
+          metadataUpdates.push({ key, ...outcome, txHash, batched });
+        }
+        continue;
+      }
+      const txHash = await this.sdk.web3Client.transactContract(this._planContract(operation.method), operation.method, {}, ...args);
+      transactions.push({ method: operation.method, txHash });
+
+      if (operation.method === 'register') {
+        const receipt = await this.sdk.web3Client.waitForTransaction(txHash);
+        agentId = this._extractAgentIdFromReceipt(receipt);
+        this.registrationFile.agentId = `${state.chainId}:${agentId}`;
+        this.registrationFile.updatedAt = Math.floor(Date.now() / 1000);
+      } else if (plan.action === 'register') {
+        await this.sdk.web3Client.waitForTransaction(txHash);
+      } else {
+        // Like registerIPFS(): an update that is not confirmed in time was still sent and will eventually confirm
+        try {
+          await this.sdk.web3Client.waitForTransaction(txHash, TIMEOUTS.TRANSACTION_WAIT);
+        } catch (error) {
+          // Transaction was sent and will eventually confirm - continue silently
+        }
+      }
+    }
+
+    // Clear dirty flags; metadata keys that failed to update are retried next time
+    this._lastRegisteredWallet = this.walletAddress;
+    this._lastRegisteredEns = this.ensEndpoint;
+    this._dirtyMetadata.clear();
+    for (const update of metadataUpdates) {
+      if (update.status === 'failed') this._dirtyMetadata.add(update.key);
+    }
+    if (plan.action === 'update') {
+      this._lastMetadataUpdates = metadataUpdates;
+    }
+
+    this.registrationFile.agentURI = `ipfs://${cid}`;
+    return { agentId: this.registrationFile.agentId!, agentURI: this.registrationFile.agentURI, transactions };
+  }
+
+  /**
+   * Push changed metadata on-chain without uploading a new registration file
+   * Keys go in one multicall transaction when the identity registry supports it, else one transaction each
+   * @returns One result per key; failed keys stay dirty and are sent again by the next update or registerIPFS()
+   */
+  async updateMetadata(): Promise<MetadataUpdateResult[]> {
+    if (!this.registrationFile.agentId) {
+      throw new Error('Agent must be registered before updating metadata');
+    }
+    return this._updateMetadataOnChain();
+  }
+
   /**
    * Register agent on-chain with HTTP URI
+   * @param agentUri - Where the registration file is served; omit to publish it through the SDK's httpUpload target
    */
-  async registerHTTP(agentUri: string): Promise<RegistrationFile> {
+  async registerHTTP(agentUri?: string): Promise<RegistrationFile> {
     // Validate basic info
     if (!this.registrationFile.name || !this.registrationFile.description) {
       throw new Error('Agent must have name and description before registration');
     }
 
+    if (agentUri === undefined) {
+      return this._registerWithHttpUpload();
+    }
+
     if (this.registrationFile.agentId) {
       // Agent already registered - update agent URI
       await this.setAgentUri(agentUri);
@@ -528,6 +720,142 @@ export class Agent {
   /**
    * Private helper methods
    */
+
+  /**
+   * Fetch published tool definitions from the agent's HTTP URI or MCP server, without keeping them (see _keepTools)
+   * Returns an empty list when the agent has no HTTP endpoint to ask (e.g. offline mode)
+   */
+  private async _fetchTools(): Promise<any> {
+    const agentURI = this.registrationFile.agentURI;
+    const baseUrl = agentURI && /^https?:\/\//.test(agentURI) ? agentURI : this.mcpEndpoint;
+    if (!baseUrl || !/^https?:\/\//.test(baseUrl)) {
+      return [];
+    }
+
+    const tools = await fetch(`${baseUrl}/tools`, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    }).then((res) => res.json());
+
+    if (!tools) {
+      throw new Error('Failed to fetch tools from agent URI');  
+    }
+    return tools;
+  }
+
+  /**
+   * Keep fetched tool definitions as agent.tools; only done by calls that publish the registration file
+   */
+  private _keepTools(tools: any): void {
+    if (Array.isArray(tools)) {
+      this.registrationFile.tools = tools;
+    }
+  }
+
+  /**
+   * Operations registerIPFS() would run, in order, with the state they depend on (no estimates or diffs)
+   */
+  private async _draftPlan(): Promise<{ state: { agentId?: AgentId; chainId: number; from?: Address }; operations: PlanOperation[]; tools: any }> {
+    if (!this.registrationFile.name || !this.registrationFile.description) {
+      throw new Error('Agent must have name and description before registration');
+    }
+    if (!this.sdk.ipfsClient) {
+      throw new Error('IPFS client is required to plan an IPFS registration');
+    }
+    const tools = await this._fetchTools();
+    assertRegistrationFile(formatRegistrationFile(this.registrationFile, undefined, undefined, tools));
+
+    const chainId = await this.sdk.chainId();
+    const identityRegistry = this.sdk.getIdentityRegistry();
+    const identityRegistryAddress = await identityRegistry.getAddress();
+    const from = await this.sdk.web3Client.getAddress();
+    const state = {
+      ...(this.registrationFile.agentId ? { agentId: this.registrationFile.agentId } : {}),
+      chainId,
+      ...(from ? { from } : {}),
+    };
+
+    if (this.registrationFile.agentId) {
+      const tokenId = parseAgentId(this.registrationFile.agentId).tokenId.toString();
+      const operations: PlanOperation[] = [
+        this._uploadOperation(
+          formatRegistrationFile(this.registrationFile, chainId, identityRegistryAddress, tools),
+          this.registrationFile.agentURI
+        ),
+      ];
+      // Only dirty (changed) metadata is sent, batched when the registry supports it, like registerIPFS()
+      const calls = this._dirtyMetadataCalls();
+      const setMetadata = calls.map((call) => describeContractCall(
+        identityRegistry,
+        'setMetadata',
+        'setMetadata(uint256,string,bytes)',
+        [tokenId, call.args[1], ethers.hexlify(call.args[2])],
+        `Set on-chain metadata "${call.args[1]}"`
+      ));
+      if (calls.length > 1 && await this.sdk.web3Client.canMulticall(identityRegistry, calls)) {
+        const batch = describeContractCall(
+          this._planContract('multicall'),
+          'multicall',
+          'multicall(bytes[])',
+          [calls.map((call) => encodeCall(identityRegistry, call.method, call.args))],
+          `Set on-chain metadata ${calls.map((call) => `"${call.args[1]}"`).join(', ')} in one transaction`
+        );
+        batch.decoded = { data: setMetadata.map((operation) => ({ signature: operation.signature, ...operation.decoded })) };
+        operations.push(batch);
+      } else {
+        operations.push(...setMetadata);
+      }
+      operations.push(this._setAgentUriOperation(tokenId));
+      return { state, operations, tools };
+    }
+
+    const metadataEntries = this._collectMetadataForRegistration();
+    const register: ContractOperation = metadataEntries.length > 0
+      ? describeContractCall(
+          identityRegistry,
+          'register',
+          'register(string,(string,bytes)[])',
+          ['', metadataEntries.map((entry) => ({ key: entry.key, value: ethers.hexlify(entry.value) }))],
+          `Mint the agent with ${metadataEntries.length} metadata ${metadataEntries.length === 1 ? 'entry' : 'entries'}`
+        )
+      : describeContractCall(identityRegistry, 'register', 'register()', [], 'Mint the agent');
+
+    const payload = formatRegistrationFile(this.registrationFile, chainId, identityRegistryAddress, tools);
+    return { state, operations: [register, this._uploadOperation(payload), this._setAgentUriOperation(PLAN_AGENT_ID)], tools };
+  }
+
+  /**
+   * Contract a planned call is sent to: the identity registry, through its multicall ABI for batches
+   */
+  private _planContract(method: string): ethers.Contract {
+    const identityRegistry = this.sdk.getIdentityRegistry();
+    return method === 'multicall'
+      ? this.sdk.web3Client.getContract(identityRegistry.target as string, MULTICALL_ABI)
+      : identityRegistry;
+  }
+
+  private _uploadOperation(payload: Record<string, unknown>, previousUri?: string): UploadOperation {
+    return {
+      kind: 'upload',
+      description: 'Upload the registration file to IPFS',
+      payload,
+      ...(previousUri ? { previousUri } : {}),
+      changes: [],
+    };
+  }
+
+  private _setAgentUriOperation(tokenId: string): ContractOperation {
+    return describeContractCall(
+      this.sdk.getIdentityRegistry(),
+      'setAgentUri',
+      'setAgentUri(uint256,string)',
+      [tokenId, `ipfs://${PLAN_CID}`],
+      'Point the agent URI at the uploaded file'
+    );
+  }
+
   private async _registerWithoutUri(): Promise<void> {
     // Collect metadata for registration
     const metadataEntries = this._collectMetadataForRegistration();
@@ -596,33 +924,98 @@ export class Agent {
     return this.registrationFile;
   }
 
-  private async _updateMetadataOnChain(): Promise<void> {
-    const metadataEntries = this._collectMetadataForRegistration();
+  /**
+   * Mint if needed, upload the registration file to the HTTP target and point the agent URI at it
+   */
+  private async _registerWithHttpUpload(): Promise<RegistrationFile> {
+    const target = this.sdk.httpUpload;
+    if (!target) {
+      throw new Error('agentUri is required when the SDK has no httpUpload target');
+    }
+
+    const tools = await this._fetchTools();
+    this._keepTools(tools);
+    assertRegistrationFile(formatRegistrationFile(this.registrationFile, undefined, undefined, tools));
+    if (!this.registrationFile.agentId) {
+      await this._registerWithoutUri();
+    }
+
+    const chainId = await this.sdk.chainId();
+    const identityRegistryAddress = await this.sdk.getIdentityRegistry().getAddress();
     const { tokenId } = parseAgentId(this.registrationFile.agentId!);
-    const identityRegistry = this.sdk.getIdentityRegistry();
+    const agentUri = await target.uploadJson(
+      `agent-${chainId}-${tokenId}.json`,
+      formatRegistrationFile(this.registrationFile, chainId, identityRegistryAddress, tools)
+    );
 
-    // Update metadata one by one (like Python SDK)
-    // Only send transactions for dirty (changed) metadata keys
-    for (const entry of metadataEntries) {
-      if (this._dirtyMetadata.has(entry.key)) {
-        const txHash = await this.sdk.web3Client.transactContract(
-          identityRegistry,
-          'setMetadata',
-          {},
-          BigInt(tokenId),
-          entry.key,
-          entry.value
-        );
+    await this.setAgentUri(agentUri);
+    return this.registrationFile;
+  }
+
+  /**
+   * Send dirty metadata keys on-chain, in one multicall transaction when the registry supports it, else one by one
+   * Keys that were sent are no longer dirty; failed keys stay dirty so the next update retries them
+   */
+  private async _updateMetadataOnChain(): Promise<MetadataUpdateResult[]> {
+    const calls = this._dirtyMetadataCalls();
+    const identityRegistry = this.sdk.getIdentityRegistry();
+    const results: MetadataUpdateResult[] = [];
 
-        // Wait with 30 second timeout (like Python SDK)
-        // If timeout, log warning but continue - transaction was sent and will eventually confirm
+    if (calls.length > 1 && await this.sdk.web3Client.canMulticall(identityRegistry, calls)) {
+      let txHash: string | undefined;
+      let outcome: Pick<MetadataUpdateResult, 'status' | 'error'>;
+      try {
+        txHash = await this.sdk.web3Client.transactMulticall(identityRegistry, calls);
+        outcome = await this._waitForMetadataUpdate(txHash);
+      } catch (error) {
+        outcome = { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+      }
+      for (const call of calls) {
+        results.push({ key: call.args[1], ...outcome, txHash, batched: true });
+      }
+    } else {
+      // Update metadata one by one (like Python SDK); a failed key does not stop the others
+      for (const call of calls) {
+        let txHash: string | undefined;
+        let outcome: Pick<MetadataUpdateResult, 'status' | 'error'>;
         try {
-          await this.sdk.web3Client.waitForTransaction(txHash, TIMEOUTS.TRANSACTION_WAIT);
+          txHash = await this.sdk.web3Client.transactContract(identityRegistry, call.method, {}, ...call.args);
+          outcome = await this._waitForMetadataUpdate(txHash);
         } catch (error) {
-          // Transaction was sent and will eventually confirm - continue silently
+          outcome = { status: 'failed', error: error instanceof Error ? error.message : String(error) };
         }
+        results.push({ key: call.args[1], ...outcome, txHash, batched: false });
       }
     }
+
+    for (const result of results) {
+      if (result.status !== 'failed') {
+        this._dirtyMetadata.delete(result.key);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * setMetadata calls for the dirty metadata keys, in _collectMetadataForRegistration() order
+   */
+  private _dirtyMetadataCalls(): ContractCall[] {
+    const { tokenId } = parseAgentId(this.registrationFile.agentId!);
+    return this._collectMetadataForRegistration()
+      .filter((entry) => this._dirtyMetadata.has(entry.key))
+      .map((entry) => ({ method: 'setMetadata', args: [BigInt(tokenId), entry.key, entry.value] }));
+  }
+
+  private async _waitForMetadataUpdate(txHash: string): Promise<Pick<MetadataUpdateResult, 'status' | 'error'>> {
+    // Wait with 30 second timeout (like Python SDK)
+    // If timeout, the transaction was sent and will eventually confirm
+    let receipt: ethers.ContractTransactionReceipt;
+    try {
+      receipt = await this.sdk.web3Client.waitForTransaction(txHash, TIMEOUTS.TRANSACTION_WAIT);
+    } catch (error) {
+      return { status: 'pending', error: error instanceof Error ? error.message : String(error) };
+    }
+    return receipt?.status === 0 ? { status: 'failed', error: 'Transaction reverted' } : { status: 'confirmed' };
   }
 
   private _collectMetadataForRegistration(): Array<{ key: string; value: Uint8Array }> {
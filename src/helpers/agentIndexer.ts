@@ -6,6 +6,7 @@
 import type { AgentSummary, SearchParams, SearchResultMeta, AgentSearchResult, AgentSearchResultWithMeta, ChainQueryResult, AgentWithScore } from '../types/interfaces.js';
 import type { AgentId, ChainId } from '../types/common.js';
 import type { Web3Client } from './web3client.js';
+import type { LocalIndexer } from './localIndexer.js';
 import { SubgraphClient } from './subgraphclient.js';
 import { normalizeAddress } from '../utils/validation.js';
 import { DEFAULT_SUBGRAPH_URLS } from './contracts.js';
@@ -18,7 +19,8 @@ export class AgentIndexer {
   constructor(
     private web3Client: Web3Client,
     private subgraphClient?: SubgraphClient,
-    private subgraphUrlOverrides?: Record<ChainId, string>
+    private subgraphUrlOverrides?: Record<ChainId, string>,
+    private localIndexer?: LocalIndexer
   ) {}
 
   /**
@@ -33,8 +35,16 @@ export class AgentIndexer {
       }
     }
 
-    // Fallback: would need to query blockchain directly
-    // For now, throw error if not in subgraph
+    // Fallback: local index built from chain logs
+    if (this.localIndexer) {
+      await this.localIndexer.sync();
+      const agent = await this.localIndexer.getAgent(agentId);
+      if (agent) {
+        return agent;
+      }
+      throw new Error(`Agent ${agentId} not found`);
+    }
+
     throw new Error(`Agent ${agentId} not found. Subgraph required for querying.`);
   }
 
@@ -87,14 +97,17 @@ export class AgentIndexer {
       }
     }
 
+    // Parse cursor for pagination
+    const skip = cursor ? parseInt(cursor, 10) : 0;
+
     // Single-chain search (existing logic)
     if (!this.subgraphClient) {
+      if (this.localIndexer) {
+        return this._searchLocalIndex(this.localIndexer, searchParams, pageSize, skip, sort);
+      }
       throw new Error('Subgraph client required for agent search');
     }
 
-    // Parse cursor for pagination
-    const skip = cursor ? parseInt(cursor, 10) : 0;
-
     // Use subgraph search which pushes filters and pagination to subgraph level (much more efficient)
     // Fetch one extra record to check if there's a next page
     let agents = await this.subgraphClient.searchAgents(searchParams, pageSize + 1, skip);
@@ -115,6 +128,40 @@ export class AgentIndexer {
     };
   }
 
+  /**
+   * Search the local log index (used when no subgraph is configured)
+   */
+  private async _searchLocalIndex(
+    localIndexer: LocalIndexer,
+    params: SearchParams,
+    pageSize: number,
+    skip: number,
+    sort: string[]
+  ): Promise<AgentSearchResult> {
+    await localIndexer.sync();
+
+    const { owners, operators } = params;
+    let agents = this._filterAgents(await localIndexer.listAgents(), params).filter(agent => {
+      // Owner/operator filters are applied by the subgraph query on the other path
+      if (owners && owners.length > 0 && !agent.owners.some(owner => owners.some(o => normalizeAddress(o) === normalizeAddress(owner)))) {
+        return false;
+      }
+      if (operators && operators.length > 0 && !agent.operators.some(op => operators.some(o => normalizeAddress(o) === normalizeAddress(op)))) {
+        return false;
+      }
+      return true;
+    });
+    agents = this._sortAgentsCrossChain(agents, sort);
+
+    const paginatedAgents = agents.slice(skip, skip + pageSize);
+    const hasMore = agents.length > skip + pageSize;
+
+    return {
+      items: paginatedAgents,
+      nextCursor: hasMore ? String(skip + pageSize) : undefined,
+    };
+  }
+
   private _filterAgents(agents: AgentSummary[], params: SearchParams): AgentSummary[] {
     const {
       name,
@@ -0,0 +1,446 @@
+/**
+ * Picks the agent best suited for a task by capability, reputation, price and liveness
+ */
+
+import type { Signer } from 'x402-axios';
+import type { AgentId, ChainId } from '../types/common.js';
+import type { AgentSummary, SearchParams } from '../types/interfaces.js';
+import type { FluidSDK } from '../index.js';
+import type { Agent } from './agent.js';
+import type { TaskResult } from './execution.js';
+import { toolPriceInUnits, type Tool } from './function-tools.js';
+import { A2AError, type A2AMessageInput } from './a2aClient.js';
+import { runWithFailover, type FailoverAttempt, type RetryOptions } from './failover.js';
+import type { PaymentAmount, PaymentRequirements } from './paymentPolicy.js';
+import type { PaymentReceipt } from './paymentReceipt.js';
+
+// Pseudo-feedback weight pulling averages of rarely rated agents towards a neutral 50
+const REPUTATION_PRIOR_COUNT = 5;
+const NEUTRAL_SCORE = 0.5;
+
+export interface RouteWeights {
+  capability: number;
+  reputation: number;
+  price: number;
+  liveness: number;
+}
+
+const DEFAULT_WEIGHTS: RouteWeights = { capability: 0.4, reputation: 0.3, price: 0.2, liveness: 0.1 };
+
+/**
+ * What the task needs; give one of tool, skill or query
+ */
+export interface RouteRequest {
+  tool?: string; // Tool name (published tool or MCP tool)
+  skill?: string; // A2A skill
+  query?: string; // Free text matched against names, descriptions, tools and skills
+  agents?: AgentId[]; // Only these agents, kept in this order instead of ranked
+  maxPrice?: PaymentAmount; // Atomic units of the tool's payment token; also caps what execution pays
+  minScore?: number; // Minimum average feedback score (0-100); agents without feedback are excluded
+  chains?: ChainId[] | 'all';
+  limit?: number; // Candidates in the plan (default: 5)
+  searchLimit?: number; // Agents considered (default: 50)
+  checkLiveness?: boolean; // Probe endpoints before ranking (default: true)
+  livenessTimeout?: number; // ms (default: 3000)
+  weights?: Partial<RouteWeights>;
+  execute?: RouteExecuteOptions; // Run the plan, falling through to the next candidate on failure
+}
+
+export interface RouteExecuteOptions extends RetryOptions {
+  signer: Signer;
+  parameters?: Record<string, any>; // Tool arguments
+  message?: A2AMessageInput; // A2A message (default: query or skill)
+  maxCandidates?: number; // Agents tried before giving up (default: 3)
+}
+
+export interface RouteScores {
+  capability: number; // 0-1 each
+  reputation: number;
+  price: number;
+  liveness: number;
+}
+
+/**
+ * One agent in the plan and how it would be called
+ */
+export interface RouteCandidate {
+  agentId: AgentId;
+  chainId: ChainId;
+  name: string;
+  protocol: 'mcp' | 'rest' | 'a2a';
+  tool?: Tool | undefined; // Matched tool definition (mcp/rest)
+  toolName?: string | undefined;
+  executable: boolean; // false for MCP agents matched by query when no listed tool fits it; ranked but never called
+  skill?: string | undefined; // Matched A2A skill
+  endpoint: string; // MCP server, tool base URL or A2A endpoint
+  price?: bigint | undefined; // undefined when the agent does not publish one (ranked lowest on price under maxPrice)
+  reputation: { count: number; averageScore: number };
+  live?: boolean | undefined; // undefined when not checked
+  latencyMs?: number | undefined;
+  score: number; // Weighted total (0-1)
+  scores: RouteScores;
+}
+
+export type RouteRejectionReason = 'noMatch' | 'price' | 'reputation' | 'offline' | 'unavailable';
+
+export interface RouteRejection {
+  agentId: AgentId;
+  reason: RouteRejectionReason;
+  detail?: string | undefined;
+}
+
+export interface RouteExecution {
+  agentId: AgentId; // Agent that served the request - give feedback to this one
+  candidate: RouteCandidate;
+  result: TaskResult;
+  attempts: FailoverAttempt[]; // Failed attempts before this one
+}
+
+/**
+ * Candidates best first, the agents left out and, when requested, the execution outcome
+ */
+export interface RoutePlan {
+  candidates: RouteCandidate[];
+  rejected: RouteRejection[];
+  execution?: RouteExecution | undefined;
+}
+
+type Unscored = Omit<RouteCandidate, 'score' | 'scores'> & { capability: number };
+
+/**
+ * Ranks candidate agents for a task and optionally calls the best one
+ */
+export class AgentRouter {
+  constructor(private sdk: FluidSDK) {}
+
+  async route(request: RouteRequest): Promise<RoutePlan> {
+    if (!request.tool && !request.skill && !request.query) {
+      throw new Error('route() needs a tool, skill or query');
+    }
+
+    const maxPrice = request.maxPrice !== undefined ? BigInt(request.maxPrice) : undefined;
+    const rejected: RouteRejection[] = [];
+    const found: Unscored[] = [];
+
+    const evaluated = await Promise.all(
+      (await this._search(request, rejected)).map((summary) => this._evaluate(summary, request, maxPrice, rejected))
+    );
+    for (const candidate of evaluated) {
+      if (candidate) {
+        found.push(candidate);
+      }
+    }
+
+    const weights = { ...DEFAULT_WEIGHTS, ...request.weights };
+    const ranked = this._rank(found, weights, maxPrice);
+    if (request.agents) {
+      // Caller's order wins over the ranking
+      const order = request.agents;
+      ranked.sort((a, b) => order.indexOf(a.agentId) - order.indexOf(b.agentId));
+    }
+    const candidates = ranked.slice(0, request.limit ?? (request.agents ? request.agents.length : 5));
+    const plan: RoutePlan = { candidates, rejected };
+    if (request.execute) {
+      plan.execution = await this.execute(plan, request.execute, request);
+    }
+    return plan;
+  }
+
+  /**
+   * Call plan candidates in order, retrying and failing over until one succeeds (see runWithFailover)
+   * Payment refusals and invalid arguments are thrown instead of trying the next candidate
+   * With request.maxPrice, no payment above it is signed, whatever the agent declared
+   * @throws FailoverExhausted when every candidate failed
+   */
+  async execute(
+    plan: RoutePlan,
+    options: RouteExecuteOptions,
+    request: Pick<RouteRequest, 'skill' | 'query' | 'maxPrice'> = {}
+  ): Promise<RouteExecution> {
+    const candidates = plan.candidates.filter((candidate) => candidate.executable).slice(0, options.maxCandidates ?? 3);
+    const { candidate, result, attempts } = await runWithFailover(candidates, (next) => this._call(next, options, request), options);
+    return { agentId: candidate.agentId, candidate, result, attempts };
+  }
+
+  private async _search(request: RouteRequest, rejected: RouteRejection[]): Promise<AgentSummary[]> {
+    if (request.agents) {
+      const summaries = await Promise.all(request.agents.map(async (agentId) => {
+        const summary = await this.sdk.getAgent(agentId).catch(() => null);
+        if (!summary) {
+          rejected.push({ agentId, reason: 'unavailable', detail: 'not found' });
+        }
+        return summary;
+      }));
+      return summaries.filter((summary): summary is AgentSummary => summary !== null);
+    }
+
+    const base: SearchParams = request.chains ? { chains: request.chains } : {};
+    const pageSize = request.searchLimit ?? 50;
+    const filtered: SearchParams = request.tool
+      ? { ...base, mcpTools: [request.tool] }
+      : request.skill
+        ? { ...base, a2aSkills: [request.skill] }
+        : base;
+
+    const { items } = await this.sdk.searchAgents(filtered, undefined, pageSize);
+    if (items.length > 0 || filtered === base) {
+      return items;
+    }
+    // Published (REST) tools are not indexed - look through agents without the capability filter
+    return (await this.sdk.searchAgents(base, undefined, pageSize)).items;
+  }
+
+  private async _evaluate(
+    summary: AgentSummary,
+    request: RouteRequest,
+    maxPrice: bigint | undefined,
+    rejected: RouteRejection[]
+  ): Promise<Unscored | undefined> {
+    const reject = (reason: RouteRejectionReason, detail?: string): undefined => {
+      rejected.push({ agentId: summary.agentId, reason, detail });
+      return undefined;
+    };
+
+    let agent: Agent;
+    try {
+      agent = await this.sdk.loadAgent(summary.agentId);
+    } catch (error) {
+      return reject('unavailable', describe(error));
+    }
+
+    const match = matchCapability(summary, agent, request);
+    if (!match) {
+      return reject('noMatch');
+    }
+
+    const price = match.tool ? toolPriceInUnits(match.tool) : undefined;
+    if (price === undefined && match.tool?.pricing?.price) {
+      // Declared but unreadable (e.g. more decimals than the token has) - the real price is unknown
+      return reject('price', `invalid price ${match.tool.pricing.price}`);
+    }
+    if (maxPrice !== undefined && price !== undefined && price > maxPrice) {
+      return reject('price', `${price} > ${maxPrice}`);
+    }
+
+    let reputation = { count: 0, averageScore: 0 };
+    try {
+      reputation = await this.sdk.getReputationSummary(summary.agentId);
+    } catch {
+      // No reputation data - treated as unrated
+    }
+    if (request.minScore !== undefined && (reputation.count === 0 || reputation.averageScore < request.minScore)) {
+      return reject('reputation', `${reputation.averageScore} from ${reputation.count} feedback`);
+    }
+
+    let live: boolean | undefined;
+    let latencyMs: number | undefined;
+    if (request.checkLiveness !== false) {
+      const started = Date.now();
+      live = await probe(match.endpoint, request.livenessTimeout ?? 3000);
+      latencyMs = Date.now() - started;
+      if (!live) {
+        return reject('offline', match.endpoint);
+      }
+    }
+
+    return {
+      agentId: summary.agentId,
+      chainId: summary.chainId,
+      name: summary.name,
+      ...match,
+      executable: match.protocol !== 'mcp' || match.tool !== undefined || match.toolName !== undefined,
+      price,
+      reputation,
+      live,
+      latencyMs,
+    };
+  }
+
+  private _rank(found: Unscored[], weights: RouteWeights, maxPrice: bigint | undefined): RouteCandidate[] {
+    // Prices are compared against the budget, or else against the dearest candidate
+    const ceiling = maxPrice ?? found.reduce((max, candidate) => candidate.price !== undefined && candidate.price > max ? candidate.price : max, 0n);
+    const total = weights.capability + weights.reputation + weights.price + weights.liveness || 1;
+
+    return found
+      .map(({ capability, ...candidate }) => {
+        const scores: RouteScores = {
+          capability,
+          reputation: (candidate.reputation.averageScore * candidate.reputation.count + 50 * REPUTATION_PRIOR_COUNT)
+            / (candidate.reputation.count + REPUTATION_PRIOR_COUNT) / 100,
+          // An unpublished price could be anything up to the budget
+          price: candidate.price === undefined
+            ? maxPrice !== undefined ? 0 : NEUTRAL_SCORE
+            : ceiling > 0n ? 1 - Number(candidate.price) / Number(ceiling) : 1,
+          liveness: candidate.live === undefined ? NEUTRAL_SCORE : candidate.live ? 1 : 0,
+        };
+        const score = (weights.capability * scores.capability + weights.reputation * scores.reputation
+          + weights.price * scores.price + weights.liveness * scores.liveness) / total;
+        return { ...candidate, score, scores };
+      })
+      .sort((a, b) => b.score - a.score || (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity));
+  }
+
+  private async _call(
+    candidate: RouteCandidate,
+    options: RouteExecuteOptions,
+    request: Pick<RouteRequest, 'skill' | 'query' | 'maxPrice'>
+  ): Promise<TaskResult> {
+    const { signer, parameters = {} } = options;
+    const maxPayment = request.maxPrice !== undefined ? { maxPayment: request.maxPrice } : {};
+
+    if (candidate.protocol === 'a2a') {
+      const message = options.message ?? request.query ?? request.skill;
+      if (message === undefined) {
+        throw new Error('A2A candidates need execute.message');
+      }
+      let receipt: PaymentReceipt | undefined;
+      let paid: PaymentRequirements | undefined;
+      try {
+        const reply = await this.sdk.sendA2ATask(candidate.agentId, message, {
+          signer,
+          ...maxPayment,
+          onSign: (option) => {
+            paid = option;
+          },
+          onPayment: (_paid, paymentReceipt) => {
+            receipt = paymentReceipt;
+          },
+        });
+        const failed = reply.kind === 'task' && ['failed', 'rejected', 'canceled'].includes(reply.status.state);
+        return failed
+          ? { success: false, error: reply.status.message ?? reply.status.state, data: reply, receipt, paid }
+          : { success: true, data: reply, receipt, paid };
+      } catch (error) {
+        if (error instanceof A2AError) {
+          return { success: false, error: { code: error.code, message: error.message, data: error.data }, receipt, paid };
+        }
+        if (paid !== undefined && error instanceof Error) {
+          // Keep the signed payment visible so failover does not pay again
+          return { success: false, error: error.message, receipt, paid };
+        }
+        throw error;
+      }
+    }
+
+    if (candidate.tool) {
+      return this.sdk.executeAgentTask({
+        tool: candidate.tool,
+        parameters,
+        signer,
+        agentId: candidate.agentId,
+        ...maxPayment,
+      });
+    }
+    if (candidate.toolName === undefined) {
+      throw new Error(`No MCP tool picked for agent ${candidate.agentId}`);
+    }
+    return this.sdk.executeAgentTask({
+      protocol: 'mcp',
+      mcpServerUrl: candidate.endpoint,
+      agentEndpoint: candidate.toolName,
+      parameters,
+      signer,
+      agentId: candidate.agentId,
+      ...maxPayment,
+    });
+  }
+}
+
+/**
+ * How well the agent covers the request (0-1) and how it would be called
+ */
+function matchCapability(
+  summary: AgentSummary,
+  agent: Agent,
+  request: RouteRequest
+): (Pick<RouteCandidate, 'protocol' | 'tool' | 'toolName' | 'skill' | 'endpoint'> & { capability: number }) | undefined {
+  const mcpEndpoint = agent.mcpEndpoint;
+  const a2aEndpoint = agent.a2aEndpoint;
+  const tools = agent.tools.map((tool) => mcpEndpoint && !tool.mcpServerUrl ? { ...tool, mcpServerUrl: mcpEndpoint } : tool);
+
+  const forTool = (tool: Tool, capability: number) => tool.mcpServerUrl
+    ? { protocol: tool.protocol ?? 'rest', tool, toolName: tool.name, endpoint: tool.mcpServerUrl, capability } as const
+    : undefined;
+
+  if (request.tool) {
+    const wanted = request.tool.toLowerCase();
+    const published = tools.find((tool) => tool.name.toLowerCase() === wanted);
+    if (published) {
+      return forTool(published, 1);
+    }
+    const mcpTool = summary.mcpTools.find((name) => name.toLowerCase() === wanted);
+    if (mcpTool && mcpEndpoint) {
+      return { protocol: 'mcp', toolName: mcpTool, endpoint: mcpEndpoint, capability: 1 };
+    }
+    const partial = tools.find((tool) => tool.name.toLowerCase().includes(wanted));
+    return partial ? forTool(partial, 0.6) : undefined;
+  }
+
+  if (request.skill) {
+    if (!a2aEndpoint) {
+      return undefined;
+    }
+    const wanted = request.skill.toLowerCase();
+    const exact = summary.a2aSkills.find((skill) => skill.toLowerCase() === wanted);
+    const partial = exact ?? summary.a2aSkills.find((skill) => skill.toLowerCase().includes(wanted));
+    return partial ? { protocol: 'a2a', skill: partial, endpoint: a2aEndpoint, capability: exact ? 1 : 0.6 } : undefined;
+  }
+
+  // Free-text query: share of query terms found in the agent's text
+  const terms = (request.query || '').toLowerCase().split(/\W+/).filter((term) => term.length > 2);
+  if (terms.length === 0) {
+    return undefined;
+  }
+  const coverage = (text: string) => terms.filter((term) => text.includes(term)).length / terms.length;
+  const agentText = `${summary.name} ${summary.description}`.toLowerCase();
+
+  let best: NonNullable<ReturnType<typeof forTool>> | undefined;
+  for (const tool of tools) {
+    const option = forTool(tool, coverage(`${agentText} ${tool.name} ${tool.description}`.toLowerCase()));
+    if (option && option.capability > (best?.capability ?? 0)) {
+      best = option;
+    }
+  }
+  const skillScore = a2aEndpoint ? coverage(`${agentText} ${summary.a2aSkills.join(' ')}`.toLowerCase()) : 0;
+  if (a2aEndpoint && skillScore > (best?.capability ?? 0)) {
+    return { protocol: 'a2a', endpoint: a2aEndpoint, capability: skillScore };
+  }
+  if (!best && mcpEndpoint) {
+    const mcpScore = coverage(`${agentText} ${summary.mcpTools.join(' ')}`.toLowerCase());
+    if (mcpScore === 0) {
+      return undefined;
+    }
+    // The tool whose name shares the most query terms; a single listed tool is taken as is
+    let toolName = summary.mcpTools.length === 1 ? summary.mcpTools[0] : undefined;
+    let toolScore = 0;
+    for (const name of summary.mcpTools) {
+      const score = coverage(name.toLowerCase());
+      if (score > toolScore) {
+        toolName = name;
+        toolScore = score;
+      }
+    }
+    return { protocol: 'mcp', toolName, endpoint: mcpEndpoint, capability: mcpScore };
+  }
+  return best;
+}
+
+/**
+ * An endpoint is live if it answers HTTP at all (402, 404 and 405 included)
+ */
+async function probe(endpoint: string, timeout: number): Promise<boolean> {
+  if (!/^https?:\/\//.test(endpoint)) {
+    return false;
+  }
+  try {
+    const response = await fetch(endpoint, { method: 'GET', signal: AbortSignal.timeout(timeout) });
+    await response.body?.cancel();
+    return response.status < 500;
+  } catch {
+    return false;
+  }
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
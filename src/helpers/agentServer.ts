@@ -0,0 +1,532 @@
+/**
+ * HTTP server for an agent's tools, serving the routes the SDK reads when registering and calling agents:
+ * GET /tools (Agent.registerIPFS), /resources, /prompts and /agentcard.json (EndpointCrawler), the REST tool
+ * endpoints (executeAgentTask) and MCP JSON-RPC on the base URL (callMcpTool, setMCP autoFetch)
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { URI } from '../types/common.js';
+import type { FluidSDK } from '../index.js';
+import type { Agent } from './agent.js';
+import type { HttpMethod, Tool, ToolParameter, ToolPricing } from './function-tools.js';
+import { MCP_PROTOCOL_VERSION, type McpPrompt, type McpResource, type McpTool, type McpToolResult } from './mcpClient.js';
+import { createPaywall, readJsonBody, skipSettlement, type Facilitator, type PaywallMiddleware } from './paywall.js';
+import { validateToolArguments } from './toolValidator.js';
+
+const PATH_PARAMETER = /\{([^}]+)\}|:([A-Za-z_][A-Za-z0-9_]*)/g;
+
+export interface ToolCallContext {
+  protocol: 'rest' | 'mcp';
+  request: IncomingMessage;
+}
+
+/**
+ * A tool served by AgentServer
+ */
+export interface AgentServerTool {
+  name: string;
+  description: string;
+  parameters?: ToolParameter[];
+  inputSchema?: Record<string, unknown>; // Takes precedence over parameters
+  outputSchema?: Record<string, unknown>;
+  pricing?: ToolPricing; // Charged with x402 on both the REST route and tools/call (free when omitted)
+  endpoint?: string; // REST route, may contain path parameters (default: /tools/<name>)
+  method?: HttpMethod; // default: POST
+  handler: (args: Record<string, any>, context: ToolCallContext) => unknown; // Errors with a numeric status set the REST status
+}
+
+export interface AgentServerResource extends McpResource {
+  read: () => string | Promise<string>;
+}
+
+export interface AgentServerPrompt extends McpPrompt {
+  get: (args: Record<string, string>) => string | Promise<string>; // Text of the user message
+}
+
+export interface AgentServerOptions {
+  name: string;
+  description: string;
+  version?: string; // Server version reported to MCP clients (default: 1.0.0)
+  image?: URI; // Used by register()
+  tools: AgentServerTool[];
+  resources?: AgentServerResource[];
+  prompts?: AgentServerPrompt[];
+  payTo?: string; // Receiving address; required when a tool has pricing
+  facilitator?: Facilitator; // default: createFacilitator()
+  basePath?: string; // Serve under a path prefix, e.g. '/agent'
+  publicUrl?: string; // URL clients reach the server at, including basePath (default: the listening address)
+}
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method: string;
+  params?: any;
+}
+
+class JsonRpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Serves declared tools over REST and MCP, charging priced tools with x402
+ *
+ * Use listen() for a standalone server, or pass handler to http.createServer or Express (app.use(server.handler))
+ */
+export class AgentServer {
+  private readonly basePath: string;
+  private readonly paywall: PaywallMiddleware | undefined;
+  private readonly routes: Array<{ tool: AgentServerTool; method: string; path: RegExp; names: string[] }>;
+  private _server: Server | undefined;
+  private _url: string | undefined;
+
+  constructor(private options: AgentServerOptions) {
+    this.basePath = (options.basePath ?? '').replace(/\/$/, '');
+    this._url = options.publicUrl?.replace(/\/$/, '');
+
+    const names = new Set<string>();
+    for (const tool of options.tools) {
+      if (names.has(tool.name)) {
+        throw new Error(`Duplicate tool name: ${tool.name}`);
+      }
+      names.add(tool.name);
+    }
+    this.routes = options.tools.map((tool) => {
+      const endpoint = endpointOf(tool);
+      const pattern = `${this.basePath}${endpoint}`
+        .replace(/[.*+?^$()|[\]\\]/g, '\\$&')
+        .replace(PATH_PARAMETER, '([^/]+)');
+      const pathNames = [...endpoint.matchAll(PATH_PARAMETER)].map((match) => (match[1] ?? match[2])!);
+      return { tool, method: tool.method ?? 'POST', path: new RegExp(`^${pattern}/?$`), names: pathNames };
+    });
+
+    const priced = this.tools.filter((tool) => tool.pricing?.price);
+    if (priced.length > 0) {
+      if (!options.payTo) {
+        throw new Error('payTo is required when tools have pricing');
+      }
+      this.paywall = createPaywall({
+        payTo: options.payTo,
+        tools: [
+          ...priced,
+          ...priced.map((tool) => ({ ...tool, protocol: 'mcp' as const })), // Same price for tools/call
+        ],
+        basePath: this.basePath,
+        mcpPath: this.basePath || '/',
+        ...(options.facilitator ? { facilitator: options.facilitator } : {}),
+        ...(this._url ? { resourceUrl: new URL(this._url).origin } : {}),
+      });
+    }
+  }
+
+  /**
+   * Base URL of the server (MCP endpoint and base for the REST tool endpoints); set once listening or from publicUrl
+   */
+  get url(): string | undefined {
+    return this._url;
+  }
+
+  /**
+   * Tool definitions as published by GET /tools and stored in the registration file
+   */
+  get tools(): Tool[] {
+    return this.options.tools.map((tool) => {
+      const published = {
+        name: tool.name,
+        description: tool.description,
+        endpoint: endpointOf(tool),
+        method: tool.method ?? 'POST',
+        parameters: tool.parameters ?? [],
+        ...(tool.pricing ? { pricing: tool.pricing } : {}),
+        ...(tool.inputSchema ? { inputSchema: tool.inputSchema } : {}),
+        ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+        ...(this._url ? { mcpServerUrl: this._url } : {}),
+      };
+      return published as Tool;
+    });
+  }
+
+  /**
+   * Request handler for http.createServer or Express; unknown routes go to next() when given, else 404
+   */
+  readonly handler = (req: IncomingMessage, res: ServerResponse, next?: (error?: unknown) => void): void => {
+    const fail = (error: unknown) => {
+      if (next) {
+        next(error);
+        return;
+      }
+      const status = (error as { status?: unknown })?.status;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (!res.headersSent) {
+        sendJson(res, typeof status === 'number' && status >= 400 && status < 600 ? status : 500, { error: errorMessage });
+      }
+    };
+    const route = () => {
+      this._route(req, res, next).catch(fail);
+    };
+
+    if (this.paywall) {
+      this.paywall(req, res, (error) => (error ? fail(error) : route()));
+    } else {
+      route();
+    }
+  };
+
+  /**
+   * Start listening
+   * @returns The server URL
+   */
+  async listen(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    if (this._server) {
+      throw new Error('AgentServer is already listening');
+    }
+    const server = createServer((req, res) => this.handler(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this._server = server;
+
+    if (!this._url) {
+      const address = server.address() as AddressInfo;
+      const hostname = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+      this._url = `http://${hostname}:${address.port}${this.basePath}`;
+    }
+    return this._url;
+  }
+
+  async close(): Promise<void> {
+    const server = this._server;
+    if (!server) {
+      return;
+    }
+    this._server = undefined;
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Register this server as a new agent: createAgent, setMCP (tools read back from the server) and registerIPFS
+   * The server must be listening, or have a publicUrl reachable from here
+   */
+  async register(sdk: FluidSDK, metadata: Record<string, any> = {}): Promise<Agent> {
+    if (!this._url) {
+      throw new Error('AgentServer has no URL. Call listen() or set publicUrl first.');
+    }
+    const { name, description, image } = this.options;
+    const agent = sdk.createAgent({
+      name,
+      description,
+      ...(image ? { image } : {}),
+      x402support: this.tools.some((tool) => tool.pricing?.price),
+      metadata,
+      owners: [],
+    });
+    await agent.setMCP(this._url, MCP_PROTOCOL_VERSION, true);
+    await agent.registerIPFS();
+    return agent;
+  }
+
+  private async _route(req: IncomingMessage, res: ServerResponse, next?: (error?: unknown) => void): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = (req.method ?? 'GET').toUpperCase();
+    const path = url.pathname.replace(/\/$/, '');
+
+    if (path === this.basePath) {
+      if (method === 'POST') {
+        await this._mcp(req, res);
+      } else {
+        // No server-initiated stream (Streamable HTTP GET) or sessions to delete
+        res.setHeader('Allow', 'POST');
+        sendJson(res, 405, { error: 'Method not allowed' });
+      }
+      return;
+    }
+
+    if (method === 'GET') {
+      const listing = this._listing(path.slice(this.basePath.length));
+      if (listing !== undefined) {
+        sendJson(res, 200, listing);
+        return;
+      }
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === method ? route.path.exec(url.pathname) : null;
+      if (match) {
+        await this._rest(route, match, url, req, res);
+        return;
+      }
+    }
+
+    if (next) {
+      next();
+    } else {
+      sendJson(res, 404, { error: `Not found: ${method} ${url.pathname}` });
+    }
+  }
+
+  private _listing(path: string): unknown {
+    switch (path) {
+      case '/tools':
+        return this.tools;
+      case '/resources':
+        return this._resources();
+      case '/prompts':
+        return this._prompts();
+      case '/agentcard.json':
+        return {
+          name: this.options.name,
+          description: this.options.description,
+          version: this.options.version ?? '1.0.0',
+          ...(this._url ? { url: this._url } : {}),
+          tools: this._mcpTools(),
+          resources: this._resources(),
+          prompts: this._prompts(),
+        };
+      default:
+        return undefined;
+    }
+  }
+
+  private async _rest(
+    route: AgentServer['routes'][number],
+    match: RegExpExecArray,
+    url: URL,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const { tool } = route;
+    const parameters = new Map((tool.parameters ?? []).map((parameter) => [parameter.name, parameter]));
+    const args: Record<string, any> = {};
+
+    const body = route.method === 'GET' || route.method === 'DELETE' ? undefined : await readJsonBody(req);
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      Object.assign(args, body);
+    }
+    for (const [name, value] of url.searchParams) {
+      args[name] = coerce(value, parameters.get(name));
+    }
+    for (const parameter of parameters.values()) {
+      const header = parameter.in === 'header' ? req.headers[parameter.name.toLowerCase()] : undefined;
+      if (typeof header === 'string') {
+        args[parameter.name] = coerce(header, parameter);
+      }
+    }
+    route.names.forEach((name, index) => {
+      args[name] = coerce(decodeURIComponent(match[index + 1]!), parameters.get(name));
+    });
+
+    const issues = validateToolArguments(asTool(tool), args);
+    if (issues.length > 0) {
+      sendJson(res, 400, { error: `Invalid arguments for ${tool.name}`, issues });
+      return;
+    }
+
+    try {
+      const result = await tool.handler(args, { protocol: 'rest', request: req });
+      if (typeof result === 'string') {
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.end(result);
+      } else {
+        sendJson(res, 200, result ?? null);
+      }
+    } catch (error) {
+      const status = (error as { status?: unknown })?.status;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      sendJson(res, typeof status === 'number' && status >= 400 && status < 600 ? status : 500, { error: errorMessage });
+    }
+  }
+
+  /**
+   * Stateless MCP over Streamable HTTP (JSON responses, no sessions)
+   */
+  private async _mcp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = await readJsonBody(req);
+    const messages = (Array.isArray(body) ? body : [body]) as JsonRpcRequest[];
+    const responses: unknown[] = [];
+    let toolFailed = false;
+    for (const message of messages) {
+      if (!message || typeof message !== 'object' || typeof message.method !== 'string') {
+        responses.push({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid request' } });
+        continue;
+      }
+      if (message.id === undefined || message.id === null) {
+        continue; // Notification (e.g. notifications/initialized)
+      }
+      try {
+        const result = await this._mcpMethod(message, req);
+        if (message.method === 'tools/call' && (result as McpToolResult).isError) {
+          toolFailed = true;
+        }
+        responses.push({ jsonrpc: '2.0', id: message.id, result });
+      } catch (error) {
+        if (message.method === 'tools/call') {
+          toolFailed = true;
+        }
+        const code = error instanceof JsonRpcError ? error.code : -32603;
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        responses.push({ jsonrpc: '2.0', id: message.id, error: { code, message: errorMessage } });
+      }
+    }
+
+    if (toolFailed) {
+      // Failed tool calls are not charged, like REST calls answered with an error status
+      skipSettlement(res);
+    }
+    if (responses.length === 0) {
+      res.statusCode = 202;
+      res.end();
+      return;
+    }
+    sendJson(res, 200, Array.isArray(body) ? responses : responses[0]);
+  }
+
+  private async _mcpMethod(message: JsonRpcRequest, req: IncomingMessage): Promise<unknown> {
+    const params = message.params ?? {};
+    const { resources = [], prompts = [] } = this.options;
+
+    switch (message.method) {
+      case 'initialize':
+        return {
+          protocolVersion: typeof params.protocolVersion === 'string' ? params.protocolVersion : MCP_PROTOCOL_VERSION,
+          capabilities: {
+            tools: {},
+            ...(resources.length > 0 ? { resources: {} } : {}),
+            ...(prompts.length > 0 ? { prompts: {} } : {}),
+          },
+          serverInfo: { name: this.options.name, version: this.options.version ?? '1.0.0' },
+          instructions: this.options.description,
+        };
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: this._mcpTools() };
+      case 'tools/call':
+        return this._callTool(params.name, params.arguments ?? {}, req);
+      case 'resources/list':
+        return { resources: this._resources() };
+      case 'resources/read': {
+        const resource = resources.find((entry) => entry.uri === params.uri);
+        if (!resource) {
+          throw new JsonRpcError(-32002, `Resource not found: ${params.uri}`);
+        }
+        const text = await resource.read();
+        return { contents: [{ uri: resource.uri, ...(resource.mimeType ? { mimeType: resource.mimeType } : {}), text }] };
+      }
+      case 'prompts/list':
+        return { prompts: this._prompts() };
+      case 'prompts/get': {
+        const prompt = prompts.find((entry) => entry.name === params.name);
+        if (!prompt) {
+          throw new JsonRpcError(-32602, `Unknown prompt: ${params.name}`);
+        }
+        const text = await prompt.get(params.arguments ?? {});
+        return {
+          ...(prompt.description ? { description: prompt.description } : {}),
+          messages: [{ role: 'user', content: { type: 'text', text } }],
+        };
+      }
+      default:
+        throw new JsonRpcError(-32601, `Method not found: ${message.method}`);
+    }
+  }
+
+  private async _callTool(name: unknown, args: Record<string, any>, req: IncomingMessage): Promise<McpToolResult> {
+    const tool = this.options.tools.find((entry) => entry.name === name);
+    if (!tool) {
+      throw new JsonRpcError(-32602, `Unknown tool: ${name}`);
+    }
+    const issues = validateToolArguments(asTool(tool), args);
+    if (issues.length > 0) {
+      const details = issues.map((issue) => issue.path ? `${issue.path} ${issue.message}` : issue.message).join('; ');
+      throw new JsonRpcError(-32602, `Invalid arguments for ${tool.name}: ${details}`);
+    }
+
+    try {
+      const result = await tool.handler(args, { protocol: 'mcp', request: req });
+      const structured = typeof result === 'object' && result !== null && !Array.isArray(result);
+      return {
+        content: [{ type: 'text', text: typeof result === 'string' ? result : JSON.stringify(result ?? null) }],
+        ...(structured ? { structuredContent: result as Record<string, unknown> } : {}),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { content: [{ type: 'text', text: errorMessage }], isError: true };
+    }
+  }
+
+  private _mcpTools(): McpTool[] {
+    return this.options.tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema ?? parametersSchema(tool.parameters ?? []),
+      ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+    }));
+  }
+
+  private _resources(): McpResource[] {
+    return (this.options.resources ?? []).map(({ read, ...resource }) => resource);
+  }
+
+  private _prompts(): McpPrompt[] {
+    return (this.options.prompts ?? []).map(({ get, ...prompt }) => prompt);
+  }
+}
+
+function endpointOf(tool: AgentServerTool): string {
+  const endpoint = tool.endpoint ?? `/tools/${encodeURIComponent(tool.name)}`;
+  return endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
+}
+
+function asTool(tool: AgentServerTool): Tool {
+  return { ...tool, endpoint: endpointOf(tool), parameters: tool.parameters ?? [] } as Tool;
+}
+
+/**
+ * JSON Schema for a parameter list (MCP inputSchema)
+ */
+function parametersSchema(parameters: ToolParameter[]): Record<string, unknown> {
+  const jsonTypes = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+  const properties: Record<string, unknown> = {};
+  for (const parameter of parameters) {
+    const type = parameter.type.toLowerCase();
+    properties[parameter.name] = {
+      type: jsonTypes.includes(type) ? type : 'string',
+      description: parameter.description,
+      ...(parameter.enum ? { enum: parameter.enum } : {}),
+    };
+  }
+  const required = parameters.filter((parameter) => parameter.required).map((parameter) => parameter.name);
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+/**
+ * Convert a path, query or header value to the parameter's declared type
+ */
+function coerce(value: string, parameter: ToolParameter | undefined): unknown {
+  switch (parameter?.type.toLowerCase()) {
+    case 'number':
+    case 'integer':
+      return value.trim() !== '' && !Number.isNaN(Number(value)) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    default:
+      return value;
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
@@ -174,6 +174,18 @@ export const IDENTITY_REGISTRY_ABI = [
   },
 ] as const;
 
+// Multicall ABI (OpenZeppelin Multicall): batches calls to the contract itself, keeping msg.sender.
+// Multicall3-style aggregators call as themselves, so they cannot pass the registries' owner checks
+export const MULTICALL_ABI = [
+  {
+    inputs: [{ internalType: 'bytes[]', name: 'data', type: 'bytes[]' }],
+    name: 'multicall',
+    outputs: [{ internalType: 'bytes[]', name: 'results', type: 'bytes[]' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
 // Reputation Registry ABI
 export const REPUTATION_REGISTRY_ABI = [
   {
@@ -262,6 +274,13 @@ export const REPUTATION_REGISTRY_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ internalType: 'uint256', name: 'agentId', type: 'uint256' }],
+    name: 'getClients',
+    outputs: [{ internalType: 'address[]', name: '', type: 'address[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     anonymous: false,
     inputs: [
@@ -322,6 +341,72 @@ export const VALIDATION_REGISTRY_ABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [{ internalType: 'bytes32', name: 'requestHash', type: 'bytes32' }],
+    name: 'getValidationStatus',
+    outputs: [
+      { internalType: 'address', name: 'validatorAddress', type: 'address' },
+      { internalType: 'uint256', name: 'agentId', type: 'uint256' },
+      { internalType: 'uint8', name: 'response', type: 'uint8' },
+      { internalType: 'bytes32', name: 'tag', type: 'bytes32' },
+      { internalType: 'uint256', name: 'lastUpdate', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'agentId', type: 'uint256' },
+      { internalType: 'address[]', name: 'validatorAddresses', type: 'address[]' },
+      { internalType: 'bytes32', name: 'tag', type: 'bytes32' },
+    ],
+    name: 'getSummary',
+    outputs: [
+      { internalType: 'uint64', name: 'count', type: 'uint64' },
+      { internalType: 'uint8', name: 'avgResponse', type: 'uint8' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'agentId', type: 'uint256' }],
+    name: 'getAgentValidations',
+    outputs: [{ internalType: 'bytes32[]', name: '', type: 'bytes32[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'validatorAddress', type: 'address' }],
+    name: 'getValidatorRequests',
+    outputs: [{ internalType: 'bytes32[]', name: '', type: 'bytes32[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'validatorAddress', type: 'address' },
+      { indexed: true, internalType: 'uint256', name: 'agentId', type: 'uint256' },
+      { indexed: false, internalType: 'string', name: 'requestUri', type: 'string' },
+      { indexed: true, internalType: 'bytes32', name: 'requestHash', type: 'bytes32' },
+    ],
+    name: 'ValidationRequest',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'validatorAddress', type: 'address' },
+      { indexed: true, internalType: 'uint256', name: 'agentId', type: 'uint256' },
+      { indexed: true, internalType: 'bytes32', name: 'requestHash', type: 'bytes32' },
+      { indexed: false, internalType: 'uint8', name: 'response', type: 'uint8' },
+      { indexed: false, internalType: 'string', name: 'responseUri', type: 'string' },
+      { indexed: false, internalType: 'bytes32', name: 'responseHash', type: 'bytes32' },
+      { indexed: false, internalType: 'bytes32', name: 'tag', type: 'bytes32' },
+    ],
+    name: 'ValidationResponse',
+    type: 'event',
+  },
 ] as const;
 
 /**
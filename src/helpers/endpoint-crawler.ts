@@ -3,6 +3,8 @@
  * Automatically fetches capabilities (tools, prompts, resources, skills) from endpoints
  */
 
+import { McpClient } from './mcpClient.js';
+
 export interface McpCapabilities {
   mcpTools?: any[];
   mcpPrompts?: any[];
@@ -14,18 +16,7 @@ export interface McpCapabilities {
 
 export interface A2aCapabilities {
   a2aSkills?: any[];
-}
-
-/**
- * Helper to create JSON-RPC request
- */
-function createJsonRpcRequest(method: string, params?: Record<string, unknown>, requestId: number = 1) {
-  return {
-    jsonrpc: '2.0',
-    method,
-    id: requestId,
-    params: params || {},
-  };
+  a2aSkillsDetails?: any[]; // Skill objects from the agent card (id, tags, input and output modes)
 }
 
 /**
@@ -49,7 +40,7 @@ export class EndpointCrawler {
     }
 
     // Try JSON-RPC approach first (for real MCP servers)
-    const capabilities = await this._fetchViaJsonRpc(endpoint);
+    const capabilities = await this._fetchViaJsonRpc(endpoint) || await this._fetchViaRest(endpoint);
     if (capabilities) {
       return capabilities;
     }
@@ -84,102 +75,59 @@ export class EndpointCrawler {
   }
 
   /**
-   * Try to fetch capabilities via JSON-RPC
+   * Fetch capabilities with the MCP handshake (tools/list, resources/list, prompts/list)
    */
-  private async _fetchViaJsonRpc(httpUrl: string): Promise<any> {
+  private async _fetchViaJsonRpc(httpUrl: string): Promise<McpCapabilities | null> {
+    const client = new McpClient(httpUrl, { timeout: this.timeout });
     try {
-          const tools = await fetch(`${httpUrl}/tools`, {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-          }).then(res => res.json());
-
-          const resources = await fetch(`${httpUrl}/resources`, {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-          }).then(res => res.json()); 
-          const prompts = await fetch(`${httpUrl}/prompts`, {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-          }).then(res => res.json());
-            const result = {
-              mcpTools: tools,
-              mcpResources: resources,
-              mcpPrompts: prompts,
-            };
-            return result;
+      const { capabilities } = await client.connect();
+      const tools = capabilities.tools ? await client.listAllTools() : [];
+      const resources = capabilities.resources ? await client.listAllResources() : [];
+      const prompts = capabilities.prompts ? await client.listAllPrompts() : [];
+      return {
+        mcpTools: tools.map((tool) => tool.name),
+        mcpResources: resources.map((resource) => resource.name || resource.uri),
+        mcpPrompts: prompts.map((prompt) => prompt.name),
+        mcpToolsDetails: tools,
+        mcpResourcesDetails: resources,
+        mcpPromptsDetails: prompts,
+      };
     } catch (error) {
-      // JSON-RPC approach failed - continue to fallback
-    }
-
-    return null;
-  }
-
-  /**
-   * Make a JSON-RPC call and return the result
-   */
-  private async _jsonRpcCall(url: string, method: string, params?: Record<string, unknown>): Promise<unknown> {
-    try {
-      const payload = createJsonRpcRequest(method, params);
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          Accept: 'application/json, text/event-stream',
-        },
-        signal: AbortSignal.timeout(this.timeout),
-      });
-
-      if (!response.ok) {
-        return null;
-      }
-
-      // Check if response is SSE format
-      const contentType = response.headers.get('content-type') || '';
-      const text = await response.text();
-
-      if (contentType.includes('text/event-stream') || text.includes('event: message')) {
-        // Parse SSE format
-        const result = this._parseSseResponse(text);
-        if (result) {
-          return result;
-        }
-      }
-
-      // Regular JSON response
-      const result = JSON.parse(text);
-      return result;
-    } catch (error) {
-      // JSON-RPC call failed - continue to next method
+      // Not an MCP server (or unreachable) - continue to fallback
       return null;
+    } finally {
+      await client.close();
     }
   }
 
   /**
-   * Parse Server-Sent Events (SSE) format response
+   * Fetch capability lists from REST-style servers exposing GET /tools, /resources and /prompts
    */
-  private _parseSseResponse(sseText: string): any | null {
+  private async _fetchViaRest(httpUrl: string): Promise<McpCapabilities | null> {
     try {
-      // Look for "data:" lines containing JSON
-      const lines = sseText.split('\n');
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const jsonStr = line.slice(6); // Remove "data: " prefix
-          const data = JSON.parse(jsonStr);
-          if (data.result !== undefined) {
-            return data.result;
-          }
-          return data;
+      const fetchList = async (path: string) => {
+        const response = await fetch(`${httpUrl}/${path}`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          signal: AbortSignal.timeout(this.timeout),
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
         }
-      }
+        return response.json() as Promise<any[]>;
+      };
+
+      return {
+        mcpTools: await fetchList('tools'),
+        mcpResources: await fetchList('resources'),
+        mcpPrompts: await fetchList('prompts'),
+      };
     } catch (error) {
-      // Failed to parse SSE response - continue
+      // REST listing failed - continue to fallback
     }
+
     return null;
   }
 
@@ -196,6 +144,7 @@ export class EndpointCrawler {
 
       // Try multiple well-known paths for A2A agent cards
       const agentcardUrls = [
+        `${endpoint.replace(/\/$/, '')}/.well-known/agent-card.json`,
         `${endpoint}/agentcard.json`,
         `${endpoint}/.well-known/agent.json`,
         `${endpoint.replace(/\/$/, '')}/.well-known/agent.json`,
@@ -215,7 +164,11 @@ export class EndpointCrawler {
             const skills = this._extractList(data, 'skills');
 
             if (skills && skills.length > 0) {
-              return { a2aSkills: skills };
+              const { skills: cardSkills } = data as { skills?: unknown };
+              const details = Array.isArray(cardSkills)
+                ? cardSkills.filter((skill: unknown) => skill && typeof skill === 'object')
+                : [];
+              return details.length > 0 ? { a2aSkills: skills, a2aSkillsDetails: details } : { a2aSkills: skills };
             }
           }
         } catch {
@@ -0,0 +1,612 @@
+/**
+ * Live event subscriptions for the identity and reputation registries
+ */
+
+import { ethers } from 'ethers';
+import type { AgentId, Address, URI } from '../types/common.js';
+import type { AgentSummary, Feedback, FeedbackIdTuple, RegistrationFile } from '../types/interfaces.js';
+import type { FluidSDK } from '../index.js';
+import { formatAgentId, parseAgentId } from '../utils/id-format.js';
+import { hydrateFeedback, metadataToSummary, registrationFileToSummary } from './localIndexer.js';
+
+/**
+ * Agent minted on the identity registry
+ */
+export interface AgentRegisteredEvent {
+  agentId: AgentId;
+  owner: Address;
+  agentURI: URI;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * On-chain metadata entry written for an agent
+ */
+export interface MetadataSetEvent {
+  agentId: AgentId;
+  key: string;
+  value: string; // UTF-8 decoded value (hex when not valid UTF-8)
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Feedback submitted to the reputation registry
+ */
+export interface NewFeedbackEvent {
+  feedback: Feedback;
+  feedbackHash: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Feedback revoked by its client
+ */
+export interface FeedbackRevokedEvent {
+  feedbackId: FeedbackIdTuple;
+  agentId: AgentId;
+  clientAddress: Address;
+  feedbackIndex: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface RegistryEventMap {
+  agentRegistered: AgentRegisteredEvent;
+  metadataSet: MetadataSetEvent;
+  newFeedback: NewFeedbackEvent;
+  feedbackRevoked: FeedbackRevokedEvent;
+}
+
+export type RegistryEventName = keyof RegistryEventMap;
+
+export type RegistryEventCallback<K extends RegistryEventName> = (event: RegistryEventMap[K]) => void | Promise<void>;
+
+/**
+ * Restricts a subscription to one agent and/or one client
+ */
+export interface EventFilter {
+  agentId?: AgentId;
+  clientAddress?: Address; // newFeedback / feedbackRevoked only
+}
+
+/**
+ * Change to an agent's summary caused by a single event
+ */
+export interface AgentUpdate {
+  agentId: AgentId;
+  event: RegistryEventName;
+  delta: Partial<AgentSummary>;
+  feedback?: Feedback | undefined;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Handle returned by every subscription
+ */
+export interface EventSubscription {
+  unsubscribe(): void;
+}
+
+export interface EventSubscriberOptions {
+  transport?: 'polling' | 'websocket'; // default: 'polling'
+  wsUrl?: string; // Required for the websocket transport
+  pollInterval?: number; // ms between polls (default: 4000)
+  confirmations?: number; // blocks an event must be buried under before delivery (default: 2)
+  blockRange?: number; // max blocks per log query (default: 2000)
+  onError?: (error: Error) => void;
+}
+
+// Registry and ABI event name behind each subscription event
+const EVENT_SOURCES: Record<RegistryEventName, { registry: 'identity' | 'reputation'; eventName: string }> = {
+  agentRegistered: { registry: 'identity', eventName: 'Registered' },
+  metadataSet: { registry: 'identity', eventName: 'MetadataSet' },
+  newFeedback: { registry: 'reputation', eventName: 'NewFeedback' },
+  feedbackRevoked: { registry: 'reputation', eventName: 'FeedbackRevoked' },
+};
+
+interface Subscription {
+  event: RegistryEventName;
+  filter: EventFilter;
+  callback: (event: any) => void | Promise<void>;
+}
+
+/**
+ * Delivers decoded registry events to subscribers
+ * Events are only delivered once `confirmations` blocks deep, so short reorgs never reach callbacks.
+ * A single loop serves all subscriptions and runs only while at least one is active.
+ */
+export class EventSubscriber {
+  private readonly transport: 'polling' | 'websocket';
+  private readonly wsUrl?: string | undefined;
+  private readonly pollInterval: number;
+  private readonly confirmations: number;
+  private readonly blockRange: number;
+  private readonly onError?: ((error: Error) => void) | undefined;
+  private readonly subscriptions = new Set<Subscription>();
+  private readonly feedbackCounts = new Map<string, number>();
+  private _wsProvider: ethers.WebSocketProvider | undefined;
+  private _timer: ReturnType<typeof setTimeout> | undefined;
+  private _lastBlock: number | undefined;
+  private _cursorReady: Promise<void> | undefined;
+  private _running = false;
+  private _polling = false;
+
+  constructor(
+    private sdk: FluidSDK,
+    options: EventSubscriberOptions = {},
+    private loadRegistrationFile?: (agentURI: string) => Promise<RegistrationFile>
+  ) {
+    this.transport = options.transport ?? 'polling';
+    this.wsUrl = options.wsUrl;
+    this.pollInterval = options.pollInterval ?? 4000;
+    this.confirmations = options.confirmations ?? 2;
+    this.blockRange = options.blockRange ?? 2000;
+    this.onError = options.onError;
+
+    if (this.transport === 'websocket') {
+      if (!this.wsUrl) {
+        throw new Error("wsUrl is required for the websocket transport");
+      }
+      if (sdk.web3Client.backend) {
+        throw new Error('The websocket transport requires an RPC node; use polling with a custom backend');
+      }
+    }
+  }
+
+  /**
+   * Number of active subscriptions
+   */
+  get subscriptionCount(): number {
+    return this.subscriptions.size;
+  }
+
+  /**
+   * Subscribe to a registry event
+   */
+  subscribe<K extends RegistryEventName>(
+    event: K,
+    filter: EventFilter,
+    callback: RegistryEventCallback<K>
+  ): EventSubscription {
+    if (!(event in EVENT_SOURCES)) {
+      throw new Error(`Unknown event: ${event}`);
+    }
+
+    const subscription: Subscription = { event, filter, callback };
+    this.subscriptions.add(subscription);
+    this._start();
+
+    return {
+      unsubscribe: () => {
+        this.subscriptions.delete(subscription);
+        if (this.subscriptions.size === 0) {
+          this.close();
+        } else if (!this._activeEvents().includes('newFeedback')) {
+          // Counts go stale while NewFeedback logs are not being read
+          this.feedbackCounts.clear();
+        }
+      },
+    };
+  }
+
+  /**
+   * Subscribe to every event of one agent, delivered as AgentSummary deltas
+   */
+  watchAgent(agentId: AgentId, callback: (update: AgentUpdate) => void | Promise<void>): EventSubscription {
+    const subscriptions = [
+      this.subscribe('agentRegistered', { agentId }, async (event) => {
+        await callback(await this._registeredUpdate(event));
+      }),
+      this.subscribe('metadataSet', { agentId }, async (event) => {
+        await callback({
+          agentId: event.agentId,
+          event: 'metadataSet',
+          delta: metadataToSummary(event.key, event.value),
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+        });
+      }),
+      this.subscribe('newFeedback', { agentId }, async (event) => {
+        await callback({
+          agentId: event.feedback.agentId,
+          event: 'newFeedback',
+          delta: {},
+          feedback: event.feedback,
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+        });
+      }),
+      this.subscribe('feedbackRevoked', { agentId }, async (event) => {
+        await callback({
+          agentId: event.agentId,
+          event: 'feedbackRevoked',
+          delta: {},
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+        });
+      }),
+    ];
+
+    return {
+      unsubscribe: () => subscriptions.forEach((subscription) => subscription.unsubscribe()),
+    };
+  }
+
+  /**
+   * Process all confirmed blocks since the last poll once
+   * @returns Number of events delivered
+   */
+  async poll(): Promise<number> {
+    if (this._polling) {
+      return 0;
+    }
+    this._polling = true;
+
+    try {
+      await this._cursorReady;
+      const head = (await this._getBlockNumber()) - this.confirmations;
+      if (this._lastBlock === undefined) {
+        // First poll only delivers events from here on
+        this._lastBlock = head;
+        return 0;
+      }
+
+      let delivered = 0;
+      while (this._lastBlock < head && this.subscriptions.size > 0) {
+        const fromBlock = this._lastBlock + 1;
+        const toBlock = Math.min(fromBlock + this.blockRange - 1, head);
+
+        const logs: ethers.Log[] = [];
+        for (const event of this._activeEvents()) {
+          logs.push(...await this._getLogs(event, fromBlock, toBlock));
+        }
+        logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+        for (const log of logs) {
+          delivered += await this._dispatch(log);
+        }
+
+        this._lastBlock = toBlock;
+      }
+      return delivered;
+    } finally {
+      this._polling = false;
+    }
+  }
+
+  /**
+   * Stop the loop and drop all subscriptions
+   */
+  close(): void {
+    this.subscriptions.clear();
+    this.feedbackCounts.clear();
+    this._running = false;
+    this._lastBlock = undefined;
+    this._cursorReady = undefined;
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+    if (this._wsProvider) {
+      const provider = this._wsProvider;
+      this._wsProvider = undefined;
+      provider.destroy();
+    }
+  }
+
+  private _start(): void {
+    if (this._running) {
+      return;
+    }
+    this._running = true;
+
+    if (this.transport === 'websocket') {
+      // New heads drive the polls; logs are still read in confirmed ranges
+      this._wsProvider = new ethers.WebSocketProvider(this.wsUrl as string);
+      this._wsProvider.on('block', () => {
+        this._runPoll();
+      });
+    }
+
+    // Pin the starting block now so events sent right after subscribing are not missed
+    this._cursorReady = this._getBlockNumber()
+      .then((blockNumber) => {
+        this._lastBlock ??= blockNumber - this.confirmations;
+      })
+      .catch((error) => this._reportError(error));
+
+    if (this.transport === 'websocket') {
+      this._runPoll();
+    } else {
+      this._schedule(0);
+    }
+  }
+
+  private _schedule(delay: number): void {
+    this._timer = setTimeout(async () => {
+      if (!this._running) {
+        return;
+      }
+      await this._runPoll();
+      if (this._running && this.transport === 'polling') {
+        this._schedule(this.pollInterval);
+      }
+    }, delay);
+  }
+
+  private async _runPoll(): Promise<void> {
+    try {
+      await this.poll();
+    } catch (error) {
+      this._reportError(error);
+    }
+  }
+
+  private _activeEvents(): RegistryEventName[] {
+    return [...new Set([...this.subscriptions].map((subscription) => subscription.event))];
+  }
+
+  private _getContract(event: RegistryEventName): ethers.Contract {
+    const contract = EVENT_SOURCES[event].registry === 'identity'
+      ? this.sdk.getIdentityRegistry()
+      : this.sdk.getReputationRegistry();
+    return this._wsProvider ? contract.connect(this._wsProvider) as ethers.Contract : contract;
+  }
+
+  private async _getBlockNumber(): Promise<number> {
+    if (this._wsProvider) {
+      return await this._wsProvider.getBlockNumber();
+    }
+    return await this.sdk.web3Client.getBlockNumber();
+  }
+
+  private async _getLogs(
+    event: RegistryEventName,
+    fromBlock: number,
+    toBlock: number,
+    filterArgs: any[] = []
+  ): Promise<ethers.Log[]> {
+    const contract = this._getContract(event);
+    const eventName = EVENT_SOURCES[event].eventName;
+    if (this._wsProvider) {
+      const filterFactory = contract.filters[eventName];
+      if (!filterFactory) {
+        throw new Error(`Event ${eventName} not found on contract`);
+      }
+      return await contract.queryFilter(filterFactory(...filterArgs), fromBlock, toBlock);
+    }
+    return await this.sdk.web3Client.getEvents(contract, eventName, fromBlock, toBlock, filterArgs);
+  }
+
+  /**
+   * Decode a log and hand it to every matching subscription
+   * @returns Number of callbacks invoked
+   */
+  private async _dispatch(log: ethers.Log): Promise<number> {
+    const targets = [...this.subscriptions].filter(
+      (subscription) => EVENT_SOURCES[subscription.event].registry === this._registryOf(log)
+    );
+    if (targets.length === 0) {
+      return 0;
+    }
+
+    let decoded: { event: RegistryEventName; payload: any } | null;
+    try {
+      decoded = await this._decode(log);
+    } catch (error) {
+      this._reportError(error);
+      return 0;
+    }
+    if (!decoded) {
+      return 0;
+    }
+
+    let delivered = 0;
+    for (const subscription of targets) {
+      if (subscription.event !== decoded.event || !this._matches(subscription.filter, decoded.payload)) {
+        continue;
+      }
+      try {
+        await subscription.callback(decoded.payload);
+        delivered++;
+      } catch (error) {
+        this._reportError(error);
+      }
+    }
+    return delivered;
+  }
+
+  private _registryOf(log: ethers.Log): 'identity' | 'reputation' | undefined {
+    const address = log.address.toLowerCase();
+    const registries = this.sdk.registries();
+    if (registries.IDENTITY?.toLowerCase() === address) return 'identity';
+    if (registries.REPUTATION?.toLowerCase() === address) return 'reputation';
+    return undefined;
+  }
+
+  private _matches(filter: EventFilter, payload: any): boolean {
+    const agentId: AgentId = payload.agentId ?? payload.feedback?.agentId;
+    if (filter.agentId && parseAgentId(filter.agentId).tokenId !== parseAgentId(agentId).tokenId) {
+      return false;
+    }
+    if (filter.clientAddress) {
+      const clientAddress: Address | undefined = payload.clientAddress ?? payload.feedback?.reviewer;
+      if (!clientAddress || clientAddress.toLowerCase() !== filter.clientAddress.toLowerCase()) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private async _decode(log: ethers.Log): Promise<{ event: RegistryEventName; payload: any } | null> {
+    const registry = this._registryOf(log);
+    if (!registry) {
+      return null;
+    }
+    const contract = registry === 'identity' ? this.sdk.getIdentityRegistry() : this.sdk.getReputationRegistry();
+    const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) {
+      return null;
+    }
+
+    const chainId = await this.sdk.chainId();
+    const agentId = formatAgentId(chainId, Number(parsed.args.agentId));
+    const base = { blockNumber: log.blockNumber, transactionHash: log.transactionHash };
+
+    switch (parsed.name) {
+      case 'Registered': {
+        const payload: AgentRegisteredEvent = {
+          agentId,
+          owner: parsed.args.owner,
+          agentURI: parsed.args.tokenURI,
+          ...base,
+        };
+        return { event: 'agentRegistered', payload };
+      }
+      case 'MetadataSet': {
+        const payload: MetadataSetEvent = {
+          agentId,
+          key: parsed.args.key,
+          value: this._decodeMetadataValue(parsed.args.value),
+          ...base,
+        };
+        return { event: 'metadataSet', payload };
+      }
+      case 'NewFeedback': {
+        const clientAddress: Address = parsed.args.clientAddress;
+        const feedbackIndex = await this._feedbackIndex(parsed.args.agentId, clientAddress, log);
+        const feedbackUri: string = parsed.args.feedbackUri;
+        const feedback: Feedback = {
+          id: [agentId, clientAddress.toLowerCase(), feedbackIndex],
+          agentId,
+          reviewer: clientAddress,
+          score: Number(parsed.args.score),
+          tags: this._bytes32ToTags(parsed.args.tag1, parsed.args.tag2),
+          fileURI: feedbackUri || undefined,
+          feedbackHash: parsed.args.feedbackHash,
+          createdAt: Math.floor(Date.now() / 1000), // Approximate, block timestamps are not fetched
+          answers: [],
+          isRevoked: false,
+        };
+        await hydrateFeedback(this.sdk, feedback);
+        const payload: NewFeedbackEvent = { feedback, feedbackHash: parsed.args.feedbackHash, ...base };
+        return { event: 'newFeedback', payload };
+      }
+      case 'FeedbackRevoked': {
+        const clientAddress: Address = parsed.args.clientAddress;
+        const feedbackIndex = Number(parsed.args.feedbackIndex);
+        const payload: FeedbackRevokedEvent = {
+          feedbackId: [agentId, clientAddress.toLowerCase(), feedbackIndex],
+          agentId,
+          clientAddress,
+          feedbackIndex,
+          ...base,
+        };
+        return { event: 'feedbackRevoked', payload };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * NewFeedback does not carry its index - read the client's last index from the registry once and subtract the
+   * feedback the client gave after this log (only the blocks since it), then keep counting as further events arrive
+   */
+  private async _feedbackIndex(tokenId: bigint, clientAddress: Address, log: ethers.Log): Promise<number> {
+    const key = `${tokenId}:${clientAddress.toLowerCase()}`;
+    const known = this.feedbackCounts.get(key);
+    if (known !== undefined) {
+      this.feedbackCounts.set(key, known + 1);
+      return known + 1;
+    }
+
+    // Read the index and the head in the same block so the logs counted below match it
+    const registry = this._getContract('newFeedback');
+    let head: number;
+    let lastIndex: number;
+    let attempts = 0;
+    do {
+      head = await this._getBlockNumber();
+      lastIndex = Number(await this.sdk.web3Client.callContract(registry, 'getLastIndex', tokenId, clientAddress));
+    } while (head !== await this._getBlockNumber() && ++attempts < 3);
+
+    let later = 0;
+    for (let fromBlock = log.blockNumber; fromBlock <= head; fromBlock += this.blockRange) {
+      const toBlock = Math.min(fromBlock + this.blockRange - 1, head);
+      const logs = await this._getLogs('newFeedback', fromBlock, toBlock, [tokenId, clientAddress]);
+      later += logs.filter((entry) => entry.blockNumber > log.blockNumber || entry.index > log.index).length;
+    }
+
+    const index = lastIndex - later;
+    this.feedbackCounts.set(key, index);
+    return index;
+  }
+
+  private async _registeredUpdate(event: AgentRegisteredEvent): Promise<AgentUpdate> {
+    const { chainId } = parseAgentId(event.agentId);
+    let delta: Partial<AgentSummary> = {
+      chainId,
+      agentId: event.agentId,
+      owners: [event.owner],
+    };
+
+    if (event.agentURI && this.loadRegistrationFile) {
+      try {
+        delta = { ...delta, ...registrationFileToSummary(await this.loadRegistrationFile(event.agentURI)) };
+      } catch (error) {
+        this._reportError(error);
+      }
+    }
+
+    return {
+      agentId: event.agentId,
+      event: 'agentRegistered',
+      delta,
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+    };
+  }
+
+  private _decodeMetadataValue(value: string): string {
+    try {
+      return ethers.toUtf8String(value);
+    } catch {
+      return value;
+    }
+  }
+
+  /**
+   * Convert bytes32 tags back to strings
+   */
+  private _bytes32ToTags(tag1Bytes: string, tag2Bytes: string): string[] {
+    const tags: string[] = [];
+    for (const tagBytes of [tag1Bytes, tag2Bytes]) {
+      if (!tagBytes || tagBytes === ethers.ZeroHash) {
+        continue;
+      }
+      try {
+        const tag = ethers.toUtf8String(tagBytes).replace(/\0/g, '').trim();
+        if (tag) {
+          tags.push(tag);
+        }
+      } catch {
+        // If UTF-8 decode fails, skip this tag
+      }
+    }
+    return tags;
+  }
+
+  private _reportError(error: unknown): void {
+    const err = error instanceof Error ? error : new Error(String(error));
+    if (this.onError) {
+      this.onError(err);
+    } else {
+      console.error(`[EventSubscriber] ${err.message}`);
+    }
+  }
+}
@@ -1,10 +1,21 @@
-import axios from "axios";
+import axios, { type AxiosError, type AxiosRequestConfig } from "axios";
 import { ethers } from 'ethers';
 import {
   type Signer,
   withPaymentInterceptor,
 } from "x402-axios";
+import { selectPaymentRequirements } from "x402/client";
 import { DEFAULT_REGISTRIES } from "./contracts.js";
+import type { StorageProvider } from "./storageProvider.js";
+import { PinataStorage } from "./pinataStorage.js";
+import { EMPTY_FEEDBACK_HASH, FEEDBACK_HASH_VERSION, computeFeedbackHash } from "../utils/feedback-hash.js";
+import { BudgetExceeded, PaymentPolicy, type PaymentAmount, type PaymentAuthorization, type PaymentRequirements } from "./paymentPolicy.js";
+import { decodePaymentReceipt, receiptToProofOfPayment, type PaymentReceipt } from "./paymentReceipt.js";
+import type { HttpMethod, Tool } from "./function-tools.js";
+import { InvalidToolArguments, assertToolArguments } from "./toolValidator.js";
+import { McpClient, McpError } from "./mcpClient.js";
+import { createPaidFetch } from "./paidFetch.js";
+import { quoteFromPaymentRequired, quoteFromToolPricing, type PaymentQuote } from "./paymentQuote.js";
 
 
 export interface FeedbackParams {
@@ -17,7 +28,7 @@ export interface FeedbackParams {
   skill?: string;
   task?: string;
   context?: Record<string, unknown>;
-  proofOfPayment?: Record<string, unknown>;
+  proofOfPayment?: Record<string, unknown>; // executeTaskWithFeedback fills this from the payment receipt
   extra?: Record<string, unknown>;
 }
 
@@ -26,44 +37,206 @@ export interface ContractConfig {
   rpcUrl: string;
   pinataJwt?: string;
   pinataGateway?: string;
+  storage?: StorageProvider; // Used for the feedback file instead of Pinata
+}
+
+/**
+ * HTTP options for a task call; unset options fall back to the tool definition
+ */
+export interface TaskRequestOptions {
+  tool?: Tool | undefined; // Published tool definition (endpoint, method, parameter locations, headers, timeout)
+  protocol?: 'rest' | 'mcp' | undefined; // Default: tool.protocol, else rest; with mcp the endpoint is the tool name
+  method?: HttpMethod | undefined; // Default: tool.method, else GET
+  body?: unknown; // JSON body; merged over body parameters when both are objects
+  headers?: Record<string, string> | undefined;
+  timeout?: number | undefined; // ms (default: tool.timeout, else none)
+  validate?: boolean | undefined; // Check parameters against the tool definition before paying (default: true with a tool)
+  maxPayment?: PaymentAmount | undefined; // Ceiling for this call's payment, applied even without a payment policy
+}
+
+export interface TaskResult {
+  success: boolean;
+  data?: any;
+  error?: any;
+  status?: number | undefined; // HTTP status of the final response
+  contentType?: string | undefined;
+  receipt?: PaymentReceipt | undefined; // Set when the call was paid and the server reported settlement
+  paid?: PaymentRequirements | undefined; // Payment option signed for the call, even when settlement is unknown
+}
+
+const PATH_PARAMETER = /\{([^}]+)\}|:([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * Request config as marked by the x402-axios payment interceptor
+ */
+interface X402RequestConfig extends AxiosRequestConfig {
+  __is402Retry?: boolean; // Set on the retry that carries the X-PAYMENT header
+}
+
+/**
+ * Whether a failed request was the paid retry, i.e. a signed payment reached the server
+ */
+function isPaidRetry(error: unknown): boolean {
+  const config: X402RequestConfig | undefined = axios.isAxiosError(error) ? error.config : undefined;
+  return config?.__is402Retry === true;
+}
+
+/**
+ * Place parameters in the path, query, headers or body and fill in defaults from the tool definition
+ */
+function buildTaskRequest(
+  endpoint: string,
+  parameters: Record<string, any>,
+  options: TaskRequestOptions
+): AxiosRequestConfig {
+  const { tool } = options;
+  const method = options.method || tool?.method || 'GET';
+  const locations = new Map((tool?.parameters || []).map((parameter) => [parameter.name, parameter.in]));
+  const pathNames = new Set([...endpoint.matchAll(PATH_PARAMETER)].map((match) => match[1] ?? match[2]));
+  const hasBody = method !== 'GET' && method !== 'DELETE';
+
+  const query: Record<string, any> = {};
+  const headers: Record<string, string> = { ...tool?.headers };
+  const bodyParameters: Record<string, any> = {};
+  for (const [name, value] of Object.entries(parameters)) {
+    const location = locations.get(name) || (pathNames.has(name) ? 'path' : hasBody ? 'body' : 'query');
+    if (location === 'query') {
+      query[name] = value;
+    } else if (location === 'header') {
+      headers[name] = String(value);
+    } else if (location === 'body') {
+      bodyParameters[name] = value;
+    }
+  }
+
+  const url = endpoint.replace(PATH_PARAMETER, (match, braced?: string, colon?: string) => {
+    const name = (braced ?? colon)!;
+    if (parameters[name] === undefined) {
+      throw new Error(`Missing path parameter "${name}" for ${endpoint}`);
+    }
+    return encodeURIComponent(String(parameters[name]));
+  });
+
+  let data: unknown;
+  const { body } = options;
+  if (body !== undefined) {
+    const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+    data = isObject(body) ? { ...bodyParameters, ...(body as Record<string, unknown>) } : body;
+  } else if (Object.keys(bodyParameters).length > 0) {
+    data = bodyParameters;
+  }
+
+  const request: AxiosRequestConfig = { method, url, params: query, headers: { ...headers, ...options.headers } };
+  if (data !== undefined) {
+    request.data = data;
+  }
+  const timeout = options.timeout ?? tool?.timeout;
+  if (timeout !== undefined) {
+    request.timeout = timeout;
+  }
+  return request;
 }
 
 export class ExecuteTask {
+  /**
+   * @param paymentPolicy - Spending limits checked before any x402 payment is signed
+   */
+  constructor(readonly paymentPolicy?: PaymentPolicy) {}
+
+  /**
+   * Policy a call's payment is checked against: the configured one, or an empty one when only the call sets a ceiling
+   */
+  paymentPolicyFor(maxPayment?: PaymentAmount): PaymentPolicy | undefined {
+    return this.paymentPolicy ?? (maxPayment !== undefined ? new PaymentPolicy() : undefined);
+  }
+
   private executeTask = async ({
     endpoint,
     mcpServerUrl,
     parameters,
     signer,
+    agentId,
+    ...options
   }: {
     endpoint: string;
     mcpServerUrl: string;
     parameters: Record<string, any>;
     signer: Signer;
-  }) => {
+    agentId?: string | undefined;
+  } & TaskRequestOptions): Promise<TaskResult> => {
+    let authorization: PaymentAuthorization | undefined;
+    let paid: PaymentRequirements | undefined;
     try {
+      if (options.tool && options.validate !== false) {
+        assertToolArguments(options.tool, parameters);
+      }
+      if ((options.protocol ?? options.tool?.protocol) === 'mcp') {
+        return await this.callMcpTool({ toolName: options.tool?.name ?? endpoint, mcpServerUrl, parameters, signer, agentId, ...options });
+      }
+      const request = buildTaskRequest(endpoint, parameters, options);
+      const client = axios.create({
+        baseURL: mcpServerUrl,
+      });
+
+      const policy = this.paymentPolicyFor(options.maxPayment);
+      if (policy) {
+        // Registered before the payment interceptor, so it sees the 402 first and narrows
+        // the accepted payment options before anything is signed
+        client.interceptors.response.use(undefined, async (error: AxiosError<any>) => {
+          const accepts = error.response?.status === 402 ? error.response.data?.accepts : undefined;
+          if (Array.isArray(accepts) && !isPaidRetry(error)) {
+            authorization?.release();
+            authorization = await policy.authorize({ signer, tool: endpoint, agentId, maxAmount: options.maxPayment }, accepts);
+            error.response!.data = { ...error.response!.data, accepts: authorization.requirements };
+          }
+          return Promise.reject(error);
+        });
+      }
+
       // Wrap axios with payment interceptor
       const api = withPaymentInterceptor(
-        axios.create({
-          baseURL: mcpServerUrl,
-        }),
-        signer
+        client,
+        signer,
+        (requirements, network, scheme) => (paid = selectPaymentRequirements(requirements, network, scheme))
       );
 
       // ❗ WAIT for the paid request to finish
-      const response = await api.get(endpoint, { params: parameters });
+      const response = await api.request(request);
+
+      if (authorization && paid) {
+        await authorization.commit(paid);
+      }
 
-      // x402 payment header (optional)
+      // x402 settlement header (only present on paid calls)
       const rawHeader = response.headers["x-payment-response"];
+      const receipt = typeof rawHeader === "string" && paid ? decodePaymentReceipt(rawHeader, paid) : undefined;
+      const contentType = response.headers["content-type"];
       return {
         success: true,
         data: response.data,
+        status: response.status,
+        contentType: typeof contentType === "string" ? contentType : undefined,
+        receipt,
+        paid,
       };
     } catch (error: any) {
+      if (authorization && paid && isPaidRetry(error) && error?.response?.status !== 402) {
+        // The signed payment reached the server and was not rejected, so it may have settled - count it as spent
+        await authorization.commit(paid);
+      } else {
+        authorization?.release();
+      }
+      if (error instanceof BudgetExceeded || error instanceof InvalidToolArguments) {
+        throw error;
+      }
       console.error("X402 Request Failed:", error?.response?.data || error);
 
       return {
         success: false,
         error: error?.response?.data || error?.message,
+        status: error?.response?.status,
+        contentType: error?.response?.headers?.["content-type"] || undefined,
+        paid,
       };
     }
   };
@@ -71,46 +244,134 @@ export class ExecuteTask {
   public executeAgentTask = async ({
     agentEndpoint,
     mcpServerUrl,
-    parameters,
+    parameters = {},
     signer,
+    agentId,
+    ...options
   }: {
-    agentEndpoint: string;
-    mcpServerUrl: string;
-    parameters: Record<string, any>;
+    agentEndpoint?: string; // Default: tool.endpoint
+    mcpServerUrl?: string; // Default: tool.mcpServerUrl
+    parameters?: Record<string, any>;
     signer: Signer;
-  }) => {
+    agentId?: string; // Used by per-agent payment limits and allow/deny lists
+  } & TaskRequestOptions) => {
     return await this.executeTask({
-      endpoint: agentEndpoint,
-      mcpServerUrl,
+      ...this.resolveTarget(agentEndpoint, mcpServerUrl, options.tool),
       parameters,
       signer,
+      agentId,
+      ...options,
     });
   };
 
+  /**
+   * Ask what a call costs without paying: the unpaid request is sent and its 402 payment requirements returned
+   * Nothing is signed; an endpoint that does not charge runs the call and is reported as free
+   * Falls back to the tool's declared pricing when the server cannot be reached (network error or 5xx)
+   * @throws InvalidToolArguments if parameters do not match the tool definition
+   */
+  public quoteAgentTask = async ({
+    agentEndpoint,
+    mcpServerUrl,
+    parameters = {},
+    ...options
+  }: {
+    agentEndpoint?: string; // Default: tool.endpoint
+    mcpServerUrl?: string; // Default: tool.mcpServerUrl
+    parameters?: Record<string, any>;
+  } & TaskRequestOptions): Promise<PaymentQuote> => {
+    const { endpoint, mcpServerUrl: serverUrl } = this.resolveTarget(agentEndpoint, mcpServerUrl, options.tool);
+    if (options.tool && options.validate !== false) {
+      assertToolArguments(options.tool, parameters);
+    }
+
+    const isMcp = (options.protocol ?? options.tool?.protocol) === 'mcp';
+    const request = isMcp ? undefined : buildTaskRequest(endpoint, parameters, options);
+    let status: number;
+    let paymentRequired: unknown;
+    try {
+      if (request) {
+        const response = await axios.create({ baseURL: serverUrl }).request({ ...request, validateStatus: () => true });
+        status = response.status;
+        paymentRequired = response.data;
+      } else {
+        // Keep the first 402 body; the MCP client itself only reports the status
+        const client = new McpClient(serverUrl, {
+          fetch: async (input, init) => {
+            const response = await fetch(input, init);
+            if (response.status === 402 && paymentRequired === undefined) {
+              paymentRequired = await response.clone().json().catch(() => null);
+            }
+            return response;
+          },
+          ...(options.headers ? { headers: options.headers } : {}),
+          ...(options.timeout !== undefined ? { timeout: options.timeout } : {}),
+        });
+        try {
+          await client.callTool(options.tool?.name ?? endpoint, parameters);
+          status = 200;
+        } catch (error: any) {
+          if (paymentRequired === undefined && !(typeof error?.status === 'number' && error.status >= 500)) {
+            throw error;
+          }
+          status = paymentRequired !== undefined ? 402 : error.status;
+        } finally {
+          await client.close();
+        }
+      }
+    } catch (error: any) {
+      if (error instanceof McpError || typeof error?.status === 'number') {
+        throw error;
+      }
+      // No response at all - the server is unreachable
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (options.tool?.pricing) {
+        return quoteFromToolPricing(options.tool, errorMessage);
+      }
+      throw new Error(`Cannot quote ${endpoint}: ${errorMessage}`);
+    }
+
+    if (status === 402) {
+      return quoteFromPaymentRequired(paymentRequired);
+    }
+    if (status >= 500) {
+      if (options.tool?.pricing) {
+        return quoteFromToolPricing(options.tool, `HTTP ${status}`);
+      }
+      throw new Error(`Cannot quote ${endpoint}: HTTP ${status}`);
+    }
+    if (status >= 400) {
+      throw new Error(`Quote request for ${endpoint} failed: HTTP ${status}`);
+    }
+    return { source: 'server', free: true, options: [] };
+  };
+
   /**
    * Execute task and submit feedback in one operation
    */
   public executeTaskWithFeedback = async ({
     agentEndpoint,
     mcpServerUrl,
-    parameters,
+    parameters = {},
     signer,
     feedbackParams,
     contractConfig,
+    ...options
   }: {
-    agentEndpoint: string;
-    mcpServerUrl: string;
-    parameters: Record<string, any>;
+    agentEndpoint?: string; // Default: tool.endpoint
+    mcpServerUrl?: string; // Default: tool.mcpServerUrl
+    parameters?: Record<string, any>;
     signer: Signer;
     feedbackParams: FeedbackParams;
     contractConfig: ContractConfig;
-  }) => {
+  } & TaskRequestOptions) => {
     // Execute the task first
     const taskResult = await this.executeTask({
-      endpoint: agentEndpoint,
-      mcpServerUrl,
+      ...this.resolveTarget(agentEndpoint, mcpServerUrl, options.tool),
       parameters,
       signer,
+      agentId: feedbackParams.agentId,
+      ...options,
     });
 
     // If task execution failed, don't submit feedback
@@ -122,6 +383,11 @@ export class ExecuteTask {
       };
     }
 
+    // Tie the review to the paid call unless the caller supplied its own proof
+    if (taskResult.receipt && !feedbackParams.proofOfPayment) {
+      feedbackParams = { ...feedbackParams, proofOfPayment: receiptToProofOfPayment(taskResult.receipt) };
+    }
+
     // Submit feedback
     try {
       const feedbackResult = await this.giveFeedback({
@@ -258,14 +524,17 @@ export class ExecuteTask {
 
     // Handle IPFS storage
     let feedbackUri = '';
-    let feedbackHash = '0x' + '00'.repeat(32);
+    let feedbackHash = EMPTY_FEEDBACK_HASH;
 
-    if (contractConfig.pinataJwt) {
+    const storage = contractConfig.storage || (contractConfig.pinataJwt
+      ? new PinataStorage({ pinataJwt: contractConfig.pinataJwt, pinataGateway: contractConfig.pinataGateway })
+      : undefined);
+    if (storage) {
       try {
-        const cid = await this.uploadToIPFS(feedbackFile, contractConfig.pinataJwt, contractConfig.pinataGateway);
+        const cid = await storage.addJson(feedbackFile);
         feedbackUri = `ipfs://${cid}`;
-        const sortedJson = JSON.stringify(feedbackFile, Object.keys(feedbackFile).sort());
-        feedbackHash = ethers.keccak256(ethers.toUtf8Bytes(sortedJson));
+        // Canonical over nested fields too, so the hash also covers context and the auto-filled proofOfPayment
+        feedbackHash = computeFeedbackHash(feedbackFile, FEEDBACK_HASH_VERSION);
       } catch (error) {
         console.warn('Failed to upload to IPFS:', error);
       }
@@ -302,9 +571,84 @@ export class ExecuteTask {
       feedbackIndex,
       feedbackFile,
       feedbackUri,
+      feedbackHash,
     };
   };
 
+  /**
+   * Call a tool on an MCP server (tools/call), paying x402 charges on the way
+   */
+  private callMcpTool = async ({
+    toolName,
+    mcpServerUrl,
+    parameters,
+    signer,
+    agentId,
+    headers,
+    timeout,
+    maxPayment,
+  }: {
+    toolName: string;
+    mcpServerUrl: string;
+    parameters: Record<string, any>;
+    signer: Signer;
+    agentId?: string | undefined;
+  } & TaskRequestOptions): Promise<TaskResult> => {
+    let receipt: PaymentReceipt | undefined;
+    let paid: PaymentRequirements | undefined;
+    const paidFetch = createPaidFetch({
+      signer,
+      policy: this.paymentPolicyFor(maxPayment),
+      context: { tool: toolName, agentId, maxAmount: maxPayment },
+      onSign: (option) => {
+        paid = option;
+      },
+      onPayment: (_paid, paymentReceipt) => {
+        receipt = paymentReceipt;
+      },
+    });
+
+    const client = new McpClient(mcpServerUrl, {
+      fetch: paidFetch,
+      ...(headers ? { headers } : {}),
+      ...(timeout !== undefined ? { timeout } : {}),
+    });
+    try {
+      const result = await client.callTool(toolName, parameters);
+      if (result.isError) {
+        const message = result.content
+          .map((content) => typeof content.text === "string" ? content.text : "")
+          .filter(Boolean)
+          .join("\n");
+        return { success: false, error: message || result, data: result, receipt, paid };
+      }
+      return { success: true, data: result, receipt, paid };
+    } catch (error: any) {
+      if (error instanceof BudgetExceeded) {
+        throw error;
+      }
+      if (error instanceof McpError) {
+        return { success: false, error: { code: error.code, message: error.message, data: error.data }, receipt, paid };
+      }
+      // Transport failures carry the HTTP status when there was a response
+      return { success: false, error: error?.message ?? String(error), status: error?.status, receipt, paid };
+    } finally {
+      await client.close();
+    }
+  };
+
+  /**
+   * Endpoint and server URL, falling back to the tool definition
+   */
+  private resolveTarget = (agentEndpoint?: string, mcpServerUrl?: string, tool?: Tool) => {
+    const endpoint = agentEndpoint ?? tool?.endpoint;
+    const serverUrl = mcpServerUrl ?? tool?.mcpServerUrl;
+    if (endpoint === undefined || serverUrl === undefined) {
+      throw new Error('agentEndpoint and mcpServerUrl are required when the tool does not define them');
+    }
+    return { endpoint, mcpServerUrl: serverUrl };
+  };
+
   /**
    * Sign feedback authorization
    */
@@ -422,19 +766,5 @@ export class ExecuteTask {
     return ethers.hexlify(padded);
   };
 
-  /**
-   * Upload feedback to IPFS using Pinata
-   */
-  private uploadToIPFS = async (
-    data: Record<string, unknown>,
-    pinataJwt: string,
-    pinataGateway?: string
-  ): Promise<string> => {
-    const { uploadJson } = await import('pinata');
-    const config = { pinataJwt };
-    const result = await uploadJson(config, data, "public");
-    return result.cid;
-  };
-
   
 }
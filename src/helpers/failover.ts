@@ -0,0 +1,185 @@
+/**
+ * Retries a task on the next provider when one fails, without paying twice for a call
+ */
+
+import type { AgentId } from '../types/common.js';
+import type { TaskResult } from './execution.js';
+import type { Tool } from './function-tools.js';
+import { validateJsonSchema } from './toolValidator.js';
+
+export interface RetryOptions {
+  retries?: number; // Extra attempts on the same agent after a network error or 5xx (default: 1)
+  backoffMs?: number; // Delay before the first retry (default: 500)
+  backoffFactor?: number; // Multiplier per retry (default: 2)
+  maxBackoffMs?: number; // default: 10000
+  validateResponse?: boolean; // Check responses against the tool's outputSchema (default: true)
+}
+
+/**
+ * Why an attempt failed
+ * network, server and invalidResponse fail over; client ends failover (the request itself is at fault)
+ */
+export type FailureKind = 'network' | 'server' | 'invalidResponse' | 'client';
+
+export interface FailoverAttempt {
+  agentId: AgentId;
+  attempt: number; // 1-based, per agent
+  kind: FailureKind;
+  error: string;
+  status?: number | undefined;
+}
+
+/**
+ * A provider that can be called
+ */
+export interface FailoverTarget {
+  agentId: AgentId;
+  tool?: Tool | undefined;
+  protocol?: 'mcp' | 'rest' | 'a2a';
+}
+
+/**
+ * Thrown when every candidate failed
+ */
+export class FailoverExhausted extends Error {
+  readonly name = 'FailoverExhausted';
+
+  constructor(message: string, readonly attempts: FailoverAttempt[], readonly lastResult?: TaskResult) {
+    super(message);
+  }
+}
+
+/**
+ * Call candidates in order, retrying and failing over until one returns a valid response
+ *
+ * Once a payment has been signed for an attempt, failover stops if the server settled it (receipt present), if it
+ * answered below 400 or the paid MCP call succeeded (x402 servers settle those, with or without a receipt header),
+ * or if the outcome is unknown (network error after signing); the result is returned as is, so a call that may
+ * have been paid is never paid again
+ * @returns The serving candidate, its result and the failed attempts before it
+ * @throws FailoverExhausted when no candidate succeeded
+ */
+export async function runWithFailover<T extends FailoverTarget>(
+  candidates: T[],
+  call: (candidate: T) => Promise<TaskResult>,
+  options: RetryOptions = {}
+): Promise<{ candidate: T; result: TaskResult; attempts: FailoverAttempt[] }> {
+  const retries = options.retries ?? 1;
+  const attempts: FailoverAttempt[] = [];
+  let lastResult: TaskResult | undefined;
+
+  for (const candidate of candidates) {
+    for (let attempt = 1; attempt <= retries + 1; attempt++) {
+      let result: TaskResult;
+      try {
+        result = await call(candidate);
+      } catch (error) {
+        if (!isTransportError(error)) {
+          throw error;
+        }
+        result = { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+      lastResult = result;
+
+      const kind = classify(result);
+      const issues = kind === undefined && options.validateResponse !== false ? responseIssues(candidate, result) : undefined;
+      if (kind === undefined && issues === undefined) {
+        return { candidate, result, attempts };
+      }
+      const failure: FailoverAttempt = {
+        agentId: candidate.agentId,
+        attempt,
+        kind: kind ?? 'invalidResponse',
+        error: issues ?? describeError(result),
+        status: result.status,
+      };
+      attempts.push(failure);
+
+      const settled = result.receipt !== undefined
+        || (result.paid !== undefined && ((result.status !== undefined && result.status < 400) || result.success));
+      const unknownSettlement = result.paid !== undefined && failure.kind === 'network';
+      if (failure.kind === 'client' || settled || unknownSettlement) {
+        // Hand back this result rather than risk a second payment
+        const error = issues ?? result.error;
+        return { candidate, result: { ...result, success: false, error }, attempts: attempts.slice(0, -1) };
+      }
+      if (failure.kind === 'invalidResponse' || attempt > retries) {
+        break;
+      }
+      await delay(Math.min(
+        (options.backoffMs ?? 500) * (options.backoffFactor ?? 2) ** (attempt - 1),
+        options.maxBackoffMs ?? 10000
+      ));
+    }
+  }
+
+  const tried = attempts.map((attempt) => `${attempt.agentId}#${attempt.attempt} ${attempt.kind}: ${attempt.error}`).join('; ');
+  throw new FailoverExhausted(
+    candidates.length === 0 ? 'No candidate agents to run the task' : `All candidate agents failed (${tried})`,
+    attempts,
+    lastResult
+  );
+}
+
+/**
+ * Failure kind of an unsuccessful result
+ */
+function classify(result: TaskResult): FailureKind | undefined {
+  if (result.success) {
+    return undefined;
+  }
+  if (result.data?.kind === 'task') {
+    // A2A task that ended unsuccessfully: failed is the agent's fault, rejected or canceled is not
+    return result.data.status?.state === 'failed' ? 'server' : 'client';
+  }
+  if (result.status === undefined) {
+    // MCP tool errors and JSON-RPC errors are answers from a reachable agent
+    return isRpcError(result) ? 'client' : 'network';
+  }
+  return result.status >= 500 ? 'server' : 'client';
+}
+
+/**
+ * Problems with a successful response according to the tool's outputSchema
+ */
+function responseIssues(candidate: FailoverTarget, result: TaskResult): string | undefined {
+  const schema = candidate.tool?.outputSchema;
+  if (!schema) {
+    return undefined;
+  }
+  const payload = candidate.protocol === 'mcp' ? result.data?.structuredContent : result.data;
+  const issues = validateJsonSchema(schema, payload);
+  return issues.length > 0
+    ? `Invalid response: ${issues.map((issue) => issue.path ? `${issue.path} ${issue.message}` : issue.message).join('; ')}`
+    : undefined;
+}
+
+function isRpcError(result: TaskResult): boolean {
+  return result.data?.isError === true || (typeof result.error === 'object' && result.error !== null && typeof result.error.code === 'number');
+}
+
+/**
+ * Errors thrown by fetch or the A2A/MCP transports (as opposed to policy and argument errors)
+ */
+function isTransportError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  return error.name === 'TypeError' || error.name === 'TimeoutError' || error.name === 'AbortError'
+    || /HTTP 5\d\d|fetch failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT/.test(error.message);
+}
+
+function describeError(result: TaskResult): string {
+  const { error } = result;
+  if (typeof error === 'string') {
+    return error;
+  }
+  if (error instanceof Error || (typeof error === 'object' && error !== null && typeof error.message === 'string')) {
+    return error.message;
+  }
+  return JSON.stringify(error) ?? (result.status !== undefined ? `HTTP ${result.status}` : 'failed');
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
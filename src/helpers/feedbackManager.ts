@@ -12,8 +12,11 @@ import type { AgentId, Address, URI, Timestamp, IdemKey } from '../types/common.
 import type { Web3Client } from './web3client.js';
 import type { IPFSClient } from './ipfsClient.js';
 import type { SubgraphClient } from './subgraphclient.js';
+import type { LocalIndexer } from './localIndexer.js';
 import { parseAgentId, formatAgentId, formatFeedbackId, parseFeedbackId } from '../utils/id-format.js';
-import { DEFAULTS } from '../utils/constants.js';
+import { DEFAULTS, TIMEOUTS } from '../utils/constants.js';
+import { EMPTY_FEEDBACK_HASH, computeFeedbackHash, uncoveredFeedbackFields } from '../utils/feedback-hash.js';
+import { fetchFromGateways } from './storageProvider.js';
 
 export interface FeedbackAuth {
   agentId: bigint;
@@ -31,6 +34,7 @@ export interface FeedbackAuth {
 export class FeedbackManager {
   private getSubgraphClientForChain?: (chainId?: number) => SubgraphClient | undefined;
   private defaultChainId?: number;
+  private localIndexer?: LocalIndexer;
 
   constructor(
     private web3Client: Web3Client,
@@ -51,6 +55,13 @@ export class FeedbackManager {
     this.defaultChainId = defaultChainId;
   }
 
+  /**
+   * Set local indexer used when no subgraph is available
+   */
+  setLocalIndexer(localIndexer: LocalIndexer): void {
+    this.localIndexer = localIndexer;
+  }
+
   /**
    * Set reputation registry contract (for lazy initialization)
    */
@@ -266,16 +277,14 @@ export class FeedbackManager {
 
     // Handle off-chain file storage
     let feedbackUri = '';
-    let feedbackHash = '0x' + '00'.repeat(32); // Default empty hash
+    let feedbackHash = EMPTY_FEEDBACK_HASH; // Default empty hash
 
     if (this.ipfsClient) {
       // Store feedback file on IPFS
       try {
         const cid = await this.ipfsClient.addJson(feedbackFile);
         feedbackUri = `ipfs://${cid}`;
-        // Calculate hash of sorted JSON
-        const sortedJson = JSON.stringify(feedbackFile, Object.keys(feedbackFile).sort());
-        feedbackHash = this.web3Client.keccak256(sortedJson);
+        feedbackHash = computeFeedbackHash(feedbackFile);
       } catch (error) {
         // Failed to store on IPFS - log error but continue without IPFS storage
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -337,6 +346,7 @@ export class FeedbackManager {
       context: contextValue,
       proofOfPayment: proofOfPaymentValue,
       fileURI: feedbackUri || undefined,
+      feedbackHash,
       createdAt: Math.floor(Date.now() / 1000),
       answers: [],
       isRevoked: false,
@@ -351,13 +361,174 @@ export class FeedbackManager {
   /**
    * Get single feedback with responses
    * Currently only supports blockchain query - subgraph support coming soon
+   * @param verify - Look up the feedback file and check it against the on-chain feedbackHash
    */
   async getFeedback(
     agentId: AgentId,
     clientAddress: Address,
-    feedbackIndex: number
+    feedbackIndex: number,
+    verify: boolean = false
   ): Promise<Feedback> {
-    return await this._getFeedbackFromBlockchain(agentId, clientAddress, feedbackIndex);
+    const feedback = await this._getFeedbackFromBlockchain(agentId, clientAddress, feedbackIndex);
+    if (!verify) {
+      return feedback;
+    }
+
+    // readFeedback does not return the file URI or hash - take them from an index or the NewFeedback log
+    let record: Awaited<ReturnType<FeedbackManager['_findFeedbackRecord']>>;
+    try {
+      record = await this._findFeedbackRecord(agentId, clientAddress, feedbackIndex);
+    } catch {
+      feedback.verified = false;
+      feedback.verificationError = 'unreachable';
+      return feedback;
+    }
+    if (record) {
+      feedback.fileURI = record.fileURI;
+      feedback.feedbackHash = record.feedbackHash;
+    }
+    return this.verifyFeedback(feedback);
+  }
+
+  /**
+   * Fetch the feedback file and check it against feedbackHash
+   * Sets verified (and verificationError when false) on the feedback and returns it
+   */
+  async verifyFeedback(feedback: Feedback): Promise<Feedback> {
+    const feedbackUri = feedback.fileURI;
+    const feedbackHash = feedback.feedbackHash;
+    if (!feedbackUri || !feedbackHash || feedbackHash === EMPTY_FEEDBACK_HASH) {
+      feedback.verified = false;
+      feedback.verificationError = 'noFile';
+      return feedback;
+    }
+
+    let file: Record<string, unknown>;
+    try {
+      file = await this._fetchFeedbackFile(feedbackUri);
+    } catch {
+      feedback.verified = false;
+      feedback.verificationError = 'unreachable';
+      return feedback;
+    }
+
+    feedback.unverifiedFields = undefined;
+    if (computeFeedbackHash(file).toLowerCase() === feedbackHash.toLowerCase()) {
+      feedback.verified = true;
+      feedback.verificationError = undefined;
+    } else if (computeFeedbackHash(file, 1).toLowerCase() === feedbackHash.toLowerCase()) {
+      // Legacy hash - it matches, but does not cover the nested fields
+      feedback.verified = false;
+      feedback.verificationError = 'partial';
+      feedback.unverifiedFields = uncoveredFeedbackFields(file);
+    } else {
+      feedback.verified = false;
+      feedback.verificationError = 'tampered';
+    }
+    return feedback;
+  }
+
+  /**
+   * Fetch and parse a feedback file (ipfs:// content is checked against its CID)
+   */
+  private async _fetchFeedbackFile(feedbackUri: URI): Promise<Record<string, unknown>> {
+    let data: string;
+    if (feedbackUri.startsWith('ipfs://')) {
+      const cid = feedbackUri.slice(7);
+      data = this.ipfsClient ? await this.ipfsClient.get(cid) : await fetchFromGateways(cid);
+    } else if (feedbackUri.startsWith('http://') || feedbackUri.startsWith('https://')) {
+      const response = await fetch(feedbackUri, { signal: AbortSignal.timeout(TIMEOUTS.IPFS_GATEWAY) });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch feedback file: HTTP ${response.status}`);
+      }
+      data = await response.text();
+    } else {
+      throw new Error(`Unsupported feedback URI scheme: ${feedbackUri}`);
+    }
+
+    const file = JSON.parse(data);
+    if (!file || typeof file !== 'object' || Array.isArray(file)) {
+      throw new Error('Feedback file is not a JSON object');
+    }
+    return file as Record<string, unknown>;
+  }
+
+  /**
+   * Find the feedbackUri and feedbackHash submitted with a feedback
+   * Uses the local index or the subgraph when configured, otherwise searches the client's NewFeedback logs backwards
+   * from the head, in block ranges down to the registry's deployment block
+   * @throws Error if the lookup fails (e.g. the node cannot find the deployment block)
+   */
+  private async _findFeedbackRecord(
+    agentId: AgentId,
+    clientAddress: Address,
+    feedbackIndex: number
+  ): Promise<{ fileURI?: URI | undefined; feedbackHash: string } | undefined> {
+    if (this.localIndexer) {
+      await this.localIndexer.sync();
+      const indexed = await this.localIndexer.searchFeedback({
+        agents: [agentId],
+        reviewers: [clientAddress],
+        includeRevoked: true,
+      });
+      const feedback = indexed.find((entry) => entry.id[2] === feedbackIndex);
+      if (feedback?.feedbackHash) {
+        return { fileURI: feedback.fileURI, feedbackHash: feedback.feedbackHash };
+      }
+    }
+
+    const { chainId, tokenId } = parseAgentId(agentId);
+    const subgraphClient = this.getSubgraphClientForChain ? this.getSubgraphClientForChain(chainId) : this.subgraphClient;
+    if (subgraphClient) {
+      const record = await subgraphClient.getFeedbackRecord(formatFeedbackId(agentId, clientAddress, feedbackIndex));
+      if (record?.feedbackHash) {
+        return { fileURI: record.feedbackUri || undefined, feedbackHash: record.feedbackHash };
+      }
+    }
+
+    if (!this.reputationRegistry) {
+      return undefined;
+    }
+
+    // NewFeedback does not carry its index: the newest log is getLastIndex, each earlier one is one less
+    // Read the index and the head in the same block so the logs counted below match it
+    let head: number;
+    let lastIndex: number;
+    let attempts = 0;
+    do {
+      head = await this.web3Client.getBlockNumber();
+      lastIndex = Number(await this.web3Client.callContract(
+        this.reputationRegistry,
+        'getLastIndex',
+        BigInt(tokenId),
+        clientAddress
+      ));
+    } while (head !== await this.web3Client.getBlockNumber() && ++attempts < 3);
+    if (feedbackIndex < 1 || feedbackIndex > lastIndex) {
+      return undefined;
+    }
+    const deploymentBlock = await this.web3Client.getDeploymentBlock(this.reputationRegistry.target as string);
+
+    let index = lastIndex;
+    for (let toBlock = head; toBlock >= deploymentBlock; toBlock -= DEFAULTS.LOG_BLOCK_RANGE) {
+      const fromBlock = Math.max(toBlock - DEFAULTS.LOG_BLOCK_RANGE + 1, deploymentBlock);
+      const logs = await this.web3Client.getEvents(
+        this.reputationRegistry,
+        'NewFeedback',
+        fromBlock,
+        toBlock,
+        [BigInt(tokenId), clientAddress]
+      );
+      logs.sort((a, b) => b.blockNumber - a.blockNumber || b.index - a.index);
+      for (const log of logs) {
+        if (index === feedbackIndex) {
+          const parsed = this.reputationRegistry.interface.parseLog(log);
+          return parsed ? { fileURI: parsed.args.feedbackUri || undefined, feedbackHash: parsed.args.feedbackHash } : undefined;
+        }
+        index--;
+      }
+    }
+    return undefined;
   }
 
   /**
@@ -460,9 +631,13 @@ export class FeedbackManager {
     }
 
     if (!subgraphClientToUse) {
-      // Fallback not implemented (would require blockchain queries)
-      // For now, return empty if subgraph unavailable
-      return [];
+      // Fall back to the local log index; empty if none is configured
+      if (!this.localIndexer) {
+        return [];
+      }
+      await this.localIndexer.sync();
+      const indexed = await this.localIndexer.searchFeedback({ ...params, agents: formattedAgents });
+      return params.verify ? Promise.all(indexed.map((feedback) => this.verifyFeedback(feedback))) : indexed;
     }
 
     // Build params object with only defined values
@@ -541,6 +716,9 @@ export class FeedbackManager {
       feedbacks.push(feedback);
     }
 
+    if (params.verify) {
+      await Promise.all(feedbacks.map((feedback) => this.verifyFeedback(feedback)));
+    }
     return feedbacks;
   }
 
@@ -609,6 +787,7 @@ export class FeedbackManager {
       context,
       proofOfPayment,
       fileURI: feedbackData.feedbackUri || undefined,
+      feedbackHash: feedbackData.feedbackHash || undefined,
       createdAt: feedbackData.createdAt ? parseInt(feedbackData.createdAt, 10) : Math.floor(Date.now() / 1000),
       answers,
       isRevoked: feedbackData.isRevoked || false,
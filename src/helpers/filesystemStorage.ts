@@ -0,0 +1,68 @@
+/**
+ * Content-addressed store on the local filesystem (Node.js only)
+ */
+
+import type { StorageProvider } from './storageProvider.js';
+import { computeRawCid } from '../utils/cid.js';
+
+/**
+ * Stores each object as <directory>/<cid>; CIDs are real CIDv1 (raw, sha2-256)
+ */
+export class FilesystemStorage implements StorageProvider {
+  constructor(private directory: string) {}
+
+  /**
+   * Store content and return its CID (content is pinned on add)
+   */
+  async add(data: string | Uint8Array): Promise<string> {
+    const fs = await import('fs/promises');
+    const cid = computeRawCid(data);
+    const filePath = await this._path(cid);
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated object
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, data);
+    await fs.rename(tmpPath, filePath);
+    return cid;
+  }
+
+  async addJson(data: Record<string, unknown>): Promise<string> {
+    return this.add(JSON.stringify(data));
+  }
+
+  async get(cid: string): Promise<string> {
+    const fs = await import('fs/promises');
+    try {
+      return await fs.readFile(await this._path(cid), 'utf8');
+    } catch {
+      throw new Error(`CID not found in filesystem store: ${cid}`);
+    }
+  }
+
+  async pin(cid: string): Promise<{ pinned: string[] }> {
+    const fs = await import('fs/promises');
+    try {
+      await fs.access(await this._path(cid));
+    } catch {
+      throw new Error(`CID not found in filesystem store: ${cid}`);
+    }
+    return { pinned: [cid] };
+  }
+
+  /**
+   * Unpin a CID - the object is deleted immediately (no GC delay)
+   */
+  async unpin(cid: string): Promise<{ unpinned: string[] }> {
+    const fs = await import('fs/promises');
+    await fs.rm(await this._path(cid), { force: true });
+    return { unpinned: [cid] };
+  }
+
+  private async _path(cid: string): Promise<string> {
+    if (!/^[a-zA-Z0-9]+$/.test(cid)) {
+      throw new Error(`Invalid CID: ${cid}`);
+    }
+    const path = await import('path');
+    return path.join(this.directory, cid);
+  }
+}
@@ -1,4 +1,5 @@
 
+import { ethers } from 'ethers';
 import { DEFAULT_SUBGRAPH_URLS } from './contracts.js';
 
 export const GET_AGENTS_QUERY = `
@@ -119,32 +120,43 @@ export const GET_AGENT_BY_ID_QUERY = `
 `;
 
 
-interface ToolPricing {
-  price: string;
+export interface ToolPricing {
+  price: string; // Decimal token amount, scaled by the token's decimals (e.g. "0.05", or "1" for one token)
   network: string;
   tokens: Array<{
     address: string;
     symbol: string;
     decimals: number;
+    eip712Name?: string; // EIP-712 domain name of the token contract (e.g. "USD Coin"); a paywall needs it for non-default tokens
+    eip712Version?: string; // EIP-712 domain version (e.g. "2")
   }>;
   chainId: number;
 }
 
-interface ToolParameter {
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface ToolParameter {
   name: string;
   type: string;
   description: string;
   required: boolean;
   enum?: string[];
+  in?: 'path' | 'query' | 'header' | 'body'; // Default: path if named in the endpoint, else query (GET/DELETE) or body
 }
 
 export interface Tool {
   name: string;
   description: string;
-  endpoint: string;
+  endpoint: string; // May contain path parameters, e.g. /orders/{id} or /orders/:id
   parameters: ToolParameter[];
   pricing: ToolPricing;
   mcpServerUrl?: string;
+  protocol?: 'rest' | 'mcp'; // mcp: call through tools/call on the MCP server at mcpServerUrl (default: rest)
+  method?: HttpMethod; // Default: GET
+  headers?: Record<string, string>;
+  timeout?: number; // ms
+  inputSchema?: Record<string, unknown>; // JSON Schema for the arguments; takes precedence over parameters
+  outputSchema?: Record<string, unknown>; // JSON Schema for the response (structuredContent for MCP tools)
 }
 let agentMetadataCache: Map<string, any> = new Map();
 
@@ -354,6 +366,28 @@ export function calculateAverageRating(feedback: AgentDataType['feedback']): num
   return Math.round((totalScore / feedback.length) * 10) / 10; // Round to 1 decimal
 }
 
+/**
+ * Format of ToolPricing.price: a decimal token amount ("1" is one token, not one atomic unit)
+ */
+export const TOOL_PRICE = /^\d+(\.\d+)?$/;
+
+/**
+ * Declared tool price in atomic units of a payment token (default: the first listed token, else 6 decimals)
+ * @returns undefined when the tool declares no usable price
+ */
+export function toolPriceInUnits(tool: Tool, token?: ToolPricing['tokens'][number]): bigint | undefined {
+  const price = tool.pricing?.price;
+  if (typeof price !== 'string' || !TOOL_PRICE.test(price)) {
+    return undefined;
+  }
+  try {
+    return ethers.parseUnits(price, (token ?? tool.pricing.tokens?.[0])?.decimals ?? 6);
+  } catch {
+    // More fractional digits than the token has
+    return undefined;
+  }
+}
+
 // Helper function to convert score to 5-star rating
 export function scoreToStars(score: number): number {
   return Math.min(5, Math.max(0, score / 20)); // Convert 0-100 score to 0-5 stars
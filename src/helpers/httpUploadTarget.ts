@@ -0,0 +1,56 @@
+/**
+ * Plain HTTP(S) upload target for registerHTTP flows
+ */
+
+import type { URI } from '../types/common.js';
+import { TIMEOUTS } from '../utils/constants.js';
+
+export interface HttpUploadTargetConfig {
+  uploadUrl: string; // Files are sent to <uploadUrl>/<name>
+  publicUrl?: string; // Base URL the files are served from (default: uploadUrl)
+  method?: 'PUT' | 'POST'; // default: PUT
+  headers?: Record<string, string>; // e.g. Authorization
+}
+
+/**
+ * Uploads JSON documents to a web server or bucket and returns their public URL
+ */
+export class HttpUploadTarget {
+  private readonly uploadUrl: string;
+  private readonly publicUrl: string;
+
+  constructor(private config: HttpUploadTargetConfig) {
+    if (!/^https?:\/\//.test(config.uploadUrl)) {
+      throw new Error(`uploadUrl must be an HTTP(S) URL, got: ${config.uploadUrl}`);
+    }
+    this.uploadUrl = config.uploadUrl.replace(/\/$/, '');
+    this.publicUrl = (config.publicUrl || config.uploadUrl).replace(/\/$/, '');
+  }
+
+  /**
+   * Upload a JSON document
+   * @param name - File name relative to the upload URL
+   * @returns Public URL of the uploaded document
+   */
+  async uploadJson(name: string, data: Record<string, unknown>): Promise<URI> {
+    const path = name.split('/').map(encodeURIComponent).join('/');
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.uploadUrl}/${path}`, {
+        method: this.config.method || 'PUT',
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body: JSON.stringify(data),
+        signal: AbortSignal.timeout(TIMEOUTS.PINATA_UPLOAD),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to upload ${name}: ${errorMessage}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to upload ${name}: HTTP ${response.status}`);
+    }
+
+    return `${this.publicUrl}/${path}`;
+  }
+}
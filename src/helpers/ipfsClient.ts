@@ -1,59 +1,48 @@
 /**
- * IPFS client for decentralized storage with Pinata SDK support
+ * IPFS client for decentralized storage through a pluggable StorageProvider (Pinata by default)
  */
 
-import { PinataSDK } from "pinata";
 import type { RegistrationFile } from '../types/interfaces.js';
-import { IPFS_GATEWAYS, TIMEOUTS } from '../utils/constants.js';
+import type { MemoryIPFSStore } from './memoryIpfsStore.js';
+import type { StorageProvider, VerifiedContent } from './storageProvider.js';
+import { checkContent, fetchVerifiedFromGateways } from './storageProvider.js';
+import { PinataStorage } from './pinataStorage.js';
+import { assertRegistrationFile, REGISTRATION_FILE_TYPE } from './registrationValidator.js';
 
 export interface IPFSClientConfig {
   pinataJwt?: string;
   pinataGateway?: string;
+  memoryStore?: MemoryIPFSStore; // Offline mode - replaces Pinata and gateways entirely
+  provider?: StorageProvider; // Any other storage (Kubo, pinning service, filesystem, ...)
+  gatewayFallback?: boolean; // Read CIDs the provider does not hold from public gateways (checked against the CID)
 }
 
 /**
- * Client for IPFS operations using Pinata SDK
+ * Client for IPFS operations; uploads and reads go through the configured storage provider
  */
 export class IPFSClient {
-  private pinata: PinataSDK;
-  private config: IPFSClientConfig;
+  public readonly provider: StorageProvider;
+  private readonly gatewayFallback: boolean;
 
   constructor(config: IPFSClientConfig) {
-    if (!config.pinataJwt) {
-      throw new Error('pinataJwt is required');
+    this.gatewayFallback = config.gatewayFallback ?? false;
+    if (config.provider) {
+      this.provider = config.provider;
+    } else if (config.memoryStore) {
+      this.provider = config.memoryStore;
+    } else {
+      if (!config.pinataJwt) {
+        throw new Error('pinataJwt is required');
+      }
+      this.provider = new PinataStorage({ pinataJwt: config.pinataJwt, pinataGateway: config.pinataGateway });
     }
-    
-    this.config = config;
-    this.pinata = new PinataSDK({
-      pinataJwt: config.pinataJwt,
-      pinataGateway: config.pinataGateway || "https://gateway.pinata.cloud"
-    });
   }
 
   /**
-   * Add data to IPFS using Pinata SDK and return CID
+   * Add data to IPFS and return CID
    */
   async add(data: string): Promise<string> {
-    try {
-      const config = { pinataJwt: this.config.pinataJwt! };
-      
-      // Try to parse as JSON first
-      try {
-        const jsonData = JSON.parse(data);
-        const { uploadJson } = await import('pinata');
-        const result = await uploadJson(config, jsonData, "public");
-        return result.cid;
-      } catch {
-        // If JSON parsing fails, upload as file
-        const { uploadFile } = await import('pinata');
-        const file = new File([data], 'data.txt', { type: 'text/plain' });
-        const result = await uploadFile(config, file, "public");
-        return result.cid;
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to pin to Pinata: ${errorMessage}`);
-    }
+    return this.provider.add(data);
   }
 
   /**
@@ -68,61 +57,45 @@ export class IPFSClient {
       );
     }
 
-    try {
-      const fs = await import('fs');
-      const { uploadFile } = await import('pinata');
-      const fileContent = fs.readFileSync(filepath);
-      const fileName = filepath.split(/[\/\\]/).pop() || 'file';
-      
-      const file = new File([fileContent], fileName);
-      const config = { pinataJwt: this.config.pinataJwt! };
-      const result = await uploadFile(config, file, "public");
-      return result.cid;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to upload file to Pinata: ${errorMessage}`);
-    }
+    const fs = await import('fs/promises');
+    return this.provider.add(new Uint8Array(await fs.readFile(filepath)));
   }
 
   /**
-   * Get data from IPFS by CID using gateways
+   * Get data from IPFS by CID (rejected if it does not match the CID)
    */
   async get(cid: string): Promise<string> {
+    return (await this.getVerified(cid)).data;
+  }
+
+  /**
+   * Get data from IPFS by CID with provenance
+   * Content is hashed locally and checked against the CID; mismatches throw
+   */
+  async getVerified(cid: string): Promise<VerifiedContent> {
     // Extract CID from IPFS URL if needed
     if (cid.startsWith('ipfs://')) {
       cid = cid.slice(7); // Remove "ipfs://" prefix
     }
 
-    // Use configured gateway or fallback to public gateways
-    const gateways = [
-      this.config.pinataGateway || 'https://gateway.pinata.cloud',
-      ...IPFS_GATEWAYS
-    ].map(gateway => `${gateway.replace(/\/$/, '')}/ipfs/${cid}`);
-
-    // Try all gateways in parallel - use the first successful response
-    const promises = gateways.map(async (gateway) => {
-      try {
-        const response = await fetch(gateway, {
-          signal: AbortSignal.timeout(TIMEOUTS.IPFS_GATEWAY),
-        });
-        if (response.ok) {
-          return await response.text();
-        }
-        throw new Error(`HTTP ${response.status}`);
-      } catch (error) {
+    try {
+      if (this.provider.getVerified) {
+        return await this.provider.getVerified(cid);
+      }
+      return checkContent(cid, await this.provider.get(cid), this.provider.constructor.name);
+    } catch (error) {
+      if (!this.gatewayFallback) {
         throw error;
       }
-    });
-
-    // Use Promise.allSettled to get the first successful result
-    const results = await Promise.allSettled(promises);
-    for (const result of results) {
-      if (result.status === 'fulfilled') {
-        return result.value;
+      // Local stores only hold what was published through them; anything else is read from the network
+      try {
+        return await fetchVerifiedFromGateways(cid);
+      } catch (gatewayError) {
+        const localMessage = error instanceof Error ? error.message : String(error);
+        const gatewayMessage = gatewayError instanceof Error ? gatewayError.message : String(gatewayError);
+        throw new Error(`${localMessage}; ${gatewayMessage}`);
       }
     }
-
-    throw new Error('Failed to retrieve data from all IPFS gateways');
   }
 
   /**
@@ -134,46 +107,29 @@ export class IPFSClient {
   }
 
   /**
-   * Pin a CID (already pinned with Pinata SDK uploads)
+   * Pin a CID
    */
   async pin(cid: string): Promise<{ pinned: string[] }> {
-    // Files uploaded via Pinata SDK are automatically pinned
-    // This method is included for compatibility
-    return { pinned: [cid] };
+    return this.provider.pin(cid);
   }
 
   /**
-   * Unpin a CID from Pinata
+   * Unpin a CID
    */
   async unpin(cid: string): Promise<{ unpinned: string[] }> {
-    try {
-      const { deleteFile } = await import('pinata');
-      const config = { pinataJwt: this.config.pinataJwt! };
-      await deleteFile(config, [cid], "public");
-      return { unpinned: [cid] };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to unpin from Pinata: ${errorMessage}`);
-    }
+    return this.provider.unpin(cid);
   }
 
   /**
    * Add JSON data to IPFS and return CID
    */
   async addJson(data: Record<string, unknown>): Promise<string> {
-    try {
-      const { uploadJson } = await import('pinata');
-      const config = { pinataJwt: this.config.pinataJwt! };
-      const result = await uploadJson(config, data, "public");
-      return result.cid;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to upload JSON to Pinata: ${errorMessage}`);
-    }
+    return this.provider.addJson(data);
   }
 
   /**
    * Add registration file to IPFS and return CID
+   * @throws InvalidRegistrationFile if the file does not pass validateRegistrationFile()
    */
   async addRegistrationFile(
     registrationFile: RegistrationFile,
@@ -181,64 +137,8 @@ export class IPFSClient {
     identityRegistryAddress?: string,
     tools: any = []
   ): Promise<string> {
-    // Convert from internal format { type, value, meta } to ERC-8004 format { name, endpoint, version }
-    const endpoints: Array<Record<string, unknown>> = [];
-    for (const ep of registrationFile.endpoints) {
-      const endpointDict: Record<string, unknown> = {
-        name: ep.type, // EndpointType enum value (e.g., "MCP", "A2A")
-        endpoint: ep.value,
-      };
-      
-      // Spread meta fields (version, mcpTools, mcpPrompts, etc.) into the endpoint dict
-      if (ep.meta) {
-        Object.assign(endpointDict, ep.meta);
-      }
-      
-      endpoints.push(endpointDict);
-    }
-    
-    // Add walletAddress as an endpoint if present
-    if (registrationFile.walletAddress) {
-      const walletChainId = registrationFile.walletChainId || chainId || 1;
-      endpoints.push({
-        name: 'agentWallet',
-        endpoint: `eip155:${walletChainId}:${registrationFile.walletAddress}`,
-      });
-    }
-    
-    // Build registrations array
-    const registrations: Array<Record<string, unknown>> = [];
-    if (registrationFile.agentId) {
-      const parts = registrationFile.agentId.split(':');
-      const tokenId = parts[2];
-      if (tokenId) {
-        const agentRegistry = chainId && identityRegistryAddress
-          ? `eip155:${chainId}:${identityRegistryAddress}`
-          : `eip155:1:{identityRegistry}`;
-        registrations.push({
-          agentId: parseInt(tokenId, 10),
-          agentRegistry,
-        });
-      }
-    }
-    
-    // Build ERC-8004 compliant registration file
-    const data = {
-      creatorAddress: registrationFile.walletAddress,
-      type: "agent",
-      ...(registrationFile.image && { image: registrationFile.image }),
-      endpoints,
-      ...(registrations.length > 0 && { registrations }),
-      ...(registrationFile.trustModels.length > 0 && {
-        supportedTrusts: registrationFile.trustModels,
-      }),
-      name: registrationFile.name,
-      description: registrationFile.description,
-      active: registrationFile.active,
-      tools: tools,
-      x402support: registrationFile.x402support,
-    };
-    
+    const data = formatRegistrationFile(registrationFile, chainId, identityRegistryAddress, tools);
+    assertRegistrationFile(data);
     return this.addJson(data);
   }
 
@@ -254,8 +154,78 @@ export class IPFSClient {
    * Close IPFS client connection
    */
   async close(): Promise<void> {
-    // Pinata SDK doesn't require explicit connection cleanup
+    // Storage providers are stateless HTTP clients or local stores
     // This method is included for compatibility
   }
 }
 
+/**
+ * Convert a RegistrationFile to the ERC-8004 JSON document that is published (IPFS or HTTP)
+ */
+export function formatRegistrationFile(
+  registrationFile: RegistrationFile,
+  chainId?: number,
+  identityRegistryAddress?: string,
+  tools: any = []
+): Record<string, unknown> {
+  // Convert from internal format { type, value, meta } to ERC-8004 format { name, endpoint, version }
+  const endpoints: Array<Record<string, unknown>> = [];
+  for (const ep of registrationFile.endpoints) {
+    const endpointDict: Record<string, unknown> = {
+      name: ep.type, // EndpointType enum value (e.g., "MCP", "A2A")
+      endpoint: ep.value,
+    };
+    
+    // Spread meta fields (version, mcpTools, mcpPrompts, etc.) into the endpoint dict
+    if (ep.meta) {
+      Object.assign(endpointDict, ep.meta);
+    }
+    
+    endpoints.push(endpointDict);
+  }
+  
+  // Add walletAddress as an endpoint if present
+  if (registrationFile.walletAddress) {
+    const walletChainId = registrationFile.walletChainId || chainId || 1;
+    endpoints.push({
+      name: 'agentWallet',
+      endpoint: `eip155:${walletChainId}:${registrationFile.walletAddress}`,
+    });
+  }
+  
+  // Build registrations array
+  const registrations: Array<Record<string, unknown>> = [];
+  if (registrationFile.agentId) {
+    const parts = registrationFile.agentId.split(':');
+    const tokenId = parts[2];
+    if (tokenId) {
+      const agentRegistry = chainId && identityRegistryAddress
+        ? `eip155:${chainId}:${identityRegistryAddress}`
+        : `eip155:1:{identityRegistry}`;
+      registrations.push({
+        agentId: parseInt(tokenId, 10),
+        agentRegistry,
+      });
+    }
+  }
+  
+  // Build ERC-8004 compliant registration file
+  const data = {
+    creatorAddress: registrationFile.walletAddress,
+    type: REGISTRATION_FILE_TYPE,
+    ...(registrationFile.image && { image: registrationFile.image }),
+    endpoints,
+    ...(registrations.length > 0 && { registrations }),
+    ...(registrationFile.trustModels.length > 0 && {
+      supportedTrust: registrationFile.trustModels,
+      supportedTrusts: registrationFile.trustModels, // Previous key; still read by subgraph indexers and older SDKs
+    }),
+    name: registrationFile.name,
+    description: registrationFile.description,
+    active: registrationFile.active,
+    tools: tools,
+    x402support: registrationFile.x402support,
+  };
+
+  return data;
+}
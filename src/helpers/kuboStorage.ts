@@ -0,0 +1,83 @@
+/**
+ * Storage provider backed by a Kubo (go-ipfs) node's HTTP RPC API
+ */
+
+import type { StorageProvider } from './storageProvider.js';
+import { TIMEOUTS } from '../utils/constants.js';
+
+export interface KuboStorageConfig {
+  apiUrl?: string; // RPC API base (default: http://127.0.0.1:5001)
+  headers?: Record<string, string>; // e.g. Authorization for a proxied node
+}
+
+/**
+ * Adds and pins content on a Kubo node; CIDs are CIDv1 with raw leaves
+ */
+export class KuboStorage implements StorageProvider {
+  private readonly apiUrl: string;
+  private readonly headers: Record<string, string>;
+
+  constructor(config: KuboStorageConfig = {}) {
+    this.apiUrl = (config.apiUrl || 'http://127.0.0.1:5001').replace(/\/$/, '');
+    this.headers = config.headers || {};
+  }
+
+  async add(data: string | Uint8Array): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([data]), 'data');
+
+    const response = await this._rpc('add', { 'cid-version': '1', 'raw-leaves': 'true', pin: 'true' }, form);
+    const result = await response.json() as { Hash?: string };
+    if (!result.Hash) {
+      throw new Error('Kubo add returned no CID');
+    }
+    return result.Hash;
+  }
+
+  async addJson(data: Record<string, unknown>): Promise<string> {
+    return this.add(JSON.stringify(data));
+  }
+
+  async get(cid: string): Promise<string> {
+    const response = await this._rpc('cat', { arg: cid });
+    return response.text();
+  }
+
+  async pin(cid: string): Promise<{ pinned: string[] }> {
+    await this._rpc('pin/add', { arg: cid });
+    return { pinned: [cid] };
+  }
+
+  async unpin(cid: string): Promise<{ unpinned: string[] }> {
+    await this._rpc('pin/rm', { arg: cid });
+    return { unpinned: [cid] };
+  }
+
+  /**
+   * Call an RPC command (Kubo only accepts POST)
+   */
+  private async _rpc(command: string, params: Record<string, string>, body?: FormData): Promise<Response> {
+    const url = `${this.apiUrl}/api/v0/${command}?${new URLSearchParams(params).toString()}`;
+    const init: RequestInit = {
+      method: 'POST',
+      headers: this.headers,
+      signal: AbortSignal.timeout(TIMEOUTS.PINATA_UPLOAD),
+    };
+    if (body) {
+      init.body = body;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Kubo ${command} failed: ${errorMessage}`);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Kubo ${command} failed: HTTP ${response.status}${detail ? ` ${detail}` : ''}`);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,617 @@
+/**
+ * Local indexer built from registry logs, used when no subgraph is available
+ */
+
+import { ethers } from 'ethers';
+import type { AgentId, Address, ChainId, URI } from '../types/common.js';
+import type { AgentSummary, Feedback, RegistrationFile, SearchFeedbackParams } from '../types/interfaces.js';
+import { EndpointType } from '../types/enum.js';
+import type { FluidSDK } from '../index.js';
+import { formatAgentId, parseAgentId } from '../utils/id-format.js';
+import { normalizeAddress } from '../utils/validation.js';
+
+/**
+ * Agent entry kept in the local index
+ */
+export interface IndexedAgent {
+  tokenId: number;
+  owner: Address;
+  agentURI: URI;
+  metadata: Record<string, string>; // On-chain metadata (UTF-8 decoded)
+  registrationFile?: RegistrationFile | undefined;
+  registeredBlock: number;
+}
+
+/**
+ * Feedback entry kept in the local index
+ */
+export interface IndexedFeedback extends Feedback {
+  feedbackHash: string;
+  blockNumber: number;
+}
+
+/**
+ * Serialized index contents
+ */
+export interface LocalIndexData {
+  version: 1;
+  chainId: ChainId;
+  identityRegistry: Address;
+  lastBlock: number;
+  agents: Record<string, IndexedAgent>; // keyed by tokenId
+  feedback: IndexedFeedback[];
+}
+
+/**
+ * Persists the index between runs
+ */
+export interface IndexStore {
+  load(): Promise<LocalIndexData | undefined>;
+  save(data: LocalIndexData): Promise<void>;
+}
+
+export interface LocalIndexerOptions {
+  store?: IndexStore;
+  storePath?: string; // Used for a FileIndexStore when no store is given
+  startBlock?: number; // First block to backfill (default: the registries' deployment block, which needs an archive node)
+  blockRange?: number; // max blocks per log query (default: 2000)
+  confirmations?: number; // blocks to stay behind head (default: 0)
+}
+
+/**
+ * Index store backed by a JSON file
+ */
+export class FileIndexStore implements IndexStore {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<LocalIndexData | undefined> {
+    try {
+      const fs = await import('fs/promises');
+      const content = await fs.readFile(this.filePath, 'utf8');
+      const data = JSON.parse(content) as LocalIndexData;
+      return data.version === 1 ? data : undefined;
+    } catch {
+      // Missing or unreadable index - rebuild from scratch
+      return undefined;
+    }
+  }
+
+  async save(data: LocalIndexData): Promise<void> {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated index
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Index store kept in memory (not persisted across restarts)
+ */
+export class MemoryIndexStore implements IndexStore {
+  private data: LocalIndexData | undefined;
+
+  async load(): Promise<LocalIndexData | undefined> {
+    return this.data ? structuredClone(this.data) : undefined;
+  }
+
+  async save(data: LocalIndexData): Promise<void> {
+    this.data = structuredClone(data);
+  }
+}
+
+/**
+ * Map a registration file to the AgentSummary fields it determines
+ */
+export function registrationFileToSummary(registrationFile: RegistrationFile): Partial<AgentSummary> {
+  const endpoint = (type: EndpointType) => registrationFile.endpoints.find((ep) => ep.type === type);
+  const mcp = endpoint(EndpointType.MCP);
+  const a2a = endpoint(EndpointType.A2A);
+
+  return {
+    name: registrationFile.name,
+    description: registrationFile.description,
+    image: registrationFile.image,
+    mcp: !!mcp,
+    a2a: !!a2a,
+    ens: endpoint(EndpointType.ENS)?.value,
+    did: endpoint(EndpointType.DID)?.value,
+    walletAddress: registrationFile.walletAddress,
+    supportedTrusts: registrationFile.trustModels.map(String),
+    a2aSkills: a2a?.meta?.a2aSkills || [],
+    mcpTools: mcp?.meta?.mcpTools || [],
+    mcpPrompts: mcp?.meta?.mcpPrompts || [],
+    mcpResources: mcp?.meta?.mcpResources || [],
+    active: registrationFile.active,
+    x402support: registrationFile.x402support,
+  };
+}
+
+/**
+ * Map an on-chain metadata entry to the AgentSummary fields it determines
+ */
+export function metadataToSummary(key: string, value: string): Partial<AgentSummary> {
+  if (key === 'agentWallet') {
+    // Stored as eip155:<chainId>:<address>
+    const match = value.match(/0x[a-fA-F0-9]{40}$/);
+    return { walletAddress: match ? match[0] : value };
+  }
+  if (key === 'agentName') {
+    return { ens: value };
+  }
+  return { extras: { [key]: value } };
+}
+
+/**
+ * Fill a feedback's off-chain fields from its feedback file (soft fail)
+ */
+export async function hydrateFeedback(sdk: FluidSDK, feedback: Feedback): Promise<void> {
+  const feedbackUri = feedback.fileURI;
+  if (!feedbackUri) {
+    return;
+  }
+
+  try {
+    let file: Record<string, any>;
+    if (feedbackUri.startsWith('ipfs://') && sdk.ipfsClient) {
+      file = await sdk.ipfsClient.getJson(feedbackUri.slice(7));
+    } else if (feedbackUri.startsWith('http://') || feedbackUri.startsWith('https://')) {
+      const response = await fetch(feedbackUri);
+      if (!response.ok) {
+        return;
+      }
+      file = await response.json() as Record<string, any>;
+    } else {
+      return;
+    }
+
+    feedback.text = file.text || undefined;
+    feedback.context = file.context || undefined;
+    feedback.proofOfPayment = file.proofOfPayment || undefined;
+    feedback.capability = file.capability || undefined;
+    feedback.name = file.name || undefined;
+    feedback.skill = file.skill || undefined;
+    feedback.task = file.task || undefined;
+    if (typeof file.createdAt === 'string') {
+      const createdAt = Date.parse(file.createdAt);
+      if (!Number.isNaN(createdAt)) {
+        feedback.createdAt = Math.floor(createdAt / 1000);
+      }
+    }
+  } catch {
+    // Soft fail - on-chain fields are still available
+  }
+}
+
+/**
+ * Backfills Registered, MetadataSet, NewFeedback and FeedbackRevoked logs into a local store
+ * and answers agent/feedback queries from it
+ */
+export class LocalIndexer {
+  private readonly store: IndexStore;
+  private startBlock: number | undefined;
+  private readonly seedFeedbackCounts: boolean; // Feedback may predate startBlock, so indexes are read from the registry
+  private readonly blockRange: number;
+  private readonly confirmations: number;
+  private _data: LocalIndexData | undefined;
+  private _feedbackById = new Map<string, IndexedFeedback>(); // keyed by agentId|client|index
+  private _feedbackCounts = new Map<string, number>(); // keyed by agentId|client
+  private _syncing: Promise<number> | undefined;
+
+  constructor(
+    private sdk: FluidSDK,
+    options: LocalIndexerOptions = {},
+    private loadRegistrationFile?: (agentURI: string) => Promise<RegistrationFile>
+  ) {
+    this.store = options.store || new FileIndexStore(options.storePath || '.fluidsdk/index.json');
+    this.startBlock = options.startBlock;
+    this.seedFeedbackCounts = options.startBlock !== undefined && options.startBlock > 0;
+    this.blockRange = options.blockRange ?? 2000;
+    this.confirmations = options.confirmations ?? 0;
+  }
+
+  /**
+   * Last block included in the index
+   */
+  get lastIndexedBlock(): number | undefined {
+    return this._data?.lastBlock;
+  }
+
+  /**
+   * Bring the index up to the current head (concurrent calls share one sync)
+   * @returns Number of logs applied
+   */
+  async sync(): Promise<number> {
+    if (!this._syncing) {
+      this._syncing = this._sync().finally(() => {
+        this._syncing = undefined;
+      });
+    }
+    return this._syncing;
+  }
+
+  /**
+   * Get an agent summary from the index
+   */
+  async getAgent(agentId: AgentId): Promise<AgentSummary | undefined> {
+    const data = await this._load();
+    const { chainId, tokenId } = parseAgentId(agentId);
+    if (chainId !== data.chainId) {
+      return undefined;
+    }
+    const agent = data.agents[String(tokenId)];
+    return agent ? this._toSummary(data.chainId, agent) : undefined;
+  }
+
+  /**
+   * List all indexed agents in registration order
+   */
+  async listAgents(): Promise<AgentSummary[]> {
+    const data = await this._load();
+    return Object.values(data.agents)
+      .sort((a, b) => a.tokenId - b.tokenId)
+      .map((agent) => this._toSummary(data.chainId, agent));
+  }
+
+  /**
+   * Search indexed feedback (newest first)
+   */
+  async searchFeedback(params: SearchFeedbackParams): Promise<Feedback[]> {
+    const data = await this._load();
+    const agentIds = params.agents?.map(
+      (agentId) => agentId.includes(':') ? agentId : formatAgentId(data.chainId, parseInt(agentId, 10))
+    );
+    const reviewers = params.reviewers?.map((reviewer) => normalizeAddress(reviewer));
+
+    return data.feedback
+      .filter((feedback) => {
+        if (agentIds && agentIds.length > 0 && !agentIds.includes(feedback.agentId)) {
+          return false;
+        }
+        if (reviewers && reviewers.length > 0 && !reviewers.includes(normalizeAddress(feedback.reviewer))) {
+          return false;
+        }
+        if (!params.includeRevoked && feedback.isRevoked) {
+          return false;
+        }
+        if (params.tags && params.tags.length > 0 && !params.tags.some((tag) => feedback.tags.includes(tag))) {
+          return false;
+        }
+        if (params.capabilities && params.capabilities.length > 0 && !params.capabilities.includes(feedback.capability || '')) {
+          return false;
+        }
+        if (params.skills && params.skills.length > 0 && !params.skills.includes(feedback.skill || '')) {
+          return false;
+        }
+        if (params.tasks && params.tasks.length > 0 && !params.tasks.includes(feedback.task || '')) {
+          return false;
+        }
+        if (params.names && params.names.length > 0 && !params.names.includes(feedback.name || '')) {
+          return false;
+        }
+        if (params.minScore !== undefined && (feedback.score === undefined || feedback.score < params.minScore)) {
+          return false;
+        }
+        if (params.maxScore !== undefined && (feedback.score === undefined || feedback.score > params.maxScore)) {
+          return false;
+        }
+        return true;
+      })
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.createdAt - a.createdAt)
+      .map(({ blockNumber, ...feedback }) => feedback);
+  }
+
+  private async _load(): Promise<LocalIndexData> {
+    if (this._data) {
+      return this._data;
+    }
+
+    const chainId = await this.sdk.chainId();
+    const identityRegistry = this.sdk.getIdentityRegistry().target as string;
+    const stored = await this.store.load();
+
+    // Discard an index built for another chain or registry deployment
+    const data = stored && stored.chainId === chainId && stored.identityRegistry.toLowerCase() === identityRegistry.toLowerCase()
+      ? stored
+      : await this._emptyIndex(chainId, identityRegistry);
+    this._setData(data);
+    return data;
+  }
+
+  private async _emptyIndex(chainId: ChainId, identityRegistry: Address): Promise<LocalIndexData> {
+    if (this.startBlock === undefined) {
+      // Nothing can be logged before the registries exist
+      const registries = this.sdk.registries();
+      let blocks: number[];
+      try {
+        blocks = await Promise.all(
+          [registries.IDENTITY, registries.REPUTATION]
+            .filter((address): address is Address => !!address)
+            .map((address) => this.sdk.web3Client.getDeploymentBlock(address))
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Cannot pick a start block for the local index, set localIndex.startBlock: ${errorMessage}`);
+      }
+      this.startBlock = blocks.length > 0 ? Math.min(...blocks) : 0;
+    }
+    return {
+      version: 1,
+      chainId,
+      identityRegistry,
+      lastBlock: this.startBlock - 1,
+      agents: {},
+      feedback: [],
+    };
+  }
+
+  /**
+   * Replace the index contents and rebuild the feedback lookups from them
+   */
+  private _setData(data: LocalIndexData): void {
+    this._data = data;
+    this._feedbackById.clear();
+    this._feedbackCounts.clear();
+    for (const feedback of data.feedback) {
+      this._addFeedback(feedback);
+    }
+  }
+
+  private _addFeedback(feedback: IndexedFeedback): void {
+    const [agentId, clientAddress, feedbackIndex] = feedback.id;
+    this._feedbackById.set(`${agentId}|${clientAddress}|${feedbackIndex}`, feedback);
+    const countKey = `${agentId}|${clientAddress}`;
+    this._feedbackCounts.set(countKey, Math.max(this._feedbackCounts.get(countKey) ?? 0, feedbackIndex));
+  }
+
+  private async _sync(): Promise<number> {
+    let data = await this._load();
+    const head = (await this.sdk.web3Client.getBlockNumber()) - this.confirmations;
+
+    if (data.lastBlock > head) {
+      // Chain is behind the index (e.g. a local devnet was restarted) - rebuild
+      data = await this._emptyIndex(data.chainId, data.identityRegistry);
+      this._setData(data);
+    }
+
+    const identityRegistry = this.sdk.getIdentityRegistry();
+    const reputationRegistry = this.sdk.getReputationRegistry();
+    let applied = 0;
+
+    while (data.lastBlock < head) {
+      const fromBlock = data.lastBlock + 1;
+      const toBlock = Math.min(fromBlock + this.blockRange - 1, head);
+
+      const logs: ethers.Log[] = [];
+      for (const eventName of ['Registered', 'MetadataSet']) {
+        logs.push(...await this.sdk.web3Client.getEvents(identityRegistry, eventName, fromBlock, toBlock));
+      }
+      for (const eventName of ['NewFeedback', 'FeedbackRevoked']) {
+        logs.push(...await this.sdk.web3Client.getEvents(reputationRegistry, eventName, fromBlock, toBlock));
+      }
+      logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+      if (this.seedFeedbackCounts) {
+        await this._seedFeedbackCounts(data, logs, fromBlock);
+      }
+
+      const touched = new Set<string>();
+      const feedbackCount = data.feedback.length;
+      for (const log of logs) {
+        const tokenId = this._applyLog(data, log);
+        if (tokenId !== undefined) {
+          touched.add(tokenId);
+        }
+        applied++;
+      }
+
+      // Token URIs can change without an event, so re-resolve every agent seen in this range
+      for (const tokenId of touched) {
+        await this._refreshAgent(data, tokenId);
+      }
+      for (const feedback of data.feedback.slice(feedbackCount)) {
+        await hydrateFeedback(this.sdk, feedback);
+      }
+
+      data.lastBlock = toBlock;
+      await this.store.save(data);
+    }
+
+    return applied;
+  }
+
+  /**
+   * Count feedback given before fromBlock by clients first seen in this range: the registry's last index minus the
+   * feedback logged since fromBlock, read in the same block (NewFeedback does not carry its index)
+   */
+  private async _seedFeedbackCounts(data: LocalIndexData, logs: ethers.Log[], fromBlock: number): Promise<void> {
+    const reputationRegistry = this.sdk.getReputationRegistry();
+    for (const log of logs) {
+      const parsed = log.address.toLowerCase() === (reputationRegistry.target as string).toLowerCase()
+        ? reputationRegistry.interface.parseLog({ topics: [...log.topics], data: log.data })
+        : null;
+      if (!parsed || parsed.name !== 'NewFeedback') {
+        continue;
+      }
+      const tokenId: bigint = parsed.args.agentId;
+      const clientAddress: Address = parsed.args.clientAddress;
+      const countKey = `${formatAgentId(data.chainId, Number(tokenId))}|${clientAddress.toLowerCase()}`;
+      if (this._feedbackCounts.has(countKey)) {
+        continue;
+      }
+
+      let head: number;
+      let lastIndex: number;
+      let attempts = 0;
+      do {
+        head = await this.sdk.web3Client.getBlockNumber();
+        lastIndex = Number(await this.sdk.web3Client.callContract(reputationRegistry, 'getLastIndex', tokenId, clientAddress));
+      } while (head !== await this.sdk.web3Client.getBlockNumber() && ++attempts < 3);
+
+      let since = 0;
+      for (let from = fromBlock; from <= head; from += this.blockRange) {
+        const to = Math.min(from + this.blockRange - 1, head);
+        since += (await this.sdk.web3Client.getEvents(reputationRegistry, 'NewFeedback', from, to, [tokenId, clientAddress])).length;
+      }
+      this._feedbackCounts.set(countKey, Math.max(lastIndex - since, 0));
+    }
+  }
+
+  /**
+   * Apply one log to the index
+   * @returns tokenId of the agent whose identity data changed
+   */
+  private _applyLog(data: LocalIndexData, log: ethers.Log): string | undefined {
+    const registries = this.sdk.registries();
+    const contract = log.address.toLowerCase() === registries.IDENTITY?.toLowerCase()
+      ? this.sdk.getIdentityRegistry()
+      : this.sdk.getReputationRegistry();
+    const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) {
+      return undefined;
+    }
+
+    const tokenId = Number(parsed.args.agentId);
+    const key = String(tokenId);
+
+    switch (parsed.name) {
+      case 'Registered':
+        data.agents[key] = {
+          tokenId,
+          owner: parsed.args.owner,
+          agentURI: parsed.args.tokenURI,
+          metadata: {},
+          registeredBlock: log.blockNumber,
+        };
+        return key;
+      case 'MetadataSet': {
+        const agent = data.agents[key];
+        if (agent) {
+          let value: string;
+          try {
+            value = ethers.toUtf8String(parsed.args.value);
+          } catch {
+            value = parsed.args.value;
+          }
+          agent.metadata[parsed.args.key] = value;
+        }
+        return key;
+      }
+      case 'NewFeedback': {
+        const clientAddress: Address = parsed.args.clientAddress;
+        const agentId = formatAgentId(data.chainId, tokenId);
+        // Feedback indexes are per (agent, client) and start at 1
+        const feedbackIndex = (this._feedbackCounts.get(`${agentId}|${clientAddress.toLowerCase()}`) ?? 0) + 1;
+        const feedback: IndexedFeedback = {
+          id: [agentId, clientAddress.toLowerCase(), feedbackIndex],
+          agentId,
+          reviewer: clientAddress,
+          score: Number(parsed.args.score),
+          tags: this._bytes32ToTags(parsed.args.tag1, parsed.args.tag2),
+          fileURI: parsed.args.feedbackUri || undefined,
+          createdAt: Math.floor(Date.now() / 1000), // Approximate, block timestamps are not fetched
+          answers: [],
+          isRevoked: false,
+          feedbackHash: parsed.args.feedbackHash,
+          blockNumber: log.blockNumber,
+        };
+        data.feedback.push(feedback);
+        this._addFeedback(feedback);
+        return undefined;
+      }
+      case 'FeedbackRevoked': {
+        const agentId = formatAgentId(data.chainId, tokenId);
+        const clientAddress = (parsed.args.clientAddress as string).toLowerCase();
+        const feedbackIndex = Number(parsed.args.feedbackIndex);
+        const feedback = this._feedbackById.get(`${agentId}|${clientAddress}|${feedbackIndex}`);
+        if (feedback) {
+          feedback.isRevoked = true;
+        }
+        return undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Re-read owner and token URI and reload the registration file (soft fail)
+   */
+  private async _refreshAgent(data: LocalIndexData, tokenId: string): Promise<void> {
+    const agent = data.agents[tokenId];
+    if (!agent) {
+      return;
+    }
+
+    const identityRegistry = this.sdk.getIdentityRegistry();
+    try {
+      agent.owner = await this.sdk.web3Client.callContract(identityRegistry, 'ownerOf', BigInt(tokenId));
+      agent.agentURI = await this.sdk.web3Client.callContract(identityRegistry, 'tokenURI', BigInt(tokenId));
+    } catch {
+      // Keep the values from the logs
+    }
+
+    if (agent.agentURI && this.loadRegistrationFile) {
+      try {
+        agent.registrationFile = await this.loadRegistrationFile(agent.agentURI);
+      } catch {
+        // Unreachable file - agent stays indexed with on-chain data only
+      }
+    }
+  }
+
+  private _toSummary(chainId: ChainId, agent: IndexedAgent): AgentSummary {
+    const summary: AgentSummary = {
+      chainId,
+      agentId: formatAgentId(chainId, agent.tokenId),
+      name: '',
+      description: '',
+      owners: [agent.owner],
+      operators: agent.registrationFile?.operators || [],
+      mcp: false,
+      a2a: false,
+      supportedTrusts: [],
+      a2aSkills: [],
+      mcpTools: [],
+      mcpPrompts: [],
+      mcpResources: [],
+      active: false,
+      x402support: false,
+      extras: {},
+    };
+
+    if (agent.registrationFile) {
+      Object.assign(summary, registrationFileToSummary(agent.registrationFile));
+    }
+    for (const [key, value] of Object.entries(agent.metadata)) {
+      const fields = metadataToSummary(key, value);
+      const { extras, ...rest } = fields;
+      Object.assign(summary, rest);
+      Object.assign(summary.extras, extras);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Convert bytes32 tags back to strings
+   */
+  private _bytes32ToTags(tag1Bytes: string, tag2Bytes: string): string[] {
+    const tags: string[] = [];
+    for (const tagBytes of [tag1Bytes, tag2Bytes]) {
+      if (!tagBytes || tagBytes === ethers.ZeroHash) {
+        continue;
+      }
+      try {
+        const tag = ethers.toUtf8String(tagBytes).replace(/\0/g, '').trim();
+        if (tag) {
+          tags.push(tag);
+        }
+      } catch {
+        // If UTF-8 decode fails, skip this tag
+      }
+    }
+    return tags;
+  }
+}
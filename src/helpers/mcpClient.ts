@@ -0,0 +1,505 @@
+/**
+ * Model Context Protocol client over Streamable HTTP, with fallback to the legacy HTTP+SSE transport
+ * https://modelcontextprotocol.io/specification/2025-06-18/basic/transports
+ */
+
+import { readSseEvents, type SseEvent } from '../utils/sse.js';
+
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+// Upper bound on pages followed by the list*All helpers
+const MAX_PAGES = 100;
+
+export interface McpTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+  annotations?: Record<string, unknown>;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface McpContent {
+  type: string; // text, image, audio, resource_link, resource
+  [key: string]: unknown;
+}
+
+export interface McpToolResult {
+  content: McpContent[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface McpServerInfo {
+  protocolVersion: string;
+  capabilities: Record<string, any>;
+  serverInfo: { name: string; version: string; title?: string };
+  instructions?: string;
+}
+
+export interface McpClientOptions {
+  transport?: 'auto' | 'streamable-http' | 'sse'; // default: auto (Streamable HTTP, then legacy SSE)
+  timeout?: number; // ms per request (default: 30000)
+  headers?: Record<string, string>;
+  fetch?: typeof fetch; // e.g. createPaidFetch() for x402-gated servers
+  clientInfo?: { name: string; version: string };
+  onNotification?: (method: string, params: unknown) => void; // Progress, logging, list_changed, ...
+}
+
+/**
+ * JSON-RPC error returned by the server
+ */
+export class McpError extends Error {
+  readonly name = 'McpError';
+
+  constructor(message: string, readonly code: number, readonly data?: unknown) {
+    super(message);
+  }
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+class HttpStatusError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Client for one MCP server; connect() runs the initialize handshake and close() ends the session
+ */
+export class McpClient {
+  private readonly timeout: number;
+  private readonly fetch: typeof fetch;
+  private _transport: 'streamable-http' | 'sse' | undefined;
+  private _serverInfo: McpServerInfo | undefined;
+  private _connecting: Promise<McpServerInfo> | undefined;
+  private _sessionId: string | undefined;
+  private _nextId = 1;
+  // Legacy SSE transport state
+  private _stream: AbortController | undefined;
+  private _postUrl: string | undefined;
+  private readonly _pending = new Map<number, { resolve: (message: JsonRpcMessage) => void; reject: (error: Error) => void }>();
+
+  constructor(readonly url: string, private options: McpClientOptions = {}) {
+    if (!/^https?:\/\//.test(url)) {
+      throw new Error(`MCP endpoint must be an HTTP(S) URL, got: ${url}`);
+    }
+    this.timeout = options.timeout ?? 30000;
+    this.fetch = options.fetch ?? fetch;
+    if (options.transport && options.transport !== 'auto') {
+      this._transport = options.transport;
+    }
+  }
+
+  get serverInfo(): McpServerInfo | undefined {
+    return this._serverInfo;
+  }
+
+  get sessionId(): string | undefined {
+    return this._sessionId;
+  }
+
+  /**
+   * Run initialize / notifications/initialized (once)
+   */
+  async connect(): Promise<McpServerInfo> {
+    if (this._serverInfo) {
+      return this._serverInfo;
+    }
+    this._connecting ??= this._initialize().finally(() => {
+      this._connecting = undefined;
+    });
+    return this._connecting;
+  }
+
+  async listTools(cursor?: string): Promise<{ tools: McpTool[]; nextCursor?: string }> {
+    return this.request('tools/list', cursor ? { cursor } : {});
+  }
+
+  async listAllTools(): Promise<McpTool[]> {
+    return this._paginate((cursor) => this.listTools(cursor), 'tools');
+  }
+
+  async callTool(name: string, args: Record<string, unknown> = {}): Promise<McpToolResult> {
+    return this.request('tools/call', { name, arguments: args });
+  }
+
+  async listResources(cursor?: string): Promise<{ resources: McpResource[]; nextCursor?: string }> {
+    return this.request('resources/list', cursor ? { cursor } : {});
+  }
+
+  async listAllResources(): Promise<McpResource[]> {
+    return this._paginate((cursor) => this.listResources(cursor), 'resources');
+  }
+
+  async readResource(uri: string): Promise<{ contents: Array<{ uri: string; mimeType?: string; text?: string; blob?: string }> }> {
+    return this.request('resources/read', { uri });
+  }
+
+  async listPrompts(cursor?: string): Promise<{ prompts: McpPrompt[]; nextCursor?: string }> {
+    return this.request('prompts/list', cursor ? { cursor } : {});
+  }
+
+  async listAllPrompts(): Promise<McpPrompt[]> {
+    return this._paginate((cursor) => this.listPrompts(cursor), 'prompts');
+  }
+
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<{ description?: string; messages: Array<{ role: string; content: McpContent }> }> {
+    return this.request('prompts/get', { name, arguments: args });
+  }
+
+  /**
+   * Send a JSON-RPC request and return its result
+   * @throws McpError for JSON-RPC errors
+   */
+  async request<T = any>(method: string, params: Record<string, unknown> = {}): Promise<T> {
+    await this.connect();
+    try {
+      return await this._request<T>(method, params);
+    } catch (error) {
+      // The server dropped the session - start a new one and retry once
+      if (error instanceof HttpStatusError && error.status === 404 && this._sessionId) {
+        this._serverInfo = undefined;
+        this._sessionId = undefined;
+        await this.connect();
+        return this._request<T>(method, params);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a JSON-RPC notification
+   */
+  async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    const message: JsonRpcMessage = { jsonrpc: '2.0', method };
+    if (params) {
+      message.params = params;
+    }
+    await this._send(message);
+  }
+
+  /**
+   * End the session (DELETE for Streamable HTTP, close the stream for SSE)
+   */
+  async close(): Promise<void> {
+    if (this._transport === 'streamable-http' && this._sessionId) {
+      try {
+        await this.fetch(this.url, {
+          method: 'DELETE',
+          headers: this._headers(),
+          signal: AbortSignal.timeout(this.timeout),
+        });
+      } catch {
+        // Server may not support explicit termination
+      }
+    }
+    this._stream?.abort();
+    this._stream = undefined;
+    this._postUrl = undefined;
+    for (const pending of this._pending.values()) {
+      pending.reject(new Error('MCP connection closed'));
+    }
+    this._pending.clear();
+    this._sessionId = undefined;
+    this._serverInfo = undefined;
+  }
+
+  private async _initialize(): Promise<McpServerInfo> {
+    const params = {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: this.options.clientInfo ?? { name: 'fluidsdk', version: '1.0.0' },
+    };
+
+    let result: McpServerInfo;
+    if (this._transport === undefined) {
+      // Per the spec's backwards-compatibility rules: POST first, fall back to SSE on 4xx
+      this._transport = 'streamable-http';
+      try {
+        result = await this._request<McpServerInfo>('initialize', params);
+      } catch (error) {
+        if (!(error instanceof HttpStatusError) || error.status < 400 || error.status >= 500 || error.status === 402) {
+          this._transport = undefined;
+          throw error;
+        }
+        this._transport = 'sse';
+        result = await this._request<McpServerInfo>('initialize', params);
+      }
+    } else {
+      result = await this._request<McpServerInfo>('initialize', params);
+    }
+
+    this._serverInfo = result;
+    await this.notify('notifications/initialized');
+    return result;
+  }
+
+  private async _paginate<T>(
+    list: (cursor?: string) => Promise<{ nextCursor?: string } & Record<string, any>>,
+    key: string
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const result = await list(cursor);
+      items.push(...(result[key] as T[] || []));
+      cursor = result.nextCursor;
+      if (!cursor) {
+        break;
+      }
+    }
+    return items;
+  }
+
+  private async _request<T>(method: string, params: Record<string, unknown>): Promise<T> {
+    const id = this._nextId++;
+    const response = await this._send({ jsonrpc: '2.0', id, method, params });
+    if (!response) {
+      throw new Error(`MCP server sent no response to ${method}`);
+    }
+    if (response.error) {
+      throw new McpError(response.error.message, response.error.code, response.error.data);
+    }
+    return response.result as T;
+  }
+
+  /**
+   * Deliver a message and, for requests, wait for the matching response
+   */
+  private async _send(message: JsonRpcMessage): Promise<JsonRpcMessage | undefined> {
+    return this._transport === 'sse' ? this._sendSse(message) : this._sendStreamable(message);
+  }
+
+  private async _sendStreamable(message: JsonRpcMessage): Promise<JsonRpcMessage | undefined> {
+    const response = await this.fetch(this.url, {
+      method: 'POST',
+      headers: { ...this._headers(), 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this._sessionId = sessionId;
+    }
+    if (!response.ok) {
+      throw new HttpStatusError(response.status, `MCP request ${message.method} failed: HTTP ${response.status}`);
+    }
+    if (message.id === undefined || response.status === 202) {
+      await response.body?.cancel();
+      return undefined;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      if (!response.body) {
+        throw new Error(`MCP server sent an empty stream for ${message.method}`);
+      }
+      // Notifications and server requests may precede the response on the stream
+      for await (const event of readSseEvents(response.body)) {
+        for (const received of parseMessages(event.data)) {
+          if (received.id === message.id && received.method === undefined) {
+            return received;
+          }
+          await this._handleServerMessage(received);
+        }
+      }
+      throw new Error(`MCP stream ended without a response to ${message.method}`);
+    }
+
+    const messages = parseMessages(await response.text());
+    return messages.find((received) => received.id === message.id);
+  }
+
+  private async _sendSse(message: JsonRpcMessage): Promise<JsonRpcMessage | undefined> {
+    const postUrl = await this._openStream();
+    // Only our own requests get an answer; replies to server requests carry the server's id and are not awaited
+    const id = message.method !== undefined ? message.id : undefined;
+    const waiting = typeof id === 'number'
+      ? new Promise<JsonRpcMessage>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          this._pending.delete(id);
+          reject(new Error(`MCP request ${message.method} timed out after ${this.timeout}ms`));
+        }, this.timeout);
+        this._pending.set(id, {
+          resolve: (received) => {
+            clearTimeout(timer);
+            resolve(received);
+          },
+          reject: (error) => {
+            clearTimeout(timer);
+            reject(error);
+          },
+        });
+      })
+      : undefined;
+
+    try {
+      const response = await this.fetch(postUrl, {
+        method: 'POST',
+        headers: { ...this._headers(), 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+        signal: AbortSignal.timeout(this.timeout),
+      });
+      await response.body?.cancel();
+      if (!response.ok) {
+        throw new HttpStatusError(response.status, `MCP request ${message.method} failed: HTTP ${response.status}`);
+      }
+    } catch (error) {
+      if (typeof id === 'number') {
+        this._pending.get(id)?.reject(error instanceof Error ? error : new Error(String(error)));
+      }
+      throw error;
+    }
+    return waiting;
+  }
+
+  /**
+   * Open the legacy SSE stream and wait for its endpoint event
+   */
+  private async _openStream(): Promise<string> {
+    if (this._postUrl) {
+      return this._postUrl;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+    let response: Response;
+    try {
+      response = await this.fetch(this.url, {
+        method: 'GET',
+        headers: { ...this._headers(), Accept: 'text/event-stream' },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      clearTimeout(timer);
+      throw error;
+    }
+    if (!response.ok || !response.body) {
+      clearTimeout(timer);
+      throw new HttpStatusError(response.status, `MCP SSE stream failed: HTTP ${response.status}`);
+    }
+
+    // Iterate by hand - leaving a for-await loop would close the stream
+    const events = readSseEvents(response.body);
+    let postUrl: string | undefined;
+    try {
+      for (let next = await events.next(); !next.done; next = await events.next()) {
+        if (next.value.event === 'endpoint') {
+          postUrl = new URL(next.value.data.trim(), this.url).toString();
+          break;
+        }
+      }
+    } catch {
+      // Aborted by the timeout
+    }
+    clearTimeout(timer);
+    if (!postUrl) {
+      controller.abort();
+      throw new Error('MCP SSE stream closed before announcing its endpoint');
+    }
+
+    this._stream = controller;
+    this._postUrl = postUrl;
+    void this._pump(events);
+    return postUrl;
+  }
+
+  /**
+   * Dispatch messages from the legacy SSE stream until it closes
+   */
+  private async _pump(events: AsyncGenerator<SseEvent>): Promise<void> {
+    try {
+      for await (const event of events) {
+        if (event.event !== 'message') {
+          continue;
+        }
+        for (const received of parseMessages(event.data)) {
+          if (typeof received.id === 'number' && received.method === undefined) {
+            this._pending.get(received.id)?.resolve(received);
+            this._pending.delete(received.id);
+          } else {
+            await this._handleServerMessage(received);
+          }
+        }
+      }
+    } catch {
+      // Stream aborted or dropped
+    }
+    this._postUrl = undefined;
+    for (const pending of this._pending.values()) {
+      pending.reject(new Error('MCP SSE stream closed'));
+    }
+    this._pending.clear();
+  }
+
+  /**
+   * Pass notifications on; server-to-client requests (sampling, roots, ...) are declined
+   * The reply is sent without waiting, so the stream it arrived on keeps being read
+   */
+  private async _handleServerMessage(message: JsonRpcMessage): Promise<void> {
+    if (message.method === undefined) {
+      return;
+    }
+    if (message.id === undefined || message.id === null) {
+      this.options.onNotification?.(message.method, message.params);
+      return;
+    }
+    this._send({
+      jsonrpc: '2.0',
+      id: message.id,
+      error: { code: -32601, message: `Method not supported by client: ${message.method}` },
+    }).catch(() => {
+      // Best effort
+    });
+  }
+
+  private _headers(): Record<string, string> {
+    const headers: Record<string, string> = { ...this.options.headers };
+    if (this._sessionId) {
+      headers['Mcp-Session-Id'] = this._sessionId;
+    }
+    if (this._serverInfo) {
+      headers['MCP-Protocol-Version'] = this._serverInfo.protocolVersion;
+    }
+    return headers;
+  }
+}
+
+/**
+ * Parse a JSON-RPC message or batch
+ */
+function parseMessages(text: string): JsonRpcMessage[] {
+  if (!text.trim()) {
+    return [];
+  }
+  const parsed = JSON.parse(text) as JsonRpcMessage | JsonRpcMessage[];
+  return Array.isArray(parsed) ? parsed : [parsed];
+}
@@ -0,0 +1,527 @@
+/**
+ * In-memory ERC-8004 registry backend (identity, reputation, validation)
+ * Lets the whole SDK run without a chain, e.g. in unit tests
+ */
+
+import { ethers } from 'ethers';
+import type { Address } from '../types/common.js';
+import type { BackendLogFilter, RegistryBackend } from './registryBackend.js';
+import { MemoryIPFSStore } from './memoryIpfsStore.js';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const ZERO_BYTES32 = '0x' + '00'.repeat(32);
+
+// Encoded feedback auth: 7 ABI words followed by a 65-byte signature
+const FEEDBACK_AUTH_DATA_LENGTH = 7 * 32;
+const SIGNATURE_LENGTH = 65;
+
+type RegistryKind = 'IDENTITY' | 'REPUTATION' | 'VALIDATION';
+
+interface AgentRecord {
+  owner: Address;
+  tokenUri: string;
+  metadata: Map<string, string>;
+  approved: Address;
+}
+
+interface FeedbackRecord {
+  score: number;
+  tag1: string;
+  tag2: string;
+  isRevoked: boolean;
+  responses: Array<{ responder: Address; responseUri: string; responseHash: string }>;
+}
+
+interface ValidationRecord {
+  validatorAddress: Address;
+  agentId: bigint;
+  requestUri: string;
+  response: number;
+  responseUri: string;
+  responseHash: string;
+  tag: string;
+  lastUpdate: number;
+  hasResponse: boolean;
+}
+
+interface StoredLog {
+  address: Address;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: number;
+  index: number;
+  removed: boolean;
+}
+
+interface CallContext {
+  from: Address;
+  timestamp: number;
+  emit: (eventName: string, values: any[]) => void;
+}
+
+type Handler = (args: ethers.Result, ctx: CallContext) => any[] | void;
+
+/**
+ * Revert error mirroring what ethers surfaces for a failed call
+ */
+function revert(reason: string): never {
+  throw new Error(`execution reverted: "${reason}"`);
+}
+
+/**
+ * Registry backend that keeps all state in memory
+ */
+export class MemoryRegistryBackend implements RegistryBackend {
+  public readonly chainId: bigint;
+  public readonly storage = new MemoryIPFSStore(); // Files published through any SDK on this backend
+  private readonly addresses: Record<RegistryKind, Address>;
+
+  // Identity state
+  private agents = new Map<bigint, AgentRecord>();
+  private operatorApprovals = new Map<Address, Set<Address>>();
+  private nextAgentId = 1n;
+
+  // Reputation state (agentId -> client -> feedback list, 1-indexed on-chain)
+  private feedback = new Map<bigint, Map<Address, FeedbackRecord[]>>();
+
+  // Validation state
+  private validations = new Map<string, ValidationRecord>();
+  private agentValidations = new Map<bigint, string[]>();
+  private validatorRequests = new Map<Address, string[]>();
+
+  // Chain state
+  private blockNumber = 0;
+  private logs: StoredLog[] = [];
+  private receipts = new Map<string, ethers.ContractTransactionReceipt>();
+  private txCount = 0;
+
+  constructor(chainId: number = 31337, addresses?: Partial<Record<RegistryKind, Address>>) {
+    this.chainId = BigInt(chainId);
+    this.addresses = {
+      IDENTITY: ethers.getAddress(addresses?.IDENTITY || '0x8004000000000000000000000000000000000001'),
+      REPUTATION: ethers.getAddress(addresses?.REPUTATION || '0x8004000000000000000000000000000000000002'),
+      VALIDATION: ethers.getAddress(addresses?.VALIDATION || '0x8004000000000000000000000000000000000003'),
+    };
+  }
+
+  registryAddresses(): Record<string, Address> {
+    return { ...this.addresses };
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.blockNumber;
+  }
+
+  async call(target: Address, iface: ethers.Interface, methodName: string, args: any[], from?: Address): Promise<any> {
+    const { kind, fragment, decodedArgs } = this._resolve(target, iface, methodName, args);
+    if (!fragment.constant) {
+      // State-changing functions must go through transact()
+      throw new Error(`Method ${methodName} is not a view function`);
+    }
+
+    const handler = this._handlers()[`${kind}.${fragment.name}`];
+    if (!handler) {
+      throw new Error(`Method ${methodName} not supported by in-memory ${kind.toLowerCase()} registry`);
+    }
+
+    const outputs = handler(decodedArgs, {
+      from: from || ZERO_ADDRESS,
+      timestamp: Math.floor(Date.now() / 1000),
+      emit: () => revert('view functions cannot emit events'),
+    }) || [];
+
+    // Round-trip through the ABI so results look exactly like ethers.Contract results
+    const result = iface.decodeFunctionResult(fragment, iface.encodeFunctionResult(fragment, outputs));
+    return fragment.outputs.length === 1 ? result[0] : result;
+  }
+
+  async transact(target: Address, iface: ethers.Interface, methodName: string, args: any[], from: Address): Promise<string> {
+    const { kind, fragment, decodedArgs } = this._resolve(target, iface, methodName, args);
+    const handler = this._handlers()[`${kind}.${fragment.name}`];
+    if (!handler) {
+      throw new Error(`Method ${methodName} not supported by in-memory ${kind.toLowerCase()} registry`);
+    }
+
+    // Every transaction is mined in its own block
+    const blockNumber = this.blockNumber + 1;
+    const blockHash = ethers.keccak256(ethers.toUtf8Bytes(`block:${this.chainId}:${blockNumber}`));
+    const txHash = ethers.keccak256(ethers.toUtf8Bytes(`tx:${this.chainId}:${++this.txCount}:${from}`));
+    const pendingLogs: StoredLog[] = [];
+
+    handler(decodedArgs, {
+      from: ethers.getAddress(from),
+      timestamp: Math.floor(Date.now() / 1000),
+      emit: (eventName, values) => {
+        const { data, topics } = iface.encodeEventLog(eventName, values);
+        pendingLogs.push({
+          address: target,
+          topics,
+          data,
+          blockNumber,
+          blockHash,
+          transactionHash: txHash,
+          transactionIndex: 0,
+          index: pendingLogs.length,
+          removed: false,
+        });
+      },
+    });
+
+    // Handler did not revert - commit block, logs and receipt
+    this.blockNumber = blockNumber;
+    this.logs.push(...pendingLogs);
+    this.receipts.set(txHash, {
+      to: target,
+      from,
+      contractAddress: null,
+      hash: txHash,
+      index: 0,
+      blockHash,
+      blockNumber,
+      logsBloom: '0x' + '00'.repeat(256),
+      gasUsed: 0n,
+      cumulativeGasUsed: 0n,
+      gasPrice: 0n,
+      type: 2,
+      status: 1,
+      root: null,
+      logs: pendingLogs.map((log) => ({ ...log })),
+    } as unknown as ethers.ContractTransactionReceipt);
+
+    return txHash;
+  }
+
+  async waitForTransaction(txHash: string): Promise<ethers.ContractTransactionReceipt> {
+    const receipt = this.receipts.get(txHash);
+    if (!receipt) {
+      throw new Error(`Unknown transaction ${txHash}`);
+    }
+    return receipt;
+  }
+
+  async getLogs(filter: BackendLogFilter): Promise<ethers.Log[]> {
+    const toBlock = filter.toBlock ?? this.blockNumber;
+    const address = filter.address.toLowerCase();
+
+    const matches = this.logs.filter((log) => {
+      if (log.address.toLowerCase() !== address) return false;
+      if (log.blockNumber < filter.fromBlock || log.blockNumber > toBlock) return false;
+      return filter.topics.every((topic, i) => {
+        if (topic === null || topic === undefined) return true;
+        const logTopic = (log.topics[i] || '').toLowerCase();
+        return Array.isArray(topic)
+          ? topic.some((t) => t.toLowerCase() === logTopic)
+          : topic.toLowerCase() === logTopic;
+      });
+    });
+
+    return matches.map((log) => ({ ...log })) as unknown as ethers.Log[];
+  }
+
+  /**
+   * Resolve the registry kind and function fragment, normalizing args through the ABI
+   */
+  private _resolve(target: Address, iface: ethers.Interface, methodName: string, args: any[]) {
+    const kind = (Object.keys(this.addresses) as RegistryKind[]).find(
+      (k) => this.addresses[k].toLowerCase() === target.toLowerCase()
+    );
+    if (!kind) {
+      throw new Error(`No in-memory registry deployed at ${target}`);
+    }
+
+    // Pick the overload (e.g. register) by argument count; Interface.getFunction would also
+    // accept a trailing object as transaction overrides and report register(string) as ambiguous
+    const overloads = iface.fragments.filter(
+      (f): f is ethers.FunctionFragment => f.type === 'function' && (f as ethers.FunctionFragment).name === methodName
+    );
+    const exact = overloads.filter((f) => f.inputs.length === args.length);
+    const fragment = exact.length === 1 ? exact[0] : iface.getFunction(methodName, args);
+    if (!fragment) {
+      throw new Error(`Method ${methodName} not found on contract`);
+    }
+    const decodedArgs = iface.decodeFunctionData(fragment, iface.encodeFunctionData(fragment, args));
+
+    return { kind, fragment, decodedArgs };
+  }
+
+  private _handlers(): Record<string, Handler> {
+    return {
+      // Identity registry
+      'IDENTITY.register': (args, ctx) => this._register(ctx, args.length > 0 ? args[0] : '', args.length > 1 ? args[1] : []),
+      'IDENTITY.setMetadata': ([agentId, key, value], ctx) => {
+        this._requireAuthorized(agentId, ctx.from);
+        this._agent(agentId).metadata.set(key, value);
+        ctx.emit('MetadataSet', [agentId, key, key, value]);
+      },
+      'IDENTITY.getMetadata': ([agentId, key]) => [this._agent(agentId).metadata.get(key) || '0x'],
+      'IDENTITY.setAgentUri': ([agentId, newUri], ctx) => {
+        this._requireAuthorized(agentId, ctx.from);
+        this._agent(agentId).tokenUri = newUri;
+      },
+      'IDENTITY.setTokenURI': ([agentId, newUri], ctx) => {
+        this._requireAuthorized(agentId, ctx.from);
+        this._agent(agentId).tokenUri = newUri;
+      },
+      'IDENTITY.tokenURI': ([agentId]) => [this._agent(agentId).tokenUri],
+      'IDENTITY.ownerOf': ([agentId]) => [this._agent(agentId).owner],
+      'IDENTITY.getApproved': ([agentId]) => [this._agent(agentId).approved],
+      'IDENTITY.isApprovedForAll': ([owner, operator]) => [this._isOperator(owner, operator)],
+      'IDENTITY.approve': ([to, agentId], ctx) => {
+        const agent = this._agent(agentId);
+        if (agent.owner !== ctx.from && !this._isOperator(agent.owner, ctx.from)) {
+          revert('ERC721InvalidApprover');
+        }
+        agent.approved = ethers.getAddress(to);
+      },
+      'IDENTITY.setApprovalForAll': ([operator, approved], ctx) => {
+        const operators = this.operatorApprovals.get(ctx.from) || new Set<Address>();
+        if (approved) {
+          operators.add(ethers.getAddress(operator));
+        } else {
+          operators.delete(ethers.getAddress(operator));
+        }
+        this.operatorApprovals.set(ctx.from, operators);
+      },
+      'IDENTITY.transferFrom': ([from, to, agentId], ctx) => {
+        const agent = this._agent(agentId);
+        if (agent.owner !== ethers.getAddress(from)) {
+          revert('ERC721IncorrectOwner');
+        }
+        if (ethers.getAddress(to) === ZERO_ADDRESS) {
+          revert('ERC721InvalidReceiver');
+        }
+        this._requireAuthorized(agentId, ctx.from);
+        agent.owner = ethers.getAddress(to);
+        agent.approved = ZERO_ADDRESS;
+      },
+
+      // Reputation registry
+      'REPUTATION.getIdentityRegistry': () => [this.addresses.IDENTITY],
+      'REPUTATION.giveFeedback': ([agentId, score, tag1, tag2, feedbackUri, feedbackHash, feedbackAuth], ctx) => {
+        const agent = this._agent(agentId);
+        if (Number(score) > 100) {
+          revert('score>100');
+        }
+        if (this._isAuthorized(agent, ctx.from)) {
+          revert('Self-feedback not allowed');
+        }
+
+        const clientFeedback = this._clientFeedback(agentId, ctx.from);
+        this._verifyFeedbackAuth(agentId, ctx, feedbackAuth, clientFeedback.length);
+
+        clientFeedback.push({ score: Number(score), tag1, tag2, isRevoked: false, responses: [] });
+        ctx.emit('NewFeedback', [agentId, ctx.from, score, tag1, tag2, feedbackUri, feedbackHash]);
+      },
+      'REPUTATION.revokeFeedback': ([agentId, feedbackIndex], ctx) => {
+        const record = this._feedbackRecord(agentId, ctx.from, feedbackIndex);
+        if (record.isRevoked) {
+          revert('Already revoked');
+        }
+        record.isRevoked = true;
+        ctx.emit('FeedbackRevoked', [agentId, ctx.from, feedbackIndex]);
+      },
+      'REPUTATION.appendResponse': ([agentId, clientAddress, feedbackIndex, responseUri, responseHash], ctx) => {
+        const record = this._feedbackRecord(agentId, clientAddress, feedbackIndex);
+        record.responses.push({ responder: ctx.from, responseUri, responseHash });
+      },
+      'REPUTATION.getLastIndex': ([agentId, clientAddress]) => [
+        this.feedback.get(agentId)?.get(ethers.getAddress(clientAddress))?.length || 0,
+      ],
+      'REPUTATION.readFeedback': ([agentId, clientAddress, index]) => {
+        const record = this._feedbackRecord(agentId, clientAddress, index);
+        return [record.score, record.tag1, record.tag2, record.isRevoked];
+      },
+      'REPUTATION.getClients': ([agentId]) => [Array.from(this.feedback.get(agentId)?.keys() || [])],
+      'REPUTATION.getSummary': ([agentId, clientAddresses, tag1, tag2]) => {
+        const byClient = this.feedback.get(agentId) || new Map<Address, FeedbackRecord[]>();
+        const clients = clientAddresses.length > 0
+          ? Array.from(clientAddresses as string[]).map((c) => ethers.getAddress(c))
+          : Array.from(byClient.keys());
+
+        let count = 0;
+        let total = 0;
+        for (const client of clients) {
+          for (const record of byClient.get(client) || []) {
+            if (record.isRevoked) continue;
+            if (tag1 !== ZERO_BYTES32 && record.tag1 !== tag1) continue;
+            if (tag2 !== ZERO_BYTES32 && record.tag2 !== tag2) continue;
+            count++;
+            total += record.score;
+          }
+        }
+        return [count, count > 0 ? Math.floor(total / count) : 0];
+      },
+
+      // Validation registry
+      'VALIDATION.getIdentityRegistry': () => [this.addresses.IDENTITY],
+      'VALIDATION.validationRequest': ([validatorAddress, agentId, requestUri, requestHash], ctx) => {
+        this._requireAuthorized(agentId, ctx.from);
+        if (this.validations.has(requestHash)) {
+          revert('exists');
+        }
+        const validator = ethers.getAddress(validatorAddress);
+        this.validations.set(requestHash, {
+          validatorAddress: validator,
+          agentId,
+          requestUri,
+          response: 0,
+          responseUri: '',
+          responseHash: ZERO_BYTES32,
+          tag: ZERO_BYTES32,
+          lastUpdate: ctx.timestamp,
+          hasResponse: false,
+        });
+        this.agentValidations.set(agentId, [...(this.agentValidations.get(agentId) || []), requestHash]);
+        this.validatorRequests.set(validator, [...(this.validatorRequests.get(validator) || []), requestHash]);
+        ctx.emit('ValidationRequest', [validator, agentId, requestUri, requestHash]);
+      },
+      'VALIDATION.validationResponse': ([requestHash, response, responseUri, responseHash, tag], ctx) => {
+        const record = this._validation(requestHash);
+        if (record.validatorAddress !== ctx.from) {
+          revert('not validator');
+        }
+        if (Number(response) > 100) {
+          revert('resp>100');
+        }
+        Object.assign(record, {
+          response: Number(response),
+          responseUri,
+          responseHash,
+          tag,
+          lastUpdate: ctx.timestamp,
+          hasResponse: true,
+        });
+        ctx.emit('ValidationResponse', [record.validatorAddress, record.agentId, requestHash, response, responseUri, responseHash, tag]);
+      },
+      'VALIDATION.getValidationStatus': ([requestHash]) => {
+        const record = this._validation(requestHash);
+        return [record.validatorAddress, record.agentId, record.response, record.tag, record.lastUpdate];
+      },
+      'VALIDATION.getSummary': ([agentId, validatorAddresses, tag]) => {
+        const validators = new Set(Array.from(validatorAddresses as string[]).map((v) => ethers.getAddress(v)));
+        let count = 0;
+        let total = 0;
+        for (const hash of this.agentValidations.get(agentId) || []) {
+          const record = this.validations.get(hash);
+          if (!record || !record.hasResponse) continue;
+          if (validators.size > 0 && !validators.has(record.validatorAddress)) continue;
+          if (tag !== ZERO_BYTES32 && record.tag !== tag) continue;
+          count++;
+          total += record.response;
+        }
+        return [count, count > 0 ? Math.floor(total / count) : 0];
+      },
+      'VALIDATION.getAgentValidations': ([agentId]) => [this.agentValidations.get(agentId) || []],
+      'VALIDATION.getValidatorRequests': ([validatorAddress]) => [
+        this.validatorRequests.get(ethers.getAddress(validatorAddress)) || [],
+      ],
+    };
+  }
+
+  private _register(ctx: CallContext, tokenUri: string, metadata: Array<{ key: string; value: string }>): void {
+    const agentId = this.nextAgentId++;
+    this.agents.set(agentId, {
+      owner: ctx.from,
+      tokenUri,
+      metadata: new Map(),
+      approved: ZERO_ADDRESS,
+    });
+    ctx.emit('Registered', [agentId, tokenUri, ctx.from]);
+
+    for (const entry of metadata) {
+      this._agent(agentId).metadata.set(entry.key, entry.value);
+      ctx.emit('MetadataSet', [agentId, entry.key, entry.key, entry.value]);
+    }
+  }
+
+  /**
+   * Verify a feedback auth blob the same way the reputation registry does
+   */
+  private _verifyFeedbackAuth(agentId: bigint, ctx: CallContext, feedbackAuth: string, lastIndex: number): void {
+    const authBytes = ethers.getBytes(feedbackAuth);
+    if (authBytes.length < FEEDBACK_AUTH_DATA_LENGTH + SIGNATURE_LENGTH) {
+      revert('Invalid feedbackAuth');
+    }
+
+    const authData = authBytes.slice(0, FEEDBACK_AUTH_DATA_LENGTH);
+    const signature = authBytes.slice(FEEDBACK_AUTH_DATA_LENGTH, FEEDBACK_AUTH_DATA_LENGTH + SIGNATURE_LENGTH);
+    const [authAgentId, clientAddress, indexLimit, expiry, chainId, identityRegistry, signerAddress] =
+      ethers.AbiCoder.defaultAbiCoder().decode(
+        ['uint256', 'address', 'uint64', 'uint256', 'uint256', 'address', 'address'],
+        authData
+      );
+
+    if (authAgentId !== agentId) revert('agentId mismatch');
+    if (ethers.getAddress(clientAddress) !== ctx.from) revert('client mismatch');
+    if (BigInt(ctx.timestamp) >= expiry) revert('Auth expired');
+    if (chainId !== this.chainId) revert('chainId mismatch');
+    if (ethers.getAddress(identityRegistry) !== this.addresses.IDENTITY) revert('registry mismatch');
+    if (indexLimit <= BigInt(lastIndex)) revert('IndexLimit exceeded');
+
+    const messageHash = ethers.keccak256(authData);
+    const recovered = ethers.verifyMessage(ethers.getBytes(messageHash), ethers.hexlify(signature));
+    if (recovered !== ethers.getAddress(signerAddress)) {
+      revert('Invalid signature');
+    }
+    if (!this._isAuthorized(this._agent(agentId), recovered)) {
+      revert('Signer not authorized');
+    }
+  }
+
+  private _agent(agentId: bigint): AgentRecord {
+    const agent = this.agents.get(agentId);
+    if (!agent) {
+      revert('ERC721NonexistentToken');
+    }
+    return agent;
+  }
+
+  private _isOperator(owner: Address, operator: Address): boolean {
+    return this.operatorApprovals.get(ethers.getAddress(owner))?.has(ethers.getAddress(operator)) || false;
+  }
+
+  private _isAuthorized(agent: AgentRecord, address: Address): boolean {
+    return agent.owner === address || agent.approved === address || this._isOperator(agent.owner, address);
+  }
+
+  private _requireAuthorized(agentId: bigint, address: Address): void {
+    if (!this._isAuthorized(this._agent(agentId), address)) {
+      revert('Not authorized');
+    }
+  }
+
+  private _clientFeedback(agentId: bigint, clientAddress: Address): FeedbackRecord[] {
+    let byClient = this.feedback.get(agentId);
+    if (!byClient) {
+      byClient = new Map();
+      this.feedback.set(agentId, byClient);
+    }
+    const client = ethers.getAddress(clientAddress);
+    let list = byClient.get(client);
+    if (!list) {
+      list = [];
+      byClient.set(client, list);
+    }
+    return list;
+  }
+
+  private _feedbackRecord(agentId: bigint, clientAddress: Address, feedbackIndex: bigint): FeedbackRecord {
+    const list = this.feedback.get(agentId)?.get(ethers.getAddress(clientAddress)) || [];
+    const record = feedbackIndex > 0n ? list[Number(feedbackIndex) - 1] : undefined;
+    if (!record) {
+      revert('index out of bounds');
+    }
+    return record;
+  }
+
+  private _validation(requestHash: string): ValidationRecord {
+    const record = this.validations.get(requestHash);
+    if (!record) {
+      revert('unknown');
+    }
+    return record;
+  }
+}
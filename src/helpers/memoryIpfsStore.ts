@@ -0,0 +1,61 @@
+/**
+ * In-memory IPFS store used in place of Pinata when running offline
+ */
+
+import type { StorageProvider } from './storageProvider.js';
+import { computeRawCid } from '../utils/cid.js';
+
+/**
+ * Content-addressed store kept in memory; CIDs are real CIDv1 (raw, sha2-256)
+ */
+export class MemoryIPFSStore implements StorageProvider {
+  private contents = new Map<string, Uint8Array>();
+  private pinned = new Set<string>();
+
+  /**
+   * Store content and return its CID (content is pinned on add, like Pinata uploads)
+   */
+  async add(data: string | Uint8Array): Promise<string> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    const cid = computeRawCid(bytes);
+    this.contents.set(cid, bytes);
+    this.pinned.add(cid);
+    return cid;
+  }
+
+  async addJson(data: Record<string, unknown>): Promise<string> {
+    return this.add(JSON.stringify(data));
+  }
+
+  /**
+   * Get content by CID
+   */
+  async get(cid: string): Promise<string> {
+    const data = this.contents.get(cid);
+    if (data === undefined) {
+      throw new Error(`CID not found in memory store: ${cid}`);
+    }
+    return new TextDecoder().decode(data);
+  }
+
+  has(cid: string): boolean {
+    return this.contents.has(cid);
+  }
+
+  async pin(cid: string): Promise<{ pinned: string[] }> {
+    if (!this.contents.has(cid)) {
+      throw new Error(`CID not found in memory store: ${cid}`);
+    }
+    this.pinned.add(cid);
+    return { pinned: [cid] };
+  }
+
+  /**
+   * Unpin a CID - unpinned content is dropped immediately (no GC delay)
+   */
+  async unpin(cid: string): Promise<{ unpinned: string[] }> {
+    this.pinned.delete(cid);
+    this.contents.delete(cid);
+    return { unpinned: [cid] };
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * fetch wrapper that answers HTTP 402 responses with an x402 payment (used for MCP calls)
+ */
+
+import type { Signer } from 'x402-axios';
+import { createPaymentHeader, selectPaymentRequirements } from 'x402/client';
+import { ChainIdToNetwork, PaymentRequirementsSchema, evm, isMultiNetworkSigner, isSvmSignerWallet } from 'x402/types';
+import type { PaymentContext, PaymentPolicy, PaymentRequirements } from './paymentPolicy.js';
+import { decodePaymentReceipt, type PaymentReceipt } from './paymentReceipt.js';
+
+export interface PaidFetchOptions {
+  signer: Signer;
+  policy?: PaymentPolicy | undefined; // Checked before anything is signed
+  context: Omit<PaymentContext, 'signer'>;
+  onPayment?: (paid: PaymentRequirements, receipt: PaymentReceipt | undefined) => void;
+  onSign?: (paid: PaymentRequirements) => void; // Payment signed; called before the paid request is sent
+}
+
+/**
+ * Wrap fetch so a 402 response is paid once and the request retried with the X-PAYMENT header
+ * Request bodies must be replayable (strings or buffers, not streams)
+ */
+export function createPaidFetch(options: PaidFetchOptions, baseFetch: typeof fetch = fetch): typeof fetch {
+  const { signer, policy, context, onPayment, onSign } = options;
+
+  return async (input, init) => {
+    const response = await baseFetch(input, init);
+    if (response.status !== 402) {
+      return response;
+    }
+
+    let x402Version: number;
+    let requirements: PaymentRequirements[];
+    try {
+      const body = await response.json() as { x402Version: number; accepts: unknown[] };
+      x402Version = body.x402Version;
+      requirements = body.accepts.map((accept) => PaymentRequirementsSchema.parse(accept));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid x402 payment requirements: ${errorMessage}`);
+    }
+
+    const authorization = policy ? await policy.authorize({ signer, ...context }, requirements) : undefined;
+    try {
+      const paid = selectPaymentRequirements(authorization?.requirements ?? requirements, signerNetwork(signer), 'exact');
+      const headers = new Headers(init?.headers);
+      headers.set('X-PAYMENT', await createPaymentHeader(signer, x402Version, paid));
+      headers.set('Access-Control-Expose-Headers', 'X-PAYMENT-RESPONSE');
+      onSign?.(paid);
+
+      let retry: Response;
+      try {
+        retry = await baseFetch(input, { ...init, headers });
+      } catch (error) {
+        // The signed payment may have reached the server - settlement is unknown, so count it as spent
+        await authorization?.commit(paid);
+        throw error;
+      }
+      if (retry.status === 402) {
+        // Payment rejected - nothing was settled
+        authorization?.release();
+        return retry;
+      }
+      // Any other status may have settled (x402 servers settle before or after the handler), so count it as spent
+      await authorization?.commit(paid);
+      if (!retry.ok) {
+        return retry;
+      }
+      const rawHeader = retry.headers.get('x-payment-response');
+      onPayment?.(paid, rawHeader ? decodePaymentReceipt(rawHeader, paid) : undefined);
+      return retry;
+    } catch (error) {
+      authorization?.release();
+      throw error;
+    }
+  };
+}
+
+/**
+ * Networks the signer can pay on (same rules as x402-axios)
+ */
+function signerNetwork(signer: Signer): PaymentRequirements['network'] | PaymentRequirements['network'][] | undefined {
+  if (isMultiNetworkSigner(signer)) {
+    return undefined;
+  }
+  const evmSigner = signer as Parameters<typeof evm.isSignerWallet>[0];
+  if (evm.isSignerWallet(evmSigner)) {
+    const chainId = evmSigner.chain?.id;
+    return chainId !== undefined ? ChainIdToNetwork[chainId] : undefined;
+  }
+  if (isSvmSignerWallet(signer)) {
+    return ['solana', 'solana-devnet'];
+  }
+  return undefined;
+}
@@ -0,0 +1,363 @@
+/**
+ * Spending limits for x402 payments made by ExecuteTask
+ */
+
+import type { Signer } from 'x402-axios';
+import type { PaymentRequirements } from 'x402/types';
+
+export type { PaymentRequirements };
+
+/**
+ * Amount in the asset's atomic units (e.g. 1000000 = 1 USDC)
+ */
+export type PaymentAmount = bigint | number | string;
+
+export type BudgetExceededReason =
+  | 'maxPerCall'
+  | 'maxPerAgent'
+  | 'maxPerTool'
+  | 'dailyBudget'
+  | 'agentNotAllowed'
+  | 'assetNotAllowed'
+  | 'networkNotAllowed';
+
+/**
+ * Thrown before signing when no payment option offered by the server fits the policy
+ */
+export class BudgetExceeded extends Error {
+  readonly name = 'BudgetExceeded';
+
+  constructor(
+    message: string,
+    readonly reason: BudgetExceededReason,
+    readonly requirements: PaymentRequirements[],
+    readonly amount?: bigint,
+    readonly limit?: bigint
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A payment charged against the daily budget
+ */
+export interface SpendRecord {
+  signer: string; // Lowercase payer address
+  amount: string; // Atomic units
+  asset: string;
+  network: string;
+  timestamp: number; // Unix seconds
+  agentId?: string | undefined;
+  tool?: string | undefined;
+}
+
+/**
+ * Persists spend records so daily budgets survive restarts
+ */
+export interface SpendStore {
+  load(): Promise<SpendRecord[]>;
+  save(records: SpendRecord[]): Promise<void>;
+}
+
+export interface PaymentPolicyConfig {
+  maxPerCall?: PaymentAmount; // Ceiling for any single payment
+  maxPerAgent?: Record<string, PaymentAmount>; // Per-call ceiling by AgentId
+  maxPerTool?: Record<string, PaymentAmount>; // Per-call ceiling by endpoint path
+  dailyBudget?: PaymentAmount | Record<string, PaymentAmount>; // Rolling 24h total per signer and asset; a map is keyed by token address (assets not in it get no budget)
+  allowAgents?: string[];
+  denyAgents?: string[];
+  allowAssets?: string[]; // Token addresses (case-insensitive)
+  denyAssets?: string[];
+  allowNetworks?: string[]; // x402 network names, e.g. 'base', 'base-sepolia'
+  denyNetworks?: string[];
+  spendStore?: SpendStore;
+  spendStorePath?: string; // Used for a FileSpendStore when no spendStore is given
+}
+
+/**
+ * What is being paid for
+ */
+export interface PaymentContext {
+  signer: Signer;
+  tool: string; // Endpoint path
+  agentId?: string | undefined;
+  maxAmount?: PaymentAmount | undefined; // Ceiling for this payment alone (e.g. a routed call's maxPrice)
+}
+
+/**
+ * Payment options accepted by the policy; the budget is reserved until commit() or release()
+ */
+export interface PaymentAuthorization {
+  requirements: PaymentRequirements[];
+  commit(paid: PaymentRequirements): Promise<void>;
+  release(): void;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Spend store backed by a JSON file
+ */
+export class FileSpendStore implements SpendStore {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<SpendRecord[]> {
+    try {
+      const fs = await import('fs/promises');
+      const content = await fs.readFile(this.filePath, 'utf8');
+      const data = JSON.parse(content) as { records?: unknown };
+      return Array.isArray(data.records) ? data.records as SpendRecord[] : [];
+    } catch {
+      // Missing or unreadable store - start fresh
+      return [];
+    }
+  }
+
+  async save(records: SpendRecord[]): Promise<void> {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated store
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify({ records }));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * In-memory spend store (budgets reset with the process)
+ */
+export class MemorySpendStore implements SpendStore {
+  private records: SpendRecord[] = [];
+
+  async load(): Promise<SpendRecord[]> {
+    return [...this.records];
+  }
+
+  async save(records: SpendRecord[]): Promise<void> {
+    this.records = [...records];
+  }
+}
+
+/**
+ * Checks 402 payment requirements against spending limits before anything is signed
+ */
+export class PaymentPolicy {
+  private readonly maxPerCall?: bigint | undefined;
+  private readonly maxPerAgent: Map<string, bigint>;
+  private readonly maxPerTool: Map<string, bigint>;
+  private readonly dailyBudget?: bigint | Map<string, bigint> | undefined; // Map keyed by lowercase asset
+  private readonly spendStore: SpendStore;
+  // Budget held by payments that are authorized but not settled yet, per signer and asset
+  private readonly reserved = new Map<string, bigint>();
+  // Spend store writes run one at a time so concurrent commits do not drop records
+  private _writes: Promise<void> = Promise.resolve();
+
+  constructor(private config: PaymentPolicyConfig = {}) {
+    this.maxPerCall = config.maxPerCall !== undefined ? toAmount(config.maxPerCall) : undefined;
+    this.maxPerAgent = new Map(Object.entries(config.maxPerAgent || {}).map(([key, value]) => [key, toAmount(value)]));
+    this.maxPerTool = new Map(Object.entries(config.maxPerTool || {}).map(([key, value]) => [key, toAmount(value)]));
+    if (typeof config.dailyBudget === 'object') {
+      this.dailyBudget = new Map(
+        Object.entries(config.dailyBudget).map(([asset, value]) => [asset.toLowerCase(), toAmount(value)])
+      );
+    } else {
+      this.dailyBudget = config.dailyBudget !== undefined ? toAmount(config.dailyBudget) : undefined;
+    }
+    this.spendStore = config.spendStore
+      || (config.spendStorePath ? new FileSpendStore(config.spendStorePath) : new MemorySpendStore());
+  }
+
+  /**
+   * Filter the server's payment options down to those the policy allows and reserve budget for them
+   * @throws BudgetExceeded if none is allowed
+   */
+  async authorize(context: PaymentContext, requirements: PaymentRequirements[]): Promise<PaymentAuthorization> {
+    const { agentId, tool } = context;
+    if (agentId !== undefined ? !this._listed(agentId, this.config.allowAgents, this.config.denyAgents) : this.config.allowAgents) {
+      throw new BudgetExceeded(`Payments to agent ${agentId ?? '(unknown)'} are not allowed`, 'agentNotAllowed', requirements);
+    }
+
+    const maxAmount = context.maxAmount !== undefined ? toAmount(context.maxAmount) : undefined;
+    const signer = signerAddress(context.signer);
+    const spent = this.dailyBudget !== undefined ? await this._spentByAsset(signer) : new Map<string, bigint>();
+    const remaining = (asset: string): bigint | undefined => {
+      const budget = this._dailyBudgetFor(asset);
+      return budget !== undefined
+        ? budget - (spent.get(asset.toLowerCase()) || 0n) - (this.reserved.get(reserveKey(signer, asset)) || 0n)
+        : undefined;
+    };
+
+    // Keep the reason of the first rejected option for the error
+    let rejection: BudgetExceeded | undefined;
+    const reject = (error: BudgetExceeded): false => {
+      rejection ??= error;
+      return false;
+    };
+
+    const allowed = requirements.filter((requirement) => {
+      const amount = BigInt(requirement.maxAmountRequired);
+      if (!this._listed(requirement.network, this.config.allowNetworks, this.config.denyNetworks)) {
+        return reject(new BudgetExceeded(`Payments on ${requirement.network} are not allowed`, 'networkNotAllowed', requirements));
+      }
+      if (!this._listed(requirement.asset, this.config.allowAssets, this.config.denyAssets)) {
+        return reject(new BudgetExceeded(`Payments in asset ${requirement.asset} are not allowed`, 'assetNotAllowed', requirements));
+      }
+      if (this.maxPerCall !== undefined && amount > this.maxPerCall) {
+        return reject(new BudgetExceeded(
+          `Price ${amount} exceeds the per-call limit of ${this.maxPerCall}`, 'maxPerCall', requirements, amount, this.maxPerCall
+        ));
+      }
+      if (maxAmount !== undefined && amount > maxAmount) {
+        return reject(new BudgetExceeded(
+          `Price ${amount} exceeds the limit of ${maxAmount} for this call`, 'maxPerCall', requirements, amount, maxAmount
+        ));
+      }
+      const agentLimit = agentId !== undefined ? this.maxPerAgent.get(agentId) : undefined;
+      if (agentLimit !== undefined && amount > agentLimit) {
+        return reject(new BudgetExceeded(
+          `Price ${amount} exceeds the limit of ${agentLimit} for agent ${agentId}`, 'maxPerAgent', requirements, amount, agentLimit
+        ));
+      }
+      const toolLimit = this.maxPerTool.get(tool);
+      if (toolLimit !== undefined && amount > toolLimit) {
+        return reject(new BudgetExceeded(
+          `Price ${amount} exceeds the limit of ${toolLimit} for ${tool}`, 'maxPerTool', requirements, amount, toolLimit
+        ));
+      }
+      const left = remaining(requirement.asset);
+      if (left !== undefined && amount > left) {
+        return reject(new BudgetExceeded(
+          `Price ${amount} exceeds the remaining daily budget of ${left < 0n ? 0n : left} for asset ${requirement.asset}`,
+          'dailyBudget', requirements, amount, this._dailyBudgetFor(requirement.asset)
+        ));
+      }
+      return true;
+    });
+
+    if (allowed.length === 0) {
+      throw rejection || new Error('Server offered no payment options');
+    }
+
+    // Hold the most expensive allowed option of each asset until the server's choice is known
+    const holds = new Map<string, bigint>();
+    for (const requirement of allowed) {
+      const key = reserveKey(signer, requirement.asset);
+      const amount = BigInt(requirement.maxAmountRequired);
+      if (amount > (holds.get(key) || 0n)) {
+        holds.set(key, amount);
+      }
+    }
+    for (const [key, hold] of holds) {
+      this.reserved.set(key, (this.reserved.get(key) || 0n) + hold);
+    }
+
+    let open = true;
+    const release = (): void => {
+      if (open) {
+        open = false;
+        for (const [key, hold] of holds) {
+          const left = (this.reserved.get(key) || 0n) - hold;
+          if (left > 0n) {
+            this.reserved.set(key, left);
+          } else {
+            this.reserved.delete(key);
+          }
+        }
+      }
+    };
+
+    return {
+      requirements: allowed,
+      commit: async (paid) => {
+        release();
+        await this._record({
+          signer,
+          amount: BigInt(paid.maxAmountRequired).toString(),
+          asset: paid.asset,
+          network: paid.network,
+          timestamp: Math.floor(Date.now() / 1000),
+          agentId,
+          tool,
+        });
+      },
+      release,
+    };
+  }
+
+  /**
+   * Total paid by a signer in one asset in the last 24 hours
+   */
+  async spentToday(signer: Signer | string, asset: string): Promise<bigint> {
+    const address = typeof signer === 'string' ? signer.toLowerCase() : signerAddress(signer);
+    return (await this._spentByAsset(address)).get(asset.toLowerCase()) || 0n;
+  }
+
+  private async _spentByAsset(signer: string): Promise<Map<string, bigint>> {
+    const since = Math.floor(Date.now() / 1000) - DAY_SECONDS;
+    await this._writes;
+    const spent = new Map<string, bigint>();
+    for (const record of await this.spendStore.load()) {
+      if (record.signer === signer && record.timestamp > since) {
+        const asset = record.asset.toLowerCase();
+        spent.set(asset, (spent.get(asset) || 0n) + BigInt(record.amount));
+      }
+    }
+    return spent;
+  }
+
+  private _dailyBudgetFor(asset: string): bigint | undefined {
+    if (this.dailyBudget instanceof Map) {
+      return this.dailyBudget.get(asset.toLowerCase()) ?? 0n;
+    }
+    return this.dailyBudget;
+  }
+
+  private _record(record: SpendRecord): Promise<void> {
+    const write = this._writes.then(async () => {
+      const since = record.timestamp - DAY_SECONDS;
+      const records = (await this.spendStore.load()).filter((entry) => entry.timestamp > since);
+      records.push(record);
+      await this.spendStore.save(records);
+    });
+    // A failed write is reported to its caller only; later writes still run
+    this._writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private _listed(value: string, allow?: string[], deny?: string[]): boolean {
+    const key = value.toLowerCase();
+    if (deny && deny.some((entry) => entry.toLowerCase() === key)) {
+      return false;
+    }
+    return !allow || allow.some((entry) => entry.toLowerCase() === key);
+  }
+}
+
+function reserveKey(signer: string, asset: string): string {
+  return `${signer}|${asset.toLowerCase()}`;
+}
+
+function toAmount(value: PaymentAmount): bigint {
+  try {
+    const amount = BigInt(value);
+    if (amount >= 0n) {
+      return amount;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid payment amount: ${value} (expected a non-negative integer in atomic units)`);
+}
+
+/**
+ * Payer address of an x402 signer (viem wallet client, local account or Solana key pair)
+ */
+function signerAddress(signer: Signer): string {
+  const account = 'account' in signer ? signer.account : undefined;
+  const address = account?.address ?? ('address' in signer ? signer.address : undefined);
+  if (typeof address !== 'string') {
+    throw new Error('Cannot determine the payer address of the x402 signer');
+  }
+  return address.toLowerCase();
+}
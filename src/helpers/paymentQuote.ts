@@ -0,0 +1,94 @@
+/**
+ * Prices of x402-gated calls, read from 402 responses or declared tool pricing without paying
+ */
+
+import { PaymentRequirementsSchema } from 'x402/types';
+import { toolPriceInUnits, type Tool } from './function-tools.js';
+import type { PaymentRequirements } from './paymentPolicy.js';
+
+/**
+ * One way to pay for a call
+ */
+export interface QuotedPayment {
+  scheme: string; // e.g. 'exact'
+  network: string; // x402 network name, e.g. 'base-sepolia'
+  asset: string; // Token address
+  assetName?: string | undefined; // Token name or symbol when known
+  maxAmountRequired: string; // Atomic units
+  payTo?: string | undefined; // Unknown for declared pricing
+  resource?: string | undefined;
+  description?: string | undefined;
+  maxTimeoutSeconds?: number | undefined;
+  expiresAt?: number | undefined; // Unix seconds until which a payment signed now stays valid
+  requirements?: PaymentRequirements | undefined; // As sent by the server
+}
+
+export interface PaymentQuote {
+  source: 'server' | 'tool'; // 402 response, or Tool.pricing when the server could not be reached
+  free: boolean; // The server answered without asking for payment
+  x402Version?: number | undefined;
+  options: QuotedPayment[];
+  error?: string | undefined; // Why the server could not be asked (source: 'tool')
+}
+
+/**
+ * Quote from the body of a 402 response
+ * @throws Error if the accepts list is not valid x402 payment requirements
+ */
+export function quoteFromPaymentRequired(body: unknown): PaymentQuote {
+  const { x402Version, accepts } = (body || {}) as { x402Version?: number; accepts?: unknown };
+  if (!Array.isArray(accepts)) {
+    throw new Error('Invalid x402 response: missing accepts list');
+  }
+
+  let requirements: PaymentRequirements[];
+  try {
+    requirements = accepts.map((accept) => PaymentRequirementsSchema.parse(accept));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid x402 payment requirements: ${errorMessage}`);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    source: 'server',
+    free: false,
+    x402Version,
+    options: requirements.map((requirement) => ({
+      scheme: requirement.scheme,
+      network: requirement.network,
+      asset: requirement.asset,
+      assetName: typeof requirement.extra?.name === 'string' ? requirement.extra.name : undefined,
+      maxAmountRequired: requirement.maxAmountRequired,
+      payTo: requirement.payTo,
+      resource: requirement.resource,
+      description: requirement.description,
+      maxTimeoutSeconds: requirement.maxTimeoutSeconds,
+      expiresAt: now + requirement.maxTimeoutSeconds,
+      requirements: requirement,
+    })),
+  };
+}
+
+/**
+ * Quote from the pricing a tool declares in its agent's registration file (one option per listed token)
+ */
+export function quoteFromToolPricing(tool: Tool, error?: string): PaymentQuote {
+  const { pricing } = tool;
+  const tokens = pricing?.tokens?.length ? pricing.tokens : [undefined];
+  const options: QuotedPayment[] = [];
+  for (const token of tokens) {
+    const amount = toolPriceInUnits(tool, token);
+    if (amount === undefined) {
+      continue;
+    }
+    options.push({
+      scheme: 'exact',
+      network: pricing.network,
+      asset: token?.address ?? '',
+      assetName: token?.symbol,
+      maxAmountRequired: amount.toString(),
+    });
+  }
+  return { source: 'tool', free: false, options, error };
+}
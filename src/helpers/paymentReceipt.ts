@@ -0,0 +1,65 @@
+/**
+ * Receipts for x402 payments, decoded from the X-PAYMENT-RESPONSE header
+ */
+
+import { decodeXPaymentResponse } from 'x402-axios';
+import { getNetworkId } from 'x402/shared';
+import type { PaymentRequirements } from './paymentPolicy.js';
+
+/**
+ * A settled x402 payment
+ */
+export interface PaymentReceipt {
+  payer: string;
+  payee: string;
+  amount: string; // Atomic units of asset
+  asset: string;
+  network: string; // x402 network name, e.g. 'base-sepolia'
+  chainId?: number | undefined;
+  transactionHash: string;
+}
+
+/**
+ * Build a receipt from the settlement header and the payment requirements that were signed
+ * @returns undefined if the header is malformed or reports a failed settlement
+ */
+export function decodePaymentReceipt(header: string, paid: PaymentRequirements): PaymentReceipt | undefined {
+  let response: ReturnType<typeof decodeXPaymentResponse>;
+  try {
+    response = decodeXPaymentResponse(header);
+  } catch {
+    return undefined;
+  }
+  if (!response || !response.success || !response.transaction) {
+    return undefined;
+  }
+
+  let chainId: number | undefined;
+  try {
+    chainId = getNetworkId(response.network || paid.network);
+  } catch {
+    // Network without a chain id mapping
+  }
+
+  return {
+    payer: response.payer,
+    payee: paid.payTo,
+    amount: paid.maxAmountRequired,
+    asset: paid.asset,
+    network: response.network || paid.network,
+    chainId,
+    transactionHash: response.transaction,
+  };
+}
+
+/**
+ * Feedback file proofOfPayment (fromAddress, toAddress, chainId, txHash) for a receipt
+ */
+export function receiptToProofOfPayment(receipt: PaymentReceipt): Record<string, unknown> {
+  return {
+    fromAddress: receipt.payer,
+    toAddress: receipt.payee,
+    chainId: receipt.chainId !== undefined ? String(receipt.chainId) : receipt.network,
+    txHash: receipt.transactionHash,
+  };
+}
@@ -0,0 +1,473 @@
+/**
+ * Receiving side of x402: a Node http / Express middleware that charges for routes priced with Tool.pricing
+ * https://github.com/coinbase/x402/blob/main/specs/x402-specification.md
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { TLSSocket } from 'tls';
+import { ethers } from 'ethers';
+import { decodePayment } from 'x402/schemes';
+import { findMatchingPaymentRequirements, getDefaultAsset, getNetworkId } from 'x402/shared';
+import { settleResponseHeader, type FacilitatorConfig, type PaymentPayload, type SettleResponse, type VerifyResponse } from 'x402/types';
+import { useFacilitator } from 'x402/verify';
+import { toolPriceInUnits, type Tool } from './function-tools.js';
+import type { PaymentRequirements } from './paymentPolicy.js';
+
+const X402_VERSION = 1;
+const DEFAULT_BODY_LIMIT = 1024 * 1024; // bytes
+
+// Responses whose handler reported a failure with a 2xx status
+const failedResponses = new WeakSet<ServerResponse>();
+
+/**
+ * Verifies and settles payment payloads (the x402 facilitator API)
+ */
+export interface Facilitator {
+  verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse>;
+  settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse>;
+}
+
+export interface PaywallOptions {
+  payTo: string; // Address that receives payments
+  tools: Tool[]; // Priced routes (endpoint, method, pricing), as published in the registration file
+  facilitator?: Facilitator; // default: createFacilitator()
+  basePath?: string; // Prefix of the tool endpoints on this server, e.g. '/api'
+  mcpPath?: string; // MCP endpoint; tools/call for tools with protocol 'mcp' is priced by tool name
+  resourceUrl?: string; // Public origin used in payment requirements (default: from the request's protocol and Host header)
+  trustProxy?: boolean; // Take the protocol and host from X-Forwarded-Proto / X-Forwarded-Host (default: false)
+  maxBodyBytes?: number; // Largest MCP request body read to find the called tool (default: 1 MiB)
+  maxTimeoutSeconds?: number; // How long a signed payment stays valid (default: 60)
+  mimeType?: string; // default: application/json
+  onSettled?: (settlement: SettleResponse, requirements: PaymentRequirements, req: IncomingMessage) => void;
+}
+
+/**
+ * Express-style middleware; also usable from a plain http handler as paywall(req, res, () => handle(req, res))
+ */
+export type PaywallMiddleware = (req: IncomingMessage, res: ServerResponse, next: (error?: unknown) => void) => void;
+
+/**
+ * Thrown by readJsonBody when the body exceeds its limit; status is used by Express error handlers
+ */
+export class BodyTooLarge extends Error {
+  readonly name = 'BodyTooLarge';
+  readonly status = 413;
+
+  constructor(readonly limit: number) {
+    super(`Request body exceeds ${limit} bytes`);
+  }
+}
+
+/**
+ * The ServerResponse methods deferUntilSettled replaces while it buffers the handler's output
+ */
+interface BufferedResponse {
+  writeHead(statusCode: number, reason?: unknown, headers?: unknown): ServerResponse;
+  write(chunk: unknown, encoding?: unknown, callback?: unknown): boolean;
+  end(chunk?: unknown, encoding?: unknown, callback?: unknown): ServerResponse;
+}
+
+interface PricedRoute {
+  tool: Tool;
+  method?: string | undefined;
+  path?: RegExp | undefined; // REST routes
+  mcpTool?: string | undefined; // MCP tools/call routes
+  requirements: Omit<PaymentRequirements, 'resource'>[];
+}
+
+/**
+ * Facilitator client for a hosted x402 facilitator (default: https://x402.org/facilitator)
+ */
+export function createFacilitator(config?: FacilitatorConfig): Facilitator {
+  const { verify, settle } = useFacilitator(config);
+  return { verify, settle };
+}
+
+/**
+ * Charge x402 payments for the priced tools; requests for other routes pass straight through
+ *
+ * Unpaid requests get a 402 challenge listing one payment option per pricing token. Paid requests are verified
+ * with the facilitator, handled, and settled only when the handler answers below 400; the settlement is returned in
+ * the X-PAYMENT-RESPONSE header (the response is buffered until then). For MCP, the JSON body is parsed into req.body
+ * when no body parser has run
+ */
+export function createPaywall(options: PaywallOptions): PaywallMiddleware {
+  const facilitator = options.facilitator ?? createFacilitator();
+  const routes = options.tools.map((tool) => priceRoute(tool, options)).filter((route): route is PricedRoute => !!route);
+
+  return (req, res, next) => {
+    // next() runs inside the async block, so an error thrown downstream must not reach next() a second time
+    let nextCalled = false;
+    const proceed = (error?: unknown) => {
+      nextCalled = true;
+      next(error);
+    };
+
+    void (async () => {
+      const route = await matchRoute(routes, req, options);
+      if (!route) {
+        proceed();
+        return;
+      }
+
+      const origin = options.resourceUrl ?? requestOrigin(req, options.trustProxy ?? false);
+      const accepts = route.requirements.map((requirement) => ({ ...requirement, resource: `${origin}${req.url ?? ''}` }) as PaymentRequirements);
+      const header = req.headers['x-payment'];
+      if (typeof header !== 'string' || !header) {
+        paymentRequired(res, accepts, 'X-PAYMENT header is required');
+        return;
+      }
+
+      let payload: PaymentPayload;
+      try {
+        payload = decodePayment(header);
+      } catch {
+        paymentRequired(res, accepts, 'Invalid or malformed payment header');
+        return;
+      }
+      if (payload.x402Version !== X402_VERSION) {
+        paymentRequired(res, accepts, `Unsupported x402 version: ${payload.x402Version}`);
+        return;
+      }
+      const selected = findMatchingPaymentRequirements(accepts, payload);
+      if (!selected) {
+        paymentRequired(res, accepts, 'Unable to find matching payment requirements');
+        return;
+      }
+
+      const verification = await facilitator.verify(payload, selected);
+      if (!verification.isValid) {
+        paymentRequired(res, accepts, verification.invalidReason ?? 'Invalid payment', verification.payer);
+        return;
+      }
+
+      deferUntilSettled(res, async () => {
+        const settlement = await facilitator.settle(payload, selected);
+        if (settlement.success) {
+          options.onSettled?.(settlement, selected, req);
+        }
+        return settlement;
+      }, accepts);
+      proceed();
+    })().catch((error) => {
+      if (!nextCalled) {
+        proceed(error);
+      } else if (!res.headersSent) {
+        res.statusCode = 500;
+        res.end();
+      }
+    });
+  };
+}
+
+/**
+ * Mark a paid request as failed so its payment is not settled, for failures answered with a status below 400
+ * (e.g. an MCP tools/call result with isError); call before the response is ended
+ */
+export function skipSettlement(res: ServerResponse): void {
+  failedResponses.add(res);
+}
+
+/**
+ * Local facilitator for tests and development: checks exact EVM payments offline (recipient, amount, validity
+ * window, nonce reuse and the EIP-3009 signature) and settles them with a made-up transaction hash
+ */
+export class MockFacilitator implements Facilitator {
+  readonly settlements: Array<{ payload: PaymentPayload; requirements: PaymentRequirements; transaction: string }> = [];
+  private readonly usedNonces = new Set<string>();
+
+  constructor(private options: { checkSignature?: boolean; failSettlement?: boolean } = {}) {}
+
+  async verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    const invalid = (invalidReason: NonNullable<VerifyResponse['invalidReason']>, payer?: string): VerifyResponse =>
+      ({ isValid: false, invalidReason, ...(payer ? { payer } : {}) });
+
+    if (payload.scheme !== 'exact' || requirements.scheme !== 'exact') {
+      return invalid('unsupported_scheme');
+    }
+    if (payload.network !== requirements.network) {
+      return invalid('invalid_network');
+    }
+    const evmPayload = payload.payload as { signature?: string; authorization?: Record<string, string> };
+    const authorization = evmPayload.authorization;
+    if (!authorization || typeof evmPayload.signature !== 'string') {
+      return invalid('invalid_payload');
+    }
+
+    const payer = authorization.from!;
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (authorization.to?.toLowerCase() !== requirements.payTo.toLowerCase()) {
+      return invalid('invalid_exact_evm_payload_recipient_mismatch', payer);
+    }
+    if (BigInt(authorization.value!) < BigInt(requirements.maxAmountRequired)) {
+      return invalid('invalid_exact_evm_payload_authorization_value', payer);
+    }
+    if (BigInt(authorization.validBefore!) < now) {
+      return invalid('invalid_exact_evm_payload_authorization_valid_before', payer);
+    }
+    if (BigInt(authorization.validAfter!) > now) {
+      return invalid('invalid_exact_evm_payload_authorization_valid_after', payer);
+    }
+    if (this.usedNonces.has(authorization.nonce!.toLowerCase())) {
+      return invalid('invalid_transaction_state', payer);
+    }
+
+    if (this.options.checkSignature !== false) {
+      const signer = ethers.verifyTypedData(
+        {
+          name: requirements.extra?.name,
+          version: requirements.extra?.version,
+          chainId: getNetworkId(requirements.network),
+          verifyingContract: requirements.asset,
+        },
+        {
+          TransferWithAuthorization: [
+            { name: 'from', type: 'address' },
+            { name: 'to', type: 'address' },
+            { name: 'value', type: 'uint256' },
+            { name: 'validAfter', type: 'uint256' },
+            { name: 'validBefore', type: 'uint256' },
+            { name: 'nonce', type: 'bytes32' },
+          ],
+        },
+        authorization,
+        evmPayload.signature
+      );
+      if (signer.toLowerCase() !== payer.toLowerCase()) {
+        return invalid('invalid_exact_evm_payload_signature', payer);
+      }
+    }
+    return { isValid: true, payer };
+  }
+
+  async settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> {
+    const verification = await this.verify(payload, requirements);
+    const nonce = ((payload.payload as { authorization?: { nonce?: string } }).authorization?.nonce ?? '').toLowerCase();
+    if (!verification.isValid || this.options.failSettlement) {
+      return {
+        success: false,
+        errorReason: verification.invalidReason ?? 'unexpected_settle_error',
+        transaction: '',
+        network: requirements.network,
+        ...(verification.payer ? { payer: verification.payer } : {}),
+      };
+    }
+
+    this.usedNonces.add(nonce);
+    const transaction = ethers.keccak256(ethers.toUtf8Bytes(`mock-settlement:${nonce}`));
+    this.settlements.push({ payload, requirements, transaction });
+    return { success: true, transaction, network: requirements.network, ...(verification.payer ? { payer: verification.payer } : {}) };
+  }
+}
+
+/**
+ * Route matcher and payment options for one priced tool
+ */
+function priceRoute(tool: Tool, options: PaywallOptions): PricedRoute | undefined {
+  const { pricing } = tool;
+  if (!pricing?.price) {
+    return undefined;
+  }
+
+  const network = pricing.network as PaymentRequirements['network'];
+  const tokens = pricing.tokens?.length ? pricing.tokens : [undefined];
+  const requirements: PricedRoute['requirements'] = [];
+  for (const token of tokens) {
+    const defaultAsset = getDefaultAsset(network);
+    const address = token?.address ?? defaultAsset.address;
+    const amount = toolPriceInUnits(tool, token ?? { address, symbol: 'USDC', decimals: defaultAsset.decimals });
+    if (amount === undefined) {
+      throw new Error(`Invalid price for tool ${tool.name}: ${pricing.price} (expected a decimal token amount, e.g. "0.05" or "1")`);
+    }
+    const isDefault = address.toLowerCase() === String(defaultAsset.address).toLowerCase();
+    if (!isDefault && (!token?.eip712Name || !token.eip712Version)) {
+      // The symbol is not the token's domain name (USDC's is "USD Coin"), so signatures would not verify
+      throw new Error(`Token ${address} of tool ${tool.name} needs eip712Name and eip712Version to be accepted`);
+    }
+    requirements.push({
+      scheme: 'exact',
+      network,
+      maxAmountRequired: amount.toString(),
+      description: tool.description || tool.name,
+      mimeType: options.mimeType ?? 'application/json',
+      payTo: options.payTo,
+      maxTimeoutSeconds: options.maxTimeoutSeconds ?? 60,
+      asset: address,
+      // EIP-712 domain of the token, needed to sign the transfer authorization
+      extra: isDefault ? { ...defaultAsset.eip712 } : { name: token?.eip712Name, version: token?.eip712Version },
+    });
+  }
+
+  if (tool.protocol === 'mcp') {
+    return { tool, mcpTool: tool.name, requirements };
+  }
+  const pattern = `${options.basePath ?? ''}${tool.endpoint}`
+    .replace(/[.*+?^$()|[\]\\]/g, '\\$&')
+    .replace(/\{[^}]+\}|:[A-Za-z_][A-Za-z0-9_]*/g, '[^/]+');
+  return { tool, method: tool.method ?? 'GET', path: new RegExp(`^${pattern}/?$`), requirements };
+}
+
+async function matchRoute(routes: PricedRoute[], req: IncomingMessage, options: PaywallOptions): Promise<PricedRoute | undefined> {
+  const path = (req.url ?? '/').split('?')[0]!;
+  const method = (req.method ?? 'GET').toUpperCase();
+  const rest = routes.find((route) => route.path && route.method === method && route.path.test(path));
+  if (rest || !options.mcpPath || method !== 'POST' || path.replace(/\/$/, '') !== options.mcpPath.replace(/\/$/, '')) {
+    return rest;
+  }
+  if (!routes.some((route) => route.mcpTool)) {
+    return undefined;
+  }
+
+  const body = await readJsonBody(req, options.maxBodyBytes);
+  const messages: any[] = Array.isArray(body) ? body : [body];
+  const names = messages.filter((message) => message?.method === 'tools/call').map((message) => message.params?.name);
+  return routes.find((route) => route.mcpTool && names.includes(route.mcpTool));
+}
+
+/**
+ * Origin of a request: https on TLS sockets, or the forwarded protocol and host behind a trusted proxy
+ */
+function requestOrigin(req: IncomingMessage, trustProxy: boolean): string {
+  const forwarded = (name: string) => {
+    const value = trustProxy ? req.headers[name] : undefined;
+    return typeof value === 'string' ? value.split(',')[0]!.trim() : undefined;
+  };
+  const protocol = forwarded('x-forwarded-proto') ?? ((req.socket as TLSSocket).encrypted ? 'https' : 'http');
+  const host = forwarded('x-forwarded-host') ?? req.headers.host ?? 'localhost';
+  return `${protocol}://${host}`;
+}
+
+/**
+ * Parsed JSON body, read once and left on req.body for the handler
+ * @throws BodyTooLarge when the body exceeds limit bytes (the rest is drained so a response can still be sent)
+ */
+export async function readJsonBody(req: IncomingMessage, limit: number = DEFAULT_BODY_LIMIT): Promise<unknown> {
+  const request = req as IncomingMessage & { body?: unknown; _body?: boolean };
+  if (request.body !== undefined) {
+    return request.body;
+  }
+  if (Number(req.headers['content-length']) > limit) {
+    req.resume();
+    throw new BodyTooLarge(limit);
+  }
+  const data = await new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const cleanup = () => {
+      req.off('data', onData);
+      req.off('end', onEnd);
+      req.off('error', onError);
+    };
+    const onData = (chunk: Buffer | string) => {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      size += buffer.length;
+      if (size > limit) {
+        cleanup();
+        req.resume();
+        reject(new BodyTooLarge(limit));
+        return;
+      }
+      chunks.push(buffer);
+    };
+    const onEnd = () => {
+      cleanup();
+      resolve(Buffer.concat(chunks));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    req.on('data', onData);
+    req.on('end', onEnd);
+    req.on('error', onError);
+  });
+  const text = data.toString('utf8');
+  try {
+    request.body = text ? JSON.parse(text) : {};
+  } catch {
+    request.body = text;
+  }
+  request._body = true; // Tells Express body parsers the body was already read
+  return request.body;
+}
+
+function paymentRequired(res: ServerResponse, accepts: PaymentRequirements[], error: string, payer?: string): void {
+  res.statusCode = 402;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ x402Version: X402_VERSION, error, accepts, ...(payer ? { payer } : {}) }));
+}
+
+/**
+ * Hold the handler's response until the payment is settled, then send it with X-PAYMENT-RESPONSE
+ * Error responses (status >= 400 or marked with skipSettlement) are sent without settling; a failed settlement
+ * replaces the response with a 402
+ */
+function deferUntilSettled(res: ServerResponse, settle: () => Promise<SettleResponse>, accepts: PaymentRequirements[]): void {
+  const target = res as unknown as BufferedResponse;
+  const original = { writeHead: target.writeHead, write: target.write, end: target.end };
+  const chunks: Array<{ chunk: unknown; encoding?: BufferEncoding }> = [];
+
+  const restore = () => {
+    target.writeHead = original.writeHead;
+    target.write = original.write;
+    target.end = original.end;
+  };
+
+  target.writeHead = (statusCode: number, reason?: unknown, headers?: unknown) => {
+    res.statusCode = statusCode;
+    const headerValues = typeof reason === 'object' ? reason : headers;
+    if (typeof reason === 'string') {
+      res.statusMessage = reason;
+    }
+    if (Array.isArray(headerValues)) {
+      for (let i = 0; i + 1 < headerValues.length; i += 2) {
+        res.setHeader(String(headerValues[i]), headerValues[i + 1]);
+      }
+    } else if (headerValues && typeof headerValues === 'object') {
+      for (const [name, value] of Object.entries(headerValues)) {
+        res.setHeader(name, value as string);
+      }
+    }
+    return res;
+  };
+  target.write = (chunk: unknown, encoding?: unknown, callback?: unknown) => {
+    chunks.push(typeof encoding === 'string' ? { chunk, encoding: encoding as BufferEncoding } : { chunk });
+    (typeof encoding === 'function' ? encoding : callback as (() => void) | undefined)?.();
+    return true;
+  };
+  target.end = (chunk?: unknown, encoding?: unknown, callback?: unknown) => {
+    if (typeof chunk === 'function') {
+      callback = chunk;
+    } else if (chunk !== undefined && chunk !== null) {
+      chunks.push(typeof encoding === 'string' ? { chunk, encoding: encoding as BufferEncoding } : { chunk });
+    }
+    const done = (typeof encoding === 'function' ? encoding : callback) as (() => void) | undefined;
+    restore();
+
+    const flush = () => {
+      for (const { chunk: data, encoding: dataEncoding } of chunks) {
+        dataEncoding ? res.write(data as string, dataEncoding) : res.write(data as Buffer);
+      }
+      res.end(done);
+    };
+    if (res.statusCode >= 400 || failedResponses.has(res)) {
+      flush();
+      return res;
+    }
+    settle()
+      .then((settlement) => {
+        if (!settlement.success) {
+          paymentRequired(res, accepts, settlement.errorReason ?? 'Settlement failed', settlement.payer);
+          return;
+        }
+        res.setHeader('X-PAYMENT-RESPONSE', settleResponseHeader(settlement));
+        res.setHeader('Access-Control-Expose-Headers', 'X-PAYMENT-RESPONSE');
+        flush();
+      })
+      .catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        paymentRequired(res, accepts, `Settlement failed: ${errorMessage}`);
+      });
+    return res;
+  };
+}
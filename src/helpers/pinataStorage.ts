@@ -0,0 +1,86 @@
+/**
+ * Storage provider backed by Pinata
+ */
+
+import type { StorageProvider, VerifiedContent } from './storageProvider.js';
+import { fetchVerifiedFromGateways, gatewayUrls } from './storageProvider.js';
+
+export interface PinataStorageConfig {
+  pinataJwt: string;
+  pinataGateway?: string | undefined;
+}
+
+/**
+ * Uploads to Pinata (public network); reads go through the Pinata gateway, then public gateways
+ */
+export class PinataStorage implements StorageProvider {
+  constructor(private config: PinataStorageConfig) {
+    if (!config.pinataJwt) {
+      throw new Error('pinataJwt is required');
+    }
+  }
+
+  async add(data: string | Uint8Array): Promise<string> {
+    if (typeof data === 'string') {
+      // Try to upload as JSON first
+      let jsonData: Record<string, unknown> | undefined;
+      try {
+        jsonData = JSON.parse(data);
+      } catch {
+        // Not JSON - upload as file
+      }
+      if (jsonData !== undefined && typeof jsonData === 'object' && jsonData !== null) {
+        return this.addJson(jsonData);
+      }
+    }
+
+    try {
+      const { uploadFile } = await import('pinata');
+      const file = typeof data === 'string'
+        ? new File([data], 'data.txt', { type: 'text/plain' })
+        : new File([data], 'data.bin');
+      const result = await uploadFile({ pinataJwt: this.config.pinataJwt }, file, 'public');
+      return result.cid;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to pin to Pinata: ${errorMessage}`);
+    }
+  }
+
+  async addJson(data: Record<string, unknown>): Promise<string> {
+    try {
+      const { uploadJson } = await import('pinata');
+      const result = await uploadJson({ pinataJwt: this.config.pinataJwt }, data, 'public');
+      return result.cid;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to upload JSON to Pinata: ${errorMessage}`);
+    }
+  }
+
+  async get(cid: string): Promise<string> {
+    return (await this.getVerified(cid)).data;
+  }
+
+  async getVerified(cid: string): Promise<VerifiedContent> {
+    return fetchVerifiedFromGateways(cid, gatewayUrls(this.config.pinataGateway || 'https://gateway.pinata.cloud'));
+  }
+
+  /**
+   * Pin a CID (uploads are pinned automatically)
+   */
+  async pin(cid: string): Promise<{ pinned: string[] }> {
+    return { pinned: [cid] };
+  }
+
+  async unpin(cid: string): Promise<{ unpinned: string[] }> {
+    try {
+      const { deleteFile } = await import('pinata');
+      await deleteFile({ pinataJwt: this.config.pinataJwt }, [cid], 'public');
+      return { unpinned: [cid] };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to unpin from Pinata: ${errorMessage}`);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Storage provider for any service implementing the IPFS Pinning Service API
+ * https://ipfs.github.io/pinning-services-api-spec/
+ */
+
+import type { StorageProvider, VerifiedContent } from './storageProvider.js';
+import { checkContent, fetchVerifiedFromGateways, gatewayUrls } from './storageProvider.js';
+import { TIMEOUTS } from '../utils/constants.js';
+
+export interface PinningServiceStorageConfig {
+  endpoint: string; // Service base URL, e.g. https://api.example.com/psa
+  accessToken: string;
+  upload?: StorageProvider; // Makes content available before pinning (e.g. a KuboStorage); the API only pins CIDs
+  gateway?: string; // Preferred gateway for reads
+}
+
+/**
+ * Pins CIDs with a remote pinning service; content is added through the upload provider
+ */
+export class PinningServiceStorage implements StorageProvider {
+  private readonly endpoint: string;
+
+  constructor(private config: PinningServiceStorageConfig) {
+    if (!config.endpoint || !config.accessToken) {
+      throw new Error('endpoint and accessToken are required');
+    }
+    this.endpoint = config.endpoint.replace(/\/$/, '');
+  }
+
+  async add(data: string | Uint8Array): Promise<string> {
+    const cid = await this._upload().add(data);
+    await this.pin(cid);
+    return cid;
+  }
+
+  async addJson(data: Record<string, unknown>): Promise<string> {
+    const cid = await this._upload().addJson(data);
+    await this.pin(cid);
+    return cid;
+  }
+
+  async get(cid: string): Promise<string> {
+    return (await this.getVerified(cid)).data;
+  }
+
+  async getVerified(cid: string): Promise<VerifiedContent> {
+    const upload = this.config.upload;
+    if (upload) {
+      try {
+        return upload.getVerified
+          ? await upload.getVerified(cid)
+          : checkContent(cid, await upload.get(cid), upload.constructor.name);
+      } catch {
+        // Fall back to public gateways
+      }
+    }
+    return fetchVerifiedFromGateways(cid, gatewayUrls(this.config.gateway));
+  }
+
+  async pin(cid: string): Promise<{ pinned: string[] }> {
+    await this._request('POST', '/pins', { cid });
+    return { pinned: [cid] };
+  }
+
+  async unpin(cid: string): Promise<{ unpinned: string[] }> {
+    const response = await this._request('GET', `/pins?cid=${encodeURIComponent(cid)}`);
+    const { results = [] } = await response.json() as { results?: Array<{ requestid: string }> };
+    for (const { requestid } of results) {
+      await this._request('DELETE', `/pins/${encodeURIComponent(requestid)}`);
+    }
+    return { unpinned: [cid] };
+  }
+
+  private _upload(): StorageProvider {
+    if (!this.config.upload) {
+      throw new Error('PinningServiceStorage requires an upload provider to add content');
+    }
+    return this.config.upload;
+  }
+
+  private async _request(method: string, path: string, body?: Record<string, unknown>): Promise<Response> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.config.accessToken}` };
+    const init: RequestInit = { method, headers, signal: AbortSignal.timeout(TIMEOUTS.PINATA_UPLOAD) };
+    if (body) {
+      headers['Content-Type'] = 'application/json';
+      init.body = JSON.stringify(body);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.endpoint}${path}`, init);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Pinning service request failed: ${errorMessage}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Pinning service request failed: ${method} ${path} returned HTTP ${response.status}`);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Dry-run plans for agent registration and updates (agent.plan() / agent.apply())
+ */
+
+import { ethers } from 'ethers';
+import type { AgentId, Address, ChainId } from '../types/common.js';
+import type { IPFSClient } from './ipfsClient.js';
+import { canonicalJson } from '../utils/canonical-json.js';
+
+// Placeholders for values that are only known while a plan is applied
+export const PLAN_AGENT_ID = '{agentId}'; // Token ID minted by register()
+export const PLAN_CID = '{cid}'; // CID returned by the IPFS upload
+
+/**
+ * One difference between the published registration file and the one a plan uploads
+ */
+export interface PayloadChange {
+  path: string; // e.g. 'endpoints[0].mcpTools'
+  op: 'add' | 'remove' | 'change';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface UploadOperation {
+  kind: 'upload';
+  description: string;
+  payload: Record<string, unknown>; // Registration file as it will be uploaded (placeholders filled in on apply)
+  previousUri?: string; // Currently published file the changes are against
+  changes: PayloadChange[];
+  previousError?: string; // Why the published file could not be read; changes are then against an empty file
+}
+
+export interface ContractOperation {
+  kind: 'contract';
+  description: string;
+  contract: Address;
+  method: string; // e.g. 'setMetadata'
+  signature: string; // e.g. 'setMetadata(uint256,string,bytes)'
+  args: unknown[]; // As sent: uint256 as decimal strings, bytes as hex
+  decoded: Record<string, unknown>; // Named args, bytes shown as text when they are UTF-8
+  gas?: string; // Estimated gas units; absent with a registry backend or when estimation failed
+  fee?: string; // Estimated maximum fee in wei
+  estimateError?: string; // Why gas could not be estimated (e.g. the call would revert)
+}
+
+export type PlanOperation = UploadOperation | ContractOperation;
+
+/**
+ * Ordered operations registerIPFS() would run, for review before anything is sent
+ */
+export interface RegistrationPlan {
+  action: 'register' | 'update';
+  agentId?: AgentId; // Absent for new agents
+  chainId: ChainId;
+  from?: Address; // Signer that will send the transactions
+  operations: PlanOperation[];
+  totalGas?: string; // Only when every transaction could be estimated
+  totalFee?: string; // Wei
+  fingerprint: string; // Hash of the operations and the agent state they were planned from
+  createdAt: number; // Unix seconds
+}
+
+/**
+ * What applying a plan did
+ */
+export interface AppliedPlan {
+  agentId: AgentId;
+  agentURI: string;
+  transactions: Array<{ method: string; txHash: string }>;
+}
+
+/**
+ * Differences between two JSON documents, by path
+ */
+export function diffJson(before: unknown, after: unknown, path = ''): PayloadChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: PayloadChange[] = [];
+    const keys = [...Object.keys(before), ...Object.keys(after).filter((key) => !(key in before))];
+    for (const key of keys) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in after) || after[key] === undefined) {
+        if (before[key] !== undefined) changes.push({ path: childPath, op: 'remove', before: before[key] });
+      } else if (!(key in before) || before[key] === undefined) {
+        changes.push({ path: childPath, op: 'add', after: after[key] });
+      } else {
+        changes.push(...diffJson(before[key], after[key], childPath));
+      }
+    }
+    return changes;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: PayloadChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const childPath = `${path}[${i}]`;
+      if (i >= after.length) {
+        changes.push({ path: childPath, op: 'remove', before: before[i] });
+      } else if (i >= before.length) {
+        changes.push({ path: childPath, op: 'add', after: after[i] });
+      } else {
+        changes.push(...diffJson(before[i], after[i], childPath));
+      }
+    }
+    return changes;
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, op: 'change', before, after }];
+}
+
+/**
+ * Raw JSON of a published registration file (ipfs:// or http(s)://)
+ * @throws Error if the file cannot be read
+ */
+export async function fetchPublishedFile(uri: string, ipfsClient?: IPFSClient): Promise<Record<string, unknown>> {
+  let data: unknown;
+  if (uri.startsWith('ipfs://')) {
+    if (!ipfsClient) {
+      throw new Error('IPFS client is required to read the published registration file');
+    }
+    data = await ipfsClient.getJson(uri.slice(7));
+  } else if (/^https?:\/\//.test(uri)) {
+    const response = await fetch(uri);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch registration file: HTTP ${response.status}`);
+    }
+    data = await response.json();
+  } else {
+    throw new Error(`Unsupported URI scheme: ${uri}`);
+  }
+
+  if (!isPlainObject(data)) {
+    throw new Error('Invalid registration file format: expected an object');
+  }
+  return data;
+}
+
+/**
+ * Contract call as it appears in a plan: JSON-safe args and their decoded, named form
+ */
+export function describeContractCall(
+  contract: ethers.Contract,
+  method: string,
+  signature: string,
+  args: unknown[],
+  description: string
+): ContractOperation {
+  const fragment = contract.interface.getFunction(signature);
+  if (!fragment) {
+    throw new Error(`Function ${signature} not found in contract ABI`);
+  }
+
+  const decoded: Record<string, unknown> = {};
+  fragment.inputs.forEach((input, i) => {
+    decoded[input.name || `arg${i}`] = decodeArg(input, args[i]);
+  });
+  return {
+    kind: 'contract',
+    description,
+    contract: contract.target as Address,
+    method,
+    signature: fragment.format('sighash'),
+    args,
+    decoded,
+  };
+}
+
+/**
+ * Hash identifying a plan's operations and the state they were planned from; estimates and diffs are not included
+ */
+export function planFingerprint(state: Record<string, unknown>, operations: PlanOperation[]): string {
+  const stable = operations.map((operation) =>
+    operation.kind === 'upload'
+      ? { kind: operation.kind, payload: operation.payload, previousUri: operation.previousUri }
+      : { kind: operation.kind, contract: operation.contract, signature: operation.signature, args: operation.args }
+  );
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalJson({ state, operations: stable })));
+}
+
+/**
+ * Copy of a planned value with placeholders replaced (agent ID as a number in payloads, a decimal string in args)
+ */
+export function fillPlaceholders<T>(value: T, values: { agentId?: bigint; cid?: string }, asNumber = false): T {
+  if (typeof value === 'string') {
+    if (value === PLAN_AGENT_ID && values.agentId !== undefined) {
+      return (asNumber ? Number(values.agentId) : values.agentId.toString()) as T;
+    }
+    return (values.cid !== undefined ? value.split(PLAN_CID).join(values.cid) : value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => fillPlaceholders(item, values, asNumber)) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fillPlaceholders(item, values, asNumber)])
+    ) as T;
+  }
+  return value;
+}
+
+function decodeArg(input: ethers.ParamType, value: unknown): unknown {
+  if (input.type === 'bytes' && typeof value === 'string' && ethers.isHexString(value)) {
+    try {
+      const text = ethers.toUtf8String(value);
+      // Show as text unless it holds control characters
+      return /[\u0000-\u0008\u000e-\u001f]/.test(text) ? value : text;
+    } catch {
+      return value;
+    }
+  }
+  if (input.isArray() && Array.isArray(value)) {
+    return value.map((item) => decodeArg(input.arrayChildren, item));
+  }
+  if (input.isTuple() && isPlainObject(value)) {
+    return Object.fromEntries(input.components.map((component) => [component.name, decodeArg(component, value[component.name])]));
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,311 @@
+/**
+ * Checks registration files (the published ERC-8004 JSON) before they are published and after they are loaded
+ * https://eips.ethereum.org/EIPS/eip-8004#identity-registry
+ */
+
+import { TOOL_PRICE } from './function-tools.js';
+
+export const REGISTRATION_FILE_TYPE = 'https://eips.ethereum.org/EIPS/eip-8004#registration-v1';
+
+// type written by earlier SDK versions
+const LEGACY_REGISTRATION_FILE_TYPE = 'agent';
+
+const KNOWN_ENDPOINTS = ['mcp', 'a2a', 'ens', 'did', 'agentwallet', 'wallet', 'oasf'];
+const KNOWN_TRUST_MODELS = ['reputation', 'crypto-economic', 'tee-attestation'];
+const KNOWN_FIELDS = [
+  'type', 'name', 'description', 'image', 'endpoints', 'registrations', 'supportedTrust', 'supportedTrusts',
+  'trustModels', 'active', 'x402support', 'tools', 'metadata', 'updatedAt', 'creatorAddress', 'owners', 'operators',
+];
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * One problem with a registration file
+ */
+export interface RegistrationIssue {
+  path: string; // Field path, e.g. "endpoints[1].endpoint" ("" for the whole file)
+  code: string; // required, type, format, unknown, deprecated, placeholder or duplicate
+  message: string;
+}
+
+export interface RegistrationValidation {
+  valid: boolean; // No errors
+  version: 'v1' | 'legacy'; // v1: declares REGISTRATION_FILE_TYPE
+  errors: RegistrationIssue[];
+  warnings: RegistrationIssue[]; // Deprecated or unknown fields that are still read
+}
+
+export interface RegistrationValidationOptions {
+  strict?: boolean; // Unknown fields, endpoint names and trust models are errors, not warnings (default: false)
+}
+
+/**
+ * Thrown when a registration file is rejected (on publish, or on load in strict mode)
+ */
+export class InvalidRegistrationFile extends Error {
+  readonly name = 'InvalidRegistrationFile';
+
+  constructor(message: string, readonly errors: RegistrationIssue[], readonly warnings: RegistrationIssue[] = []) {
+    super(`${message}: ${errors.map((issue) => issue.path ? `${issue.path} ${issue.message}` : issue.message).join('; ')}`);
+  }
+}
+
+/**
+ * Validate a registration file in its published JSON form
+ * @returns Errors and warnings (the file is usable when valid is true)
+ */
+export function validateRegistrationFile(data: unknown, options: RegistrationValidationOptions = {}): RegistrationValidation {
+  const errors: RegistrationIssue[] = [];
+  const warnings: RegistrationIssue[] = [];
+  const error = (path: string, code: string, message: string) => errors.push({ path, code, message });
+  const warn = (path: string, code: string, message: string) => warnings.push({ path, code, message });
+  // Issues that only strict mode rejects
+  const unknown = (path: string, message: string) => (options.strict ? error : warn)(path, 'unknown', message);
+
+  if (!isObject(data)) {
+    error('', 'type', 'must be an object');
+    return { valid: false, version: 'legacy', errors, warnings };
+  }
+
+  let version: RegistrationValidation['version'] = 'legacy';
+  if (data.type === REGISTRATION_FILE_TYPE) {
+    version = 'v1';
+  } else if (data.type === undefined || data.type === LEGACY_REGISTRATION_FILE_TYPE) {
+    warn('type', 'deprecated', `should be ${REGISTRATION_FILE_TYPE}`);
+  } else {
+    error('type', 'format', `must be ${REGISTRATION_FILE_TYPE}`);
+  }
+
+  if (typeof data.name !== 'string' || data.name.trim() === '') {
+    error('name', data.name === undefined ? 'required' : 'type', 'must be a non-empty string');
+  }
+  if (typeof data.description !== 'string') {
+    error('description', data.description === undefined ? 'required' : 'type', 'must be a string');
+  }
+  if (data.image !== undefined) {
+    checkUri(data.image, 'image', error, warn);
+  }
+
+  if (data.endpoints === undefined) {
+    warn('endpoints', 'required', 'is missing');
+  } else if (!Array.isArray(data.endpoints)) {
+    error('endpoints', 'type', 'must be an array');
+  } else {
+    data.endpoints.forEach((endpoint, index) => checkEndpoint(endpoint, `endpoints[${index}]`, error, warn, unknown));
+  }
+
+  if (data.registrations !== undefined) {
+    if (!Array.isArray(data.registrations)) {
+      error('registrations', 'type', 'must be an array');
+    } else {
+      const seen = new Set<string>();
+      data.registrations.forEach((registration, index) => {
+        const path = `registrations[${index}]`;
+        if (!isObject(registration)) {
+          error(path, 'type', 'must be an object');
+          return;
+        }
+        if (!Number.isSafeInteger(registration.agentId) || (registration.agentId as number) < 0) {
+          error(`${path}.agentId`, registration.agentId === undefined ? 'required' : 'type', 'must be a non-negative integer');
+        }
+        const registry = registration.agentRegistry;
+        if (typeof registry !== 'string') {
+          error(`${path}.agentRegistry`, registry === undefined ? 'required' : 'type', 'must be a string');
+        } else if (/^eip155:\d+:\{identityRegistry\}$/.test(registry)) {
+          warn(`${path}.agentRegistry`, 'placeholder', 'does not name the identity registry address');
+        } else if (!/^eip155:\d+:0x[0-9a-fA-F]{40}$/.test(registry)) {
+          error(`${path}.agentRegistry`, 'format', 'must be eip155:<chainId>:<registry address>');
+        }
+        const key = `${registration.agentId}@${String(registry).toLowerCase()}`;
+        if (seen.has(key)) {
+          warn(path, 'duplicate', 'repeats an earlier registration');
+        }
+        seen.add(key);
+      });
+    }
+  }
+
+  // supportedTrusts is published next to supportedTrust for older readers; an identical copy is not reported
+  const mirrored = data.supportedTrust !== undefined
+    && JSON.stringify(data.supportedTrusts) === JSON.stringify(data.supportedTrust);
+  const trustFields = ['supportedTrust', 'supportedTrusts', 'trustModels']
+    .filter((field) => data[field] !== undefined && !(mirrored && field === 'supportedTrusts'));
+  for (const field of trustFields) {
+    if (field !== 'supportedTrust') {
+      warn(field, 'deprecated', 'use supportedTrust');
+    }
+    const models = data[field];
+    if (!Array.isArray(models) || models.some((model) => typeof model !== 'string')) {
+      error(field, 'type', 'must be an array of strings');
+      continue;
+    }
+    models.forEach((model, index) => {
+      if (!KNOWN_TRUST_MODELS.includes(model)) {
+        unknown(`${field}[${index}]`, `is not a known trust model (${KNOWN_TRUST_MODELS.join(', ')})`);
+      }
+    });
+  }
+  if (trustFields.length > 1) {
+    warn(trustFields[1]!, 'duplicate', `conflicts with ${trustFields[0]}`);
+  }
+
+  for (const field of ['active', 'x402support']) {
+    if (data[field] !== undefined && typeof data[field] !== 'boolean') {
+      error(field, 'type', 'must be a boolean');
+    }
+  }
+  if (data.updatedAt !== undefined && !Number.isSafeInteger(data.updatedAt)) {
+    error('updatedAt', 'type', 'must be a Unix timestamp in seconds');
+  }
+  if (data.metadata !== undefined && !isObject(data.metadata)) {
+    error('metadata', 'type', 'must be an object');
+  }
+  if (data.creatorAddress !== undefined && (typeof data.creatorAddress !== 'string' || !ADDRESS.test(data.creatorAddress))) {
+    error('creatorAddress', 'format', 'must be an address');
+  }
+  for (const field of ['owners', 'operators']) {
+    const addresses = data[field];
+    if (addresses !== undefined && (!Array.isArray(addresses) || addresses.some((address) => typeof address !== 'string' || !ADDRESS.test(address)))) {
+      error(field, 'type', 'must be an array of addresses');
+    }
+  }
+
+  if (data.tools !== undefined) {
+    if (!Array.isArray(data.tools)) {
+      error('tools', 'type', 'must be an array');
+    } else {
+      // Tools listed by an MCP server are called through the agent's MCP endpoint and carry no endpoint of their own
+      const hasMcpEndpoint = Array.isArray(data.endpoints)
+        && data.endpoints.some((endpoint) => isObject(endpoint) && endpoint.name === 'MCP');
+      data.tools.forEach((tool, index) => checkTool(tool, `tools[${index}]`, error, warn, hasMcpEndpoint));
+    }
+  }
+
+  for (const field of Object.keys(data)) {
+    if (!KNOWN_FIELDS.includes(field)) {
+      unknown(field, 'is not a registration file field');
+    }
+  }
+
+  return { valid: errors.length === 0, version, errors, warnings };
+}
+
+/**
+ * Validate a registration file and throw when it has errors
+ * @throws InvalidRegistrationFile
+ */
+export function assertRegistrationFile(data: unknown, options: RegistrationValidationOptions = {}): RegistrationValidation {
+  const validation = validateRegistrationFile(data, options);
+  if (!validation.valid) {
+    throw new InvalidRegistrationFile('Invalid registration file', validation.errors, validation.warnings);
+  }
+  return validation;
+}
+
+type Report = (path: string, code: string, message: string) => void;
+
+function checkEndpoint(endpoint: unknown, path: string, error: Report, warn: Report, unknown: (path: string, message: string) => void): void {
+  if (!isObject(endpoint)) {
+    error(path, 'type', 'must be an object');
+    return;
+  }
+
+  let name = endpoint.name;
+  let value = endpoint.endpoint;
+  if (name === undefined && endpoint.type !== undefined) {
+    // { type, value, meta } entries written by early SDK versions
+    warn(path, 'deprecated', 'use { name, endpoint } entries');
+    name = endpoint.type;
+    value = endpoint.value;
+  }
+  if (typeof name !== 'string' || name === '') {
+    error(`${path}.name`, name === undefined ? 'required' : 'type', 'must be a non-empty string');
+    return;
+  }
+  if (typeof value !== 'string' || value === '') {
+    error(`${path}.endpoint`, value === undefined ? 'required' : 'type', 'must be a non-empty string');
+    return;
+  }
+  if (endpoint.version !== undefined && typeof endpoint.version !== 'string') {
+    error(`${path}.version`, 'type', 'must be a string');
+  }
+  for (const list of ['mcpTools', 'mcpPrompts', 'mcpResources', 'a2aSkills']) {
+    if (endpoint[list] !== undefined && !Array.isArray(endpoint[list])) {
+      error(`${path}.${list}`, 'type', 'must be an array');
+    }
+  }
+
+  switch (name.toLowerCase()) {
+    case 'mcp':
+    case 'a2a':
+      if (!/^https?:\/\/[^/\s]+/.test(value)) {
+        error(`${path}.endpoint`, 'format', `must be an HTTP(S) URL for ${name}`);
+      }
+      break;
+    case 'agentwallet':
+    case 'wallet':
+      if (!/^eip155:\d+:0x[0-9a-fA-F]{40}$/.test(value)) {
+        error(`${path}.endpoint`, 'format', 'must be eip155:<chainId>:<address>');
+      }
+      break;
+    case 'did':
+      if (!/^did:[a-z0-9]+:.+/.test(value)) {
+        error(`${path}.endpoint`, 'format', 'must be a DID (did:<method>:<id>)');
+      }
+      break;
+    case 'ens':
+      if (!/^[^\s.]+(\.[^\s.]+)+$/.test(value)) {
+        error(`${path}.endpoint`, 'format', 'must be an ENS name');
+      }
+      break;
+    default:
+      if (!KNOWN_ENDPOINTS.includes(name.toLowerCase())) {
+        unknown(`${path}.name`, `is not a known endpoint type (${name})`);
+      }
+  }
+}
+
+function checkTool(tool: unknown, path: string, error: Report, warn: Report, hasMcpEndpoint: boolean): void {
+  if (!isObject(tool)) {
+    error(path, 'type', 'must be an object');
+    return;
+  }
+  for (const field of ['name', 'endpoint']) {
+    if (typeof tool[field] !== 'string' || tool[field] === '') {
+      const report = field === 'endpoint' && tool[field] === undefined && hasMcpEndpoint ? warn : error;
+      report(`${path}.${field}`, tool[field] === undefined ? 'required' : 'type', 'must be a non-empty string');
+    }
+  }
+  if (tool.parameters !== undefined && !Array.isArray(tool.parameters)) {
+    error(`${path}.parameters`, 'type', 'must be an array');
+  }
+  const pricing = tool.pricing;
+  if (pricing === undefined || pricing === null) {
+    return;
+  }
+  if (!isObject(pricing)) {
+    error(`${path}.pricing`, 'type', 'must be an object');
+    return;
+  }
+  if (typeof pricing.price !== 'string' || !TOOL_PRICE.test(pricing.price)) {
+    error(`${path}.pricing.price`, 'format', 'must be a decimal token amount, e.g. "0.05" or "1"');
+  }
+  if (typeof pricing.network !== 'string') {
+    error(`${path}.pricing.network`, 'required', 'must be a string');
+  }
+  if (pricing.tokens !== undefined && (!Array.isArray(pricing.tokens)
+    || pricing.tokens.some((token) => !isObject(token) || typeof token.address !== 'string' || typeof token.decimals !== 'number'))) {
+    error(`${path}.pricing.tokens`, 'type', 'must be an array of { address, symbol, decimals }');
+  }
+}
+
+function checkUri(value: unknown, path: string, error: Report, warn: Report): void {
+  if (typeof value !== 'string') {
+    error(path, 'type', 'must be a string');
+  } else if (!/^(https?|ipfs|ar):\/\/\S+$|^data:/.test(value)) {
+    warn(path, 'format', 'is not an http(s), ipfs, ar or data URI');
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,48 @@
+/**
+ * Pluggable registry backend used by Web3Client in place of a JSON-RPC node
+ */
+
+import type { ethers } from 'ethers';
+import type { Address } from '../types/common.js';
+import type { StorageProvider } from './storageProvider.js';
+
+/**
+ * Log filter understood by registry backends
+ */
+export interface BackendLogFilter {
+  address: Address;
+  topics: Array<string | string[] | null>;
+  fromBlock: number;
+  toBlock?: number | undefined;
+}
+
+/**
+ * Backend that executes registry calls and transactions
+ * Web3Client routes callContract/transactContract/waitForTransaction/getEvents through it when set
+ */
+export interface RegistryBackend {
+  readonly chainId: bigint;
+  readonly storage?: StorageProvider | undefined; // Content store shared by every SDK on this backend (ipfs: 'memory')
+
+  /**
+   * Registry addresses served by this backend (IDENTITY, REPUTATION, VALIDATION)
+   */
+  registryAddresses(): Record<string, Address>;
+
+  /**
+   * Execute a view call and return the decoded result (single value or Result for multiple outputs)
+   */
+  call(target: Address, iface: ethers.Interface, methodName: string, args: any[], from?: Address): Promise<any>;
+
+  /**
+   * Execute a state-changing call and return the transaction hash
+   * Reverts are thrown synchronously, like a failed gas estimation
+   */
+  transact(target: Address, iface: ethers.Interface, methodName: string, args: any[], from: Address): Promise<string>;
+
+  waitForTransaction(txHash: string, timeout?: number): Promise<ethers.ContractTransactionReceipt>;
+
+  getLogs(filter: BackendLogFilter): Promise<ethers.Log[]>;
+
+  getBlockNumber(): Promise<number>;
+}
@@ -0,0 +1,187 @@
+/**
+ * Pluggable content storage used by IPFSClient in place of a hard-wired Pinata client
+ */
+
+import { IPFS_GATEWAYS, TIMEOUTS } from '../utils/constants.js';
+import {
+  CODEC_DAG_PB,
+  CODEC_RAW,
+  blockMatchesCid,
+  decodeDagPbNode,
+  formatCid,
+  parseCid,
+  verifyCidContent,
+  type ParsedCid,
+} from '../utils/cid.js';
+
+// Upper bound on blocks fetched for one file when walking a multi-block DAG
+const MAX_DAG_BLOCKS = 4096;
+
+/**
+ * Content together with where it came from
+ */
+export interface VerifiedContent {
+  data: string;
+  verified: boolean; // Hashed locally and matched the CID
+  source: string; // Gateway URL or storage provider that served the content
+}
+
+/**
+ * Content-addressed storage (IPFS pinning service, local node, filesystem, ...)
+ * Registration, feedback and validation files are written through the configured provider
+ */
+export interface StorageProvider {
+  /**
+   * Store content and return its CID
+   */
+  add(data: string | Uint8Array): Promise<string>;
+
+  /**
+   * Store a JSON document and return its CID
+   */
+  addJson(data: Record<string, unknown>): Promise<string>;
+
+  /**
+   * Get content by CID
+   */
+  get(cid: string): Promise<string>;
+
+  /**
+   * Get content by CID with provenance (providers reading from untrusted gateways verify it themselves)
+   */
+  getVerified?(cid: string): Promise<VerifiedContent>;
+
+  pin(cid: string): Promise<{ pinned: string[] }>;
+
+  unpin(cid: string): Promise<{ unpinned: string[] }>;
+}
+
+/**
+ * Check content returned by a provider against its CID
+ * @throws if the content provably does not match
+ */
+export function checkContent(cid: string, data: string, source: string): VerifiedContent {
+  const verified = verifyCidContent(cid, data);
+  if (verified === false) {
+    throw new Error(`Content from ${source} does not match CID ${cid}`);
+  }
+  return { data, verified: verified === true, source };
+}
+
+/**
+ * Gateway base URLs ending in /ipfs/, with an optional preferred gateway first
+ */
+export function gatewayUrls(preferredGateway?: string): string[] {
+  const gateways: string[] = [...IPFS_GATEWAYS];
+  if (preferredGateway) {
+    const base = `${preferredGateway.replace(/\/$/, '').replace(/\/ipfs$/, '')}/ipfs/`;
+    if (!gateways.includes(base)) {
+      gateways.unshift(base);
+    }
+  }
+  return gateways;
+}
+
+/**
+ * Fetch content from public IPFS gateways, verified against the CID
+ */
+export async function fetchFromGateways(cid: string, gateways: string[] = gatewayUrls()): Promise<string> {
+  return (await fetchVerifiedFromGateways(cid, gateways)).data;
+}
+
+/**
+ * Fetch content from public IPFS gateways and hash it locally
+ * Gateways are queried in parallel but accepted in order; a response that does not match the CID
+ * is rejected and the next gateway is tried
+ */
+export async function fetchVerifiedFromGateways(cid: string, gateways: string[] = gatewayUrls()): Promise<VerifiedContent> {
+  const parsed = parseCid(cid);
+
+  const responses = gateways.map((gateway) =>
+    _fetchBytes(`${gateway}${cid}`).then(
+      (bytes) => ({ bytes }),
+      (error: unknown) => ({ error })
+    )
+  );
+
+  const failures: string[] = [];
+  for (const [i, gateway] of gateways.entries()) {
+    const response = await responses[i]!;
+    if (!('bytes' in response)) {
+      failures.push(`${gateway}: ${response.error instanceof Error ? response.error.message : String(response.error)}`);
+      continue;
+    }
+
+    let bytes = response.bytes;
+    let verified = verifyCidContent(parsed, bytes);
+    if (verified === undefined) {
+      // Multi-block file - walk the DAG block by block from the same gateway
+      try {
+        bytes = await _fetchUnixfsFile(parsed, gateway);
+        verified = true;
+      } catch (error) {
+        failures.push(`${gateway}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+    }
+    if (!verified) {
+      failures.push(`${gateway}: content does not match CID`);
+      continue;
+    }
+
+    return { data: new TextDecoder().decode(bytes), verified: true, source: `${gateway}${cid}` };
+  }
+
+  throw new Error(`Failed to retrieve verified data for ${cid} from all IPFS gateways (${failures.join('; ')})`);
+}
+
+async function _fetchBytes(url: string, headers?: Record<string, string>): Promise<Uint8Array> {
+  const init: RequestInit = { signal: AbortSignal.timeout(TIMEOUTS.IPFS_GATEWAY) };
+  if (headers) {
+    init.headers = headers;
+  }
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Reassemble a UnixFS file from raw blocks, checking every block against its CID
+ */
+async function _fetchUnixfsFile(root: ParsedCid, gateway: string): Promise<Uint8Array> {
+  let remaining = MAX_DAG_BLOCKS;
+
+  const read = async (cid: ParsedCid): Promise<Uint8Array[]> => {
+    if (--remaining < 0) {
+      throw new Error(`DAG exceeds ${MAX_DAG_BLOCKS} blocks`);
+    }
+    const block = await _fetchBytes(`${gateway}${formatCid(cid)}?format=raw`, { Accept: 'application/vnd.ipld.raw' });
+    if (!blockMatchesCid(cid, block)) {
+      throw new Error(`block ${formatCid(cid)} does not match its CID`);
+    }
+    if (cid.codec === CODEC_RAW) {
+      return [block];
+    }
+    if (cid.codec !== CODEC_DAG_PB) {
+      throw new Error(`unsupported codec 0x${cid.codec.toString(16)} in DAG`);
+    }
+
+    const node = decodeDagPbNode(block);
+    const parts = node.data ? [node.data] : [];
+    for (const link of node.links) {
+      parts.push(...await read(link));
+    }
+    return parts;
+  };
+
+  const parts = await read(root);
+  const file = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    file.set(part, offset);
+    offset += part.length;
+  }
+  return file;
+}
@@ -241,6 +241,26 @@ export class SubgraphClient {
     }
   }
 
+  /**
+   * Get the feedbackUri and feedbackHash of one feedback by its ID ("chainId:tokenId:clientAddress:feedbackIndex")
+   */
+  async getFeedbackRecord(feedbackId: string): Promise<{ feedbackUri?: string | null; feedbackHash?: string | null } | null> {
+    const query = `
+      query GetFeedback($feedbackId: ID!) {
+        feedback(id: $feedbackId) {
+          feedbackUri
+          feedbackHash
+        }
+      }
+    `;
+
+    const data = await this.query<{ feedback: { feedbackUri?: string | null; feedbackHash?: string | null } | null }>(
+      query,
+      { feedbackId }
+    );
+    return data.feedback;
+  }
+
   /**
    * Transform raw subgraph agent data to AgentSummary
    */
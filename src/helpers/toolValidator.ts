@@ -0,0 +1,242 @@
+/**
+ * Checks task arguments against a tool's published parameters before the call is paid for
+ */
+
+import type { Tool } from './function-tools.js';
+
+/**
+ * One problem with the arguments
+ */
+export interface ToolArgumentIssue {
+  path: string; // Argument path, e.g. "qty" or "items[0].sku" ("" for the whole object)
+  keyword: string; // Failed check: required, type, enum, unknown, or the JSON Schema keyword
+  message: string;
+}
+
+/**
+ * Thrown before payment when arguments do not match the tool definition
+ */
+export class InvalidToolArguments extends Error {
+  readonly name = 'InvalidToolArguments';
+
+  constructor(readonly tool: string, readonly issues: ToolArgumentIssue[]) {
+    super(`Invalid arguments for ${tool}: ${issues.map((issue) => issue.path ? `${issue.path} ${issue.message}` : issue.message).join('; ')}`);
+  }
+}
+
+type JsonSchema = Record<string, any>;
+
+/**
+ * Validate arguments against the tool's JSON Schema (inputSchema) or, without one, its parameter list
+ * @returns Every issue found (empty when valid)
+ */
+export function validateToolArguments(tool: Tool, args: Record<string, unknown>): ToolArgumentIssue[] {
+  if (tool.inputSchema) {
+    return validateJsonSchema(tool.inputSchema, args);
+  }
+
+  const issues: ToolArgumentIssue[] = [];
+  // Tool listings stored as-is (e.g. from MCP servers) may have no parameter list
+  const parameters = tool.parameters ?? [];
+  const known = new Set(parameters.map((parameter) => parameter.name));
+  for (const parameter of parameters) {
+    const value = args[parameter.name];
+    if (value === undefined || value === null) {
+      if (parameter.required) {
+        issues.push({ path: parameter.name, keyword: 'required', message: 'is required' });
+      }
+      continue;
+    }
+    if (!matchesType(parameter.type, value)) {
+      issues.push({ path: parameter.name, keyword: 'type', message: `must be ${parameter.type}` });
+    } else if (parameter.enum && !parameter.enum.some((option) => option === value || option === String(value))) {
+      issues.push({ path: parameter.name, keyword: 'enum', message: `must be one of ${parameter.enum.join(', ')}` });
+    }
+  }
+  for (const name of Object.keys(args)) {
+    if (!known.has(name)) {
+      issues.push({ path: name, keyword: 'unknown', message: 'is not a parameter of this tool' });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validate arguments and throw when they do not match the tool definition
+ * @throws InvalidToolArguments
+ */
+export function assertToolArguments(tool: Tool, args: Record<string, unknown>): void {
+  const issues = validateToolArguments(tool, args);
+  if (issues.length > 0) {
+    throw new InvalidToolArguments(tool.name || tool.endpoint, issues);
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema
+ * Supports type, enum, const, properties, required, additionalProperties, items, the numeric, string and
+ * array bounds, pattern, allOf, anyOf, oneOf and not; $ref and format are not resolved
+ */
+export function validateJsonSchema(schema: JsonSchema | boolean, value: unknown, path: string = ''): ToolArgumentIssue[] {
+  if (schema === true) {
+    return [];
+  }
+  if (schema === false) {
+    return [{ path, keyword: 'false', message: 'is not allowed' }];
+  }
+
+  const issues: ToolArgumentIssue[] = [];
+  const fail = (keyword: string, message: string) => issues.push({ path, keyword, message });
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      fail('type', `must be ${types.join(' or ')}`);
+      return issues;
+    }
+  }
+  if (schema.enum && !schema.enum.some((option: unknown) => deepEqual(option, value))) {
+    fail('enum', `must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    fail('const', `must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      fail('minimum', `must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      fail('maximum', `must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      fail('exclusiveMinimum', `must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      fail('exclusiveMaximum', `must be < ${schema.exclusiveMaximum}`);
+    }
+    if (typeof schema.multipleOf === 'number' && !Number.isInteger(value / schema.multipleOf)) {
+      fail('multipleOf', `must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    const length = [...value].length;
+    if (typeof schema.minLength === 'number' && length < schema.minLength) {
+      fail('minLength', `must have at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+      fail('maxLength', `must have at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      let pattern: RegExp | undefined;
+      try {
+        pattern = new RegExp(schema.pattern, 'u');
+      } catch {
+        fail('pattern', `cannot be checked: the schema pattern ${schema.pattern} is not a valid regular expression`);
+      }
+      if (pattern && !pattern.test(value)) {
+        fail('pattern', `must match ${schema.pattern}`);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      fail('minItems', `must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      fail('maxItems', `must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems === true && value.some((item, i) => value.findIndex((other) => deepEqual(item, other)) !== i)) {
+      fail('uniqueItems', 'must not contain duplicates');
+    }
+    if (schema.items !== undefined && !Array.isArray(schema.items)) {
+      value.forEach((item, i) => issues.push(...validateJsonSchema(schema.items, item, `${path}[${i}]`)));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties: Record<string, JsonSchema | boolean> = schema.properties || {};
+    for (const name of schema.required || []) {
+      if (value[name] === undefined) {
+        issues.push({ path: join(path, name), keyword: 'required', message: 'is required' });
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(value)) {
+      if (propertyValue === undefined) {
+        continue;
+      }
+      const propertySchema = properties[name];
+      if (propertySchema !== undefined) {
+        issues.push(...validateJsonSchema(propertySchema, propertyValue, join(path, name)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: join(path, name), keyword: 'additionalProperties', message: 'is not a parameter of this tool' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateJsonSchema(schema.additionalProperties, propertyValue, join(path, name)));
+      }
+    }
+  }
+
+  for (const subschema of schema.allOf || []) {
+    issues.push(...validateJsonSchema(subschema, value, path));
+  }
+  if (schema.anyOf && !schema.anyOf.some((subschema: JsonSchema) => validateJsonSchema(subschema, value, path).length === 0)) {
+    fail('anyOf', 'must match at least one allowed schema');
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((subschema: JsonSchema) => validateJsonSchema(subschema, value, path).length === 0).length;
+    if (matches !== 1) {
+      fail('oneOf', `must match exactly one allowed schema (matched ${matches})`);
+    }
+  }
+  if (schema.not !== undefined && validateJsonSchema(schema.not, value, path).length === 0) {
+    fail('not', 'must not match the excluded schema');
+  }
+
+  return issues;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type.toLowerCase()) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      // Types we do not know (e.g. "address") are not checked
+      return true;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function join(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
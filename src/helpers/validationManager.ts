@@ -0,0 +1,384 @@
+/**
+ * Validation management system for Agent0 SDK
+ */
+
+import { ethers } from 'ethers';
+import type { ValidationRequestResult, ValidationStatus } from '../types/interfaces.js';
+import type { AgentId, Address, URI } from '../types/common.js';
+import type { Web3Client } from './web3client.js';
+import type { IPFSClient } from './ipfsClient.js';
+import { parseAgentId, formatAgentId } from '../utils/id-format.js';
+import { isValidAddress, isValidScore } from '../utils/validation.js';
+import { canonicalJson } from '../utils/canonical-json.js';
+
+const ZERO_BYTES32 = '0x' + '00'.repeat(32);
+
+/**
+ * keccak256 of a validation request (or response) file's canonical JSON, as submitted on-chain
+ */
+export function computeRequestHash(requestFile: Record<string, unknown>): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalJson(requestFile)));
+}
+
+/**
+ * Manages validation requests and responses against the ERC-8004 validation registry
+ */
+export class ValidationManager {
+  constructor(
+    private web3Client: Web3Client,
+    private ipfsClient?: IPFSClient,
+    private validationRegistry?: ethers.Contract,
+    private identityRegistry?: ethers.Contract
+  ) {}
+
+  /**
+   * Set validation registry contract (for lazy initialization)
+   */
+  setValidationRegistry(registry: ethers.Contract): void {
+    this.validationRegistry = registry;
+  }
+
+  /**
+   * Set identity registry contract (for lazy initialization)
+   */
+  setIdentityRegistry(registry: ethers.Contract): void {
+    this.identityRegistry = registry;
+  }
+
+  /**
+   * Prepare validation request file (local file/object)
+   * `data` carries whatever the validator needs to re-run or check the work (inputs, outputs, proofs)
+   */
+  prepareValidationRequest(
+    agentId: AgentId,
+    validatorAddress: Address,
+    data?: Record<string, unknown>,
+    description?: string,
+    extra?: Record<string, unknown>
+  ): Record<string, unknown> {
+    const { tokenId } = parseAgentId(agentId);
+
+    const chainId = this.web3Client.chainId;
+    const identityRegistryAddress = this.identityRegistry
+      ? (this.identityRegistry.target as string)
+      : '0x0';
+    const requesterAddress = this.web3Client.address || '0x0';
+
+    const requestData: Record<string, unknown> = {
+      // MUST FIELDS
+      agentRegistry: `eip155:${chainId}:${identityRegistryAddress}`,
+      agentId: tokenId,
+      validatorAddress: `eip155:${chainId}:${validatorAddress}`,
+      requesterAddress: `eip155:${chainId}:${requesterAddress}`,
+      createdAt: new Date().toISOString(),
+
+      // MAY FIELDS
+      description,
+      data,
+    };
+
+    // Remove undefined values to keep the structure clean
+    const cleaned: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(requestData)) {
+      if (value !== undefined && value !== null) {
+        cleaned[key] = value;
+      }
+    }
+
+    if (extra) {
+      Object.assign(cleaned, extra);
+    }
+
+    return cleaned;
+  }
+
+  /**
+   * Compute the request hash for a validation request file
+   * keccak256 of its canonical JSON (keys sorted at every level, so the nested request data is covered)
+   */
+  computeRequestHash(requestFile: Record<string, unknown>): string {
+    return computeRequestHash(requestFile);
+  }
+
+  /**
+   * Request validation of an agent's work from a validator (maps 8004 validationRequest)
+   * The request file is uploaded to IPFS unless a requestUri is provided
+   */
+  async requestValidation(
+    agentId: AgentId,
+    validatorAddress: Address,
+    requestFile: Record<string, unknown>,
+    requestUri?: URI
+  ): Promise<ValidationRequestResult> {
+    if (!this.validationRegistry) {
+      throw new Error('Validation registry not available');
+    }
+    if (!isValidAddress(validatorAddress)) {
+      throw new Error(`Invalid validator address: ${validatorAddress}`);
+    }
+
+    const { tokenId } = parseAgentId(agentId);
+
+    // Store request file off-chain
+    let uri = requestUri;
+    if (!uri) {
+      if (!this.ipfsClient) {
+        throw new Error('Validation requests require IPFS client for storage (or an explicit requestUri)');
+      }
+      try {
+        const cid = await this.ipfsClient.addJson(requestFile);
+        uri = `ipfs://${cid}`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to store validation request on IPFS: ${errorMessage}`);
+      }
+    }
+
+    const requestHash = this.computeRequestHash(requestFile);
+
+    try {
+      const txHash = await this.web3Client.transactContract(
+        this.validationRegistry,
+        'validationRequest',
+        {},
+        validatorAddress,
+        BigInt(tokenId),
+        uri,
+        requestHash
+      );
+
+      // Wait for transaction confirmation
+      await this.web3Client.waitForTransaction(txHash);
+
+      return {
+        requestHash,
+        requestUri: uri,
+        validatorAddress,
+        agentId,
+        txHash,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to submit validation request: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Respond to a validation request as the validator (maps 8004 validationResponse)
+   * If a responseFile is given it is uploaded to IPFS and hashed; otherwise responseUri/responseHash are used as-is
+   */
+  async respondToValidation(
+    requestHash: string,
+    response: number,
+    options: {
+      tag?: string | undefined;
+      responseFile?: Record<string, unknown> | undefined;
+      responseUri?: URI | undefined;
+      responseHash?: string | undefined;
+    } = {}
+  ): Promise<string> {
+    if (!this.validationRegistry) {
+      throw new Error('Validation registry not available');
+    }
+    if (!isValidScore(response)) {
+      throw new Error(`Invalid validation response: ${response}. Expected an integer between 0 and 100`);
+    }
+
+    let responseUri = options.responseUri || '';
+    let responseHash = options.responseHash || ZERO_BYTES32;
+
+    if (options.responseFile) {
+      if (!this.ipfsClient) {
+        throw new Error('Validation response files require IPFS client for storage');
+      }
+      try {
+        const cid = await this.ipfsClient.addJson(options.responseFile);
+        responseUri = `ipfs://${cid}`;
+        responseHash = this.computeRequestHash(options.responseFile);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to store validation response on IPFS: ${errorMessage}`);
+      }
+    }
+
+    try {
+      const txHash = await this.web3Client.transactContract(
+        this.validationRegistry,
+        'validationResponse',
+        {},
+        requestHash,
+        response,
+        responseUri,
+        responseHash,
+        this._stringToBytes32(options.tag || '')
+      );
+
+      return txHash;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to submit validation response: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Read validation status for a request hash
+   */
+  async getValidationStatus(requestHash: string): Promise<ValidationStatus> {
+    if (!this.validationRegistry) {
+      throw new Error('Validation registry not available');
+    }
+
+    try {
+      const [validatorAddress, agentTokenId, response, tagBytes, lastUpdate] = await this.web3Client.callContract(
+        this.validationRegistry,
+        'getValidationStatus',
+        requestHash
+      );
+
+      if (this.web3Client.chainId === 0n) {
+        await this.web3Client.initialize();
+      }
+
+      const tag = this._bytes32ToString(tagBytes);
+      const responseValue = Number(response);
+
+      // The registry stores 0 both before a response and for a "failed" response,
+      // so a zero response without a tag is confirmed against ValidationResponse events
+      let responded = responseValue > 0 || tag !== undefined;
+      if (!responded && Number(lastUpdate) > 0) {
+        responded = await this._hasResponseEvent(requestHash, Number(lastUpdate));
+      }
+
+      return {
+        requestHash,
+        validatorAddress,
+        agentId: formatAgentId(Number(this.web3Client.chainId), Number(agentTokenId)),
+        response: responded ? responseValue : undefined,
+        tag,
+        lastUpdate: Number(lastUpdate) || undefined,
+        responded,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read validation status: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Get all validation request hashes for an agent
+   */
+  async getAgentValidations(agentId: AgentId): Promise<string[]> {
+    if (!this.validationRegistry) {
+      throw new Error('Validation registry not available');
+    }
+
+    const { tokenId } = parseAgentId(agentId);
+    const hashes = await this.web3Client.callContract(
+      this.validationRegistry,
+      'getAgentValidations',
+      BigInt(tokenId)
+    );
+    return Array.from(hashes as string[]);
+  }
+
+  /**
+   * Get all validation request hashes addressed to a validator
+   */
+  async getValidatorRequests(validatorAddress: Address): Promise<string[]> {
+    if (!this.validationRegistry) {
+      throw new Error('Validation registry not available');
+    }
+
+    const hashes = await this.web3Client.callContract(
+      this.validationRegistry,
+      'getValidatorRequests',
+      validatorAddress
+    );
+    return Array.from(hashes as string[]);
+  }
+
+  /**
+   * Get validation summary (count and average response) for an agent
+   */
+  async getValidationSummary(
+    agentId: AgentId,
+    validatorAddresses: Address[] = [],
+    tag?: string
+  ): Promise<{ count: number; averageResponse: number }> {
+    if (!this.validationRegistry) {
+      throw new Error('Validation registry not available');
+    }
+
+    const { tokenId } = parseAgentId(agentId);
+
+    try {
+      const [count, avgResponse] = await this.web3Client.callContract(
+        this.validationRegistry,
+        'getSummary',
+        BigInt(tokenId),
+        validatorAddresses,
+        this._stringToBytes32(tag || '')
+      );
+
+      return {
+        count: Number(count),
+        averageResponse: Number(avgResponse),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to get validation summary: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Check whether a ValidationResponse event exists for a request hash
+   * A response is the latest update of a request, so its event is in the blocks mined at lastUpdate
+   * @throws Error if the logs cannot be read
+   */
+  private async _hasResponseEvent(requestHash: string, lastUpdate: number): Promise<boolean> {
+    if (!this.validationRegistry) {
+      throw new Error('Validation registry not available');
+    }
+    const { fromBlock, toBlock } = await this.web3Client.getBlockRangeAt(lastUpdate);
+    const logs = await this.web3Client.getEvents(
+      this.validationRegistry,
+      'ValidationResponse',
+      fromBlock,
+      toBlock,
+      [null, null, requestHash]
+    );
+    return logs.length > 0;
+  }
+
+  /**
+   * Convert string to bytes32 for blockchain storage
+   */
+  private _stringToBytes32(text: string): string {
+    if (!text) {
+      return ZERO_BYTES32;
+    }
+
+    // Encode as UTF-8 and pad/truncate to 32 bytes
+    const encoded = new TextEncoder().encode(text);
+    const padded = new Uint8Array(32);
+    padded.set(encoded.slice(0, Math.min(encoded.length, 32)), 0);
+
+    return ethers.hexlify(padded);
+  }
+
+  /**
+   * Convert bytes32 back to string (undefined for empty)
+   */
+  private _bytes32ToString(value: string): string | undefined {
+    if (!value || value === ZERO_BYTES32) {
+      return undefined;
+    }
+    try {
+      const text = ethers.toUtf8String(value).replace(/\0/g, '').trim();
+      return text || undefined;
+    } catch {
+      // If UTF-8 decode fails, skip the tag
+      return undefined;
+    }
+  }
+}
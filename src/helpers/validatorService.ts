@@ -0,0 +1,477 @@
+/**
+ * Validator service that watches the validation registry and answers requests
+ */
+
+import { ethers } from 'ethers';
+import type { AgentId, Address, URI } from '../types/common.js';
+import type { FluidSDK } from '../index.js';
+import { formatAgentId } from '../utils/id-format.js';
+import { normalizeAddress } from '../utils/validation.js';
+import { computeRequestHash } from './validationManager.js';
+
+/**
+ * Validation request picked up from the registry
+ */
+export interface ValidationRequestEvent {
+  requestHash: string;
+  validatorAddress: Address;
+  agentId: AgentId;
+  requestUri: URI;
+  requestFile: Record<string, unknown>;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Validator decision returned by the handler
+ */
+export interface ValidationDecision {
+  response: number; // 0-100
+  tag?: string | undefined;
+  responseFile?: Record<string, unknown> | undefined;
+}
+
+/**
+ * Handler invoked for every request; return null to skip responding
+ */
+export type ValidationHandler = (request: ValidationRequestEvent) => Promise<ValidationDecision | null>;
+
+/**
+ * Request whose fetch or handling failed, kept for retry
+ */
+export interface PendingValidationRequest {
+  requestHash: string;
+  validatorAddress: Address;
+  agentId: AgentId;
+  requestUri: URI;
+  blockNumber: number;
+  transactionHash: string;
+  attempts: number;
+  nextAttemptAt: number; // ms timestamp
+  lastError?: string | undefined;
+}
+
+/**
+ * Persists the last fully processed block, and optionally the requests waiting for a retry
+ * Stores without saveRetries keep the checkpoint before the earliest failed request, so a restart rescans it
+ */
+export interface CheckpointStore {
+  load(): Promise<number | undefined>;
+  save(blockNumber: number): Promise<void>;
+  loadRetries?(): Promise<PendingValidationRequest[]>;
+  saveRetries?(requests: PendingValidationRequest[]): Promise<void>;
+}
+
+export interface ValidatorServiceOptions {
+  validatorAddress: Address;
+  handler: ValidationHandler;
+  checkpointStore?: CheckpointStore;
+  checkpointPath?: string; // Used for a FileCheckpointStore when no checkpointStore is given
+  startBlock?: number; // First block to scan when no checkpoint exists (default: latest)
+  pollInterval?: number; // ms between polls (default: 15000)
+  blockRange?: number; // max blocks per getEvents query (default: 2000)
+  confirmations?: number; // blocks to wait before processing (default: 2)
+  maxAttempts?: number; // tries per failed request before giving up (default: 5)
+  onError?: (error: Error, request?: ValidationRequestEvent) => void;
+}
+
+/**
+ * Checkpoint store backed by a JSON file
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<number | undefined> {
+    const data = await this._read();
+    return typeof data.blockNumber === 'number' ? data.blockNumber : undefined;
+  }
+
+  async save(blockNumber: number): Promise<void> {
+    await this._write({ ...(await this._read()), blockNumber });
+  }
+
+  async loadRetries(): Promise<PendingValidationRequest[]> {
+    const data = await this._read();
+    return Array.isArray(data.retries) ? data.retries as PendingValidationRequest[] : [];
+  }
+
+  async saveRetries(requests: PendingValidationRequest[]): Promise<void> {
+    await this._write({ ...(await this._read()), retries: requests });
+  }
+
+  private async _read(): Promise<{ blockNumber?: unknown; retries?: unknown }> {
+    try {
+      const fs = await import('fs/promises');
+      const content = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(content) as { blockNumber?: unknown; retries?: unknown };
+    } catch {
+      // Missing or unreadable checkpoint - start fresh
+      return {};
+    }
+  }
+
+  private async _write(data: Record<string, unknown>): Promise<void> {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated checkpoint
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify({ ...data, updatedAt: Math.floor(Date.now() / 1000) }));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Checkpoint store kept in memory (not persisted across restarts)
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+  private blockNumber: number | undefined;
+  private retries: PendingValidationRequest[] = [];
+
+  async load(): Promise<number | undefined> {
+    return this.blockNumber;
+  }
+
+  async save(blockNumber: number): Promise<void> {
+    this.blockNumber = blockNumber;
+  }
+
+  async loadRetries(): Promise<PendingValidationRequest[]> {
+    return this.retries.map((request) => ({ ...request }));
+  }
+
+  async saveRetries(requests: PendingValidationRequest[]): Promise<void> {
+    this.retries = requests.map((request) => ({ ...request }));
+  }
+}
+
+/**
+ * Long-running service that polls ValidationRequest events addressed to a validator,
+ * runs the user handler and submits validationResponse
+ * Requests whose file cannot be fetched or whose handler fails are retried with backoff, up to maxAttempts
+ */
+export class ValidatorService {
+  private readonly validatorAddress: Address;
+  private readonly handler: ValidationHandler;
+  private readonly checkpointStore: CheckpointStore;
+  private readonly pollInterval: number;
+  private readonly blockRange: number;
+  private readonly confirmations: number;
+  private readonly maxAttempts: number;
+  private readonly startBlock?: number | undefined;
+  private readonly onError?: ((error: Error, request?: ValidationRequestEvent) => void) | undefined;
+  private _running = false;
+  private _timer: ReturnType<typeof setTimeout> | undefined;
+  private _lastBlock: number | undefined;
+  private _pending: Map<string, PendingValidationRequest> | undefined; // By requestHash
+
+  constructor(private sdk: FluidSDK, options: ValidatorServiceOptions) {
+    if (!sdk.web3Client.isAddress(options.validatorAddress)) {
+      throw new Error(`Invalid validator address: ${options.validatorAddress}`);
+    }
+
+    this.validatorAddress = sdk.web3Client.toChecksumAddress(options.validatorAddress);
+    this.handler = options.handler;
+    this.checkpointStore = options.checkpointStore
+      || new FileCheckpointStore(options.checkpointPath || `.fluidsdk/validator-${normalizeAddress(this.validatorAddress)}.json`);
+    this.pollInterval = options.pollInterval ?? 15000;
+    this.blockRange = options.blockRange ?? 2000;
+    this.confirmations = options.confirmations ?? 2;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.startBlock = options.startBlock;
+    this.onError = options.onError;
+  }
+
+  /**
+   * Whether the polling loop is active
+   */
+  get isRunning(): boolean {
+    return this._running;
+  }
+
+  /**
+   * Last block fully processed
+   */
+  get lastProcessedBlock(): number | undefined {
+    return this._lastBlock;
+  }
+
+  /**
+   * Requests waiting for a retry
+   */
+  get pendingRequests(): PendingValidationRequest[] {
+    return [...(this._pending?.values() ?? [])].map((request) => ({ ...request }));
+  }
+
+  /**
+   * Start polling; resumes from the stored checkpoint
+   */
+  async start(): Promise<void> {
+    if (this._running) {
+      return;
+    }
+
+    this._lastBlock = await this.checkpointStore.load();
+    if (this._lastBlock === undefined) {
+      // No checkpoint - begin at startBlock (or the current head)
+      this._lastBlock = this.startBlock !== undefined
+        ? this.startBlock - 1
+        : (await this.sdk.web3Client.getBlockNumber()) - this.confirmations;
+      await this.checkpointStore.save(this._lastBlock);
+    }
+
+    this._running = true;
+    this._schedule(0);
+  }
+
+  /**
+   * Stop polling (in-flight handlers are allowed to finish)
+   */
+  stop(): void {
+    this._running = false;
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+  }
+
+  /**
+   * Process all confirmed blocks since the last checkpoint once
+   * @returns Number of requests handled
+   */
+  async poll(): Promise<number> {
+    if (this._lastBlock === undefined) {
+      this._lastBlock = (await this.checkpointStore.load()) ?? (this.startBlock !== undefined ? this.startBlock - 1 : undefined);
+      if (this._lastBlock === undefined) {
+        throw new Error('No checkpoint or startBlock available. Call start() or pass startBlock.');
+      }
+    }
+
+    if (!this._pending) {
+      const retries = this.checkpointStore.loadRetries ? await this.checkpointStore.loadRetries() : [];
+      this._pending = new Map(retries.map((request) => [request.requestHash, request]));
+    }
+
+    const head = (await this.sdk.web3Client.getBlockNumber()) - this.confirmations;
+    let handled = await this._retryPending();
+
+    while (this._lastBlock < head) {
+      const fromBlock = this._lastBlock + 1;
+      const toBlock = Math.min(fromBlock + this.blockRange - 1, head);
+
+      const logs = await this.sdk.web3Client.getEvents(
+        this.sdk.getValidationRegistry(),
+        'ValidationRequest',
+        fromBlock,
+        toBlock,
+        [this.validatorAddress]
+      );
+
+      for (const log of logs) {
+        const request = await this._parseRequestLog(log);
+        if (!request || this._pending.has(request.requestHash)) {
+          continue;
+        }
+        const error = await this._processRequest(request);
+        if (error === undefined) {
+          handled++;
+        } else if (error !== null) {
+          this._pending.set(request.requestHash, {
+            ...request,
+            attempts: 1,
+            nextAttemptAt: Date.now() + this.pollInterval,
+            lastError: error.message,
+          });
+        }
+      }
+
+      // Persist progress after each range so a restart resumes here
+      this._lastBlock = toBlock;
+      await this._saveProgress(toBlock);
+    }
+
+    return handled;
+  }
+
+  /**
+   * Retry pending requests that are due; backoff doubles with each attempt
+   * @returns Number of requests answered
+   */
+  private async _retryPending(): Promise<number> {
+    let handled = 0;
+    let changed = false;
+    for (const request of [...this._pending!.values()]) {
+      if (request.nextAttemptAt > Date.now()) {
+        continue;
+      }
+      changed = true;
+      const error = await this._processRequest(request);
+      if (error === undefined) {
+        handled++;
+      }
+      if (!error) {
+        this._pending!.delete(request.requestHash);
+      } else if (request.attempts + 1 >= this.maxAttempts) {
+        this._pending!.delete(request.requestHash);
+        this._reportError(new Error(
+          `Giving up on validation request ${request.requestHash} after ${request.attempts + 1} attempts: ${error.message}`
+        ));
+      } else {
+        request.attempts++;
+        request.nextAttemptAt = Date.now() + this.pollInterval * 2 ** request.attempts;
+        request.lastError = error.message;
+      }
+    }
+    if (changed && this._lastBlock !== undefined) {
+      await this._saveProgress(this._lastBlock);
+    }
+    return handled;
+  }
+
+  /**
+   * Save the checkpoint and retry queue; without a persisted queue the checkpoint stays before the earliest
+   * pending request so it is picked up again after a restart
+   */
+  private async _saveProgress(lastBlock: number): Promise<void> {
+    const pending = [...this._pending!.values()];
+    if (this.checkpointStore.saveRetries) {
+      await this.checkpointStore.saveRetries(pending);
+      await this.checkpointStore.save(lastBlock);
+      return;
+    }
+    const earliest = Math.min(lastBlock + 1, ...pending.map((request) => request.blockNumber));
+    await this.checkpointStore.save(earliest - 1);
+  }
+
+  private _schedule(delay: number): void {
+    this._timer = setTimeout(async () => {
+      if (!this._running) {
+        return;
+      }
+      try {
+        await this.poll();
+      } catch (error) {
+        this._reportError(error);
+      }
+      if (this._running) {
+        this._schedule(this.pollInterval);
+      }
+    }, delay);
+  }
+
+  /**
+   * Decode a ValidationRequest log
+   */
+  private async _parseRequestLog(log: ethers.Log): Promise<Omit<PendingValidationRequest, 'attempts' | 'nextAttemptAt'> | null> {
+    const registry = this.sdk.getValidationRegistry();
+    const parsed = registry.interface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed || parsed.name !== 'ValidationRequest') {
+      return null;
+    }
+
+    const chainId = await this.sdk.chainId();
+    return {
+      requestHash: parsed.args.requestHash,
+      validatorAddress: parsed.args.validatorAddress,
+      agentId: formatAgentId(chainId, Number(parsed.args.agentId)),
+      requestUri: parsed.args.requestUri,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    };
+  }
+
+  /**
+   * Fetch the request file, check it against the on-chain requestHash, run the handler and respond
+   * @returns undefined if a response was submitted, null if the request was skipped for good,
+   * or the error to retry on
+   */
+  private async _processRequest(
+    request: Omit<PendingValidationRequest, 'attempts' | 'nextAttemptAt'>
+  ): Promise<Error | null | undefined> {
+    let requestFile: Record<string, unknown>;
+    let raw: string;
+    try {
+      ({ requestFile, raw } = await this._fetchRequestFile(request.requestUri));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const fetchError = new Error(`Failed to fetch validation request ${request.requestUri}: ${errorMessage}`);
+      this._reportError(fetchError);
+      return fetchError;
+    }
+
+    // Accept the canonical JSON hash this SDK submits, or keccak256 of the file bytes as other clients hash it
+    const expected = request.requestHash.toLowerCase();
+    const rawHash = ethers.keccak256(ethers.toUtf8Bytes(raw)).toLowerCase();
+    if (computeRequestHash(requestFile).toLowerCase() !== expected && rawHash !== expected) {
+      // The file does not match what was requested on-chain - never answer it
+      this._reportError(new Error(
+        `Validation request file ${request.requestUri} does not match requestHash ${request.requestHash} `
+        + `(canonical JSON or raw bytes)`
+      ));
+      return null;
+    }
+
+    const { requestHash, validatorAddress, agentId, requestUri, blockNumber, transactionHash } = request;
+    return this._handleRequest({ requestHash, validatorAddress, agentId, requestUri, requestFile, blockNumber, transactionHash });
+  }
+
+  /**
+   * Request file as published (raw) and parsed
+   */
+  private async _fetchRequestFile(requestUri: string): Promise<{ requestFile: Record<string, unknown>; raw: string }> {
+    let raw: string;
+    if (requestUri.startsWith('ipfs://')) {
+      if (!this.sdk.ipfsClient) {
+        throw new Error('IPFS client required to fetch ipfs:// request files');
+      }
+      raw = await this.sdk.ipfsClient.get(requestUri.slice(7));
+    } else if (requestUri.startsWith('http://') || requestUri.startsWith('https://')) {
+      const response = await fetch(requestUri);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      raw = await response.text();
+    } else {
+      throw new Error(`Unsupported URI scheme: ${requestUri}`);
+    }
+    return { requestFile: JSON.parse(raw) as Record<string, unknown>, raw };
+  }
+
+  /**
+   * Run the handler and submit its response
+   * @returns undefined if a response was submitted, null if none is needed, or the error to retry on
+   */
+  private async _handleRequest(request: ValidationRequestEvent): Promise<Error | null | undefined> {
+    try {
+      // Skip requests already answered (e.g. processed before a crash mid-range)
+      const status = await this.sdk.getValidationStatus(request.requestHash, request.agentId);
+      if (status.responded) {
+        return null;
+      }
+
+      const decision = await this.handler(request);
+      if (!decision) {
+        return null;
+      }
+
+      await this.sdk.respondToValidation(request.requestHash, decision.response, {
+        tag: decision.tag,
+        responseFile: decision.responseFile,
+        agentId: request.agentId,
+      });
+      return undefined;
+    } catch (error) {
+      this._reportError(error, request);
+      return error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  private _reportError(error: unknown, request?: ValidationRequestEvent): void {
+    const err = error instanceof Error ? error : new Error(String(error));
+    if (this.onError) {
+      this.onError(err, request);
+    } else {
+      console.error(`[ValidatorService] ${err.message}`);
+    }
+  }
+}
@@ -6,6 +6,8 @@ import {
   type JsonRpcProvider,
   type InterfaceAbi,
 } from 'ethers';
+import type { RegistryBackend } from './registryBackend.js';
+import { MULTICALL_ABI } from './contracts.js';
 
 export interface TransactionOptions {
   gasLimit?: bigint;
@@ -14,20 +16,44 @@ export interface TransactionOptions {
   maxPriorityFeePerGas?: bigint;
 }
 
+/**
+ * Gas and fee estimate for a transaction
+ */
+export interface TransactionEstimate {
+  gas: bigint;
+  maxFeePerGas: bigint; // Or the legacy gas price
+  fee: bigint; // gas * maxFeePerGas, in wei (upper bound)
+}
+
+/**
+ * One contract call of a batch
+ */
+export interface ContractCall {
+  method: string;
+  args: any[];
+}
+
 export class Web3Client {
-  private static instance: Web3Client | null = null;
-  
   public readonly provider: JsonRpcProvider;
   public readonly signer?: Wallet | Signer;
+  public readonly backend?: RegistryBackend;
   public chainId: bigint;
 
   /**
-   * Private constructor to prevent direct instantiation
+   * Use Web3Client.fromRpc() or Web3Client.fromBackend() to create a client
    * @param rpcUrl - RPC endpoint URL
    * @param signerOrKey - Optional private key string OR ethers Wallet/Signer for signing transactions
+   * @param backend - Optional registry backend that replaces the JSON-RPC node for contract calls
    */
-  private constructor(rpcUrl: string, signerOrKey?: string | Wallet | Signer) {
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+  private constructor(rpcUrl: string | undefined, signerOrKey?: string | Wallet | Signer, backend?: RegistryBackend) {
+    if (backend) {
+      // Static network so the (unused) provider never tries to reach a node
+      const network = ethers.Network.from(Number(backend.chainId));
+      this.provider = new ethers.JsonRpcProvider(rpcUrl, network, { staticNetwork: network });
+      this.backend = backend;
+    } else {
+      this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    }
     
     if (signerOrKey) {
       if (typeof signerOrKey === 'string') {
@@ -59,43 +85,38 @@ export class Web3Client {
 
     // Get chain ID asynchronously (will be set in async initialization)
     // For now, we'll fetch it when needed
-    this.chainId = 0n;
+    this.chainId = backend ? backend.chainId : 0n;
   }
 
   /**
-   * Get or create singleton instance
-   * @param rpcUrl - RPC endpoint URL (required for first initialization)
+   * Create a client connected to a JSON-RPC node
+   * @param rpcUrl - RPC endpoint URL
    * @param signerOrKey - Optional private key string OR ethers Wallet/Signer for signing transactions
-   * @returns The singleton Web3Client instance
    */
-  static getInstance(rpcUrl?: string, signerOrKey?: string | Wallet | Signer): Web3Client {
-    if (!Web3Client.instance) {
-      if (!rpcUrl) {
-        throw new Error('rpcUrl is required for first initialization of Web3Client');
-      }
-      Web3Client.instance = new Web3Client(rpcUrl, signerOrKey);
+  static fromRpc(rpcUrl: string, signerOrKey?: string | Wallet | Signer): Web3Client {
+    if (!rpcUrl) {
+      throw new Error('rpcUrl is required to create a Web3Client');
     }
-    return Web3Client.instance;
-  }
-
-  /**
-   * Reset the singleton instance (useful for testing or reconnecting)
-   */
-  static resetInstance(): void {
-    Web3Client.instance = null;
+    return new Web3Client(rpcUrl, signerOrKey);
   }
 
   /**
-   * Check if instance exists
+   * Create a client backed by a registry backend
+   * @param backend - Registry backend, e.g. MemoryRegistryBackend
+   * @param signerOrKey - Optional private key string OR ethers Wallet/Signer used as transaction sender
    */
-  static hasInstance(): boolean {
-    return Web3Client.instance !== null;
+  static fromBackend(backend: RegistryBackend, signerOrKey?: string | Wallet | Signer): Web3Client {
+    return new Web3Client(undefined, signerOrKey, backend);
   }
 
   /**
    * Initialize the client (fetch chain ID)
    */
   async initialize(): Promise<void> {
+    if (this.backend) {
+      this.chainId = this.backend.chainId;
+      return;
+    }
     const network = await this.provider.getNetwork();
     this.chainId = network.chainId;
   }
@@ -116,6 +137,10 @@ export class Web3Client {
     methodName: string,
     ...args: any[]
   ): Promise<any> {
+    if (this.backend) {
+      return await this.backend.call(contract.target as string, contract.interface, methodName, args, await this.getAddress());
+    }
+
     const method = contract[methodName];
     if (!method || typeof method !== 'function') {
       throw new Error(`Method ${methodName} not found on contract`);
@@ -139,6 +164,11 @@ export class Web3Client {
       );
     }
 
+    if (this.backend) {
+      const from = await this.signer.getAddress();
+      return await this.backend.transact(contract.target as string, contract.interface, methodName, args, from);
+    }
+
     // Special handling for register() function with multiple overloads
     if (methodName === 'register') {
       return this.registerAgent(contract, options, ...args);
@@ -176,38 +206,8 @@ export class Web3Client {
       throw new Error('No signer available for transaction');
     }
 
-    const contractInterface = contract.interface;
-
-    // Determine which overload to use based on arguments
-    let functionName: string;
-    let callArgs: any[];
-
-    if (args.length === 0) {
-      // register() - no arguments
-      functionName = 'register()';
-      callArgs = [];
-    } else if (args.length === 1 && typeof args[0] === 'string') {
-      // register(string tokenUri) - just tokenUri
-      functionName = 'register(string)';
-      callArgs = [args[0]];
-    } else if (args.length === 2 && typeof args[0] === 'string' && Array.isArray(args[1])) {
-      // register(string tokenUri, tuple[] metadata) - tokenUri + metadata
-      functionName = 'register(string,(string,bytes)[])';
-      callArgs = [args[0], args[1]];
-    } else {
-      throw new Error(
-        `Invalid arguments for register(). Expected: () | (string) | (string, tuple[]), got ${args.length} arguments`
-      );
-    }
-
-    // Get the specific function fragment using the signature
-    const functionFragment = contractInterface.getFunction(functionName);
-    if (!functionFragment) {
-      throw new Error(`Function ${functionName} not found in contract ABI`);
-    }
-
     // Encode function data to avoid ambiguity - this bypasses function resolution
-    const data = contractInterface.encodeFunctionData(functionFragment, callArgs);
+    const data = encodeCall(contract, 'register', args);
     
     // Send transaction directly with encoded data (no function call resolution needed)
     const txResponse = await this.signer.sendTransaction({
@@ -218,6 +218,80 @@ export class Web3Client {
     return txResponse.hash;
   }
 
+  /**
+   * Estimate gas and fee for a contract transaction without sending it
+   * @returns undefined with a registry backend (no gas accounting)
+   * @throws Error if the call would revert
+   */
+  async estimateContractCall(contract: Contract, methodName: string, ...args: any[]): Promise<TransactionEstimate | undefined> {
+    if (this.backend) {
+      return undefined;
+    }
+
+    const from = await this.getAddress();
+    const [gas, feeData] = await Promise.all([
+      this.provider.estimateGas({
+        to: contract.target as string,
+        data: encodeCall(contract, methodName, args),
+        ...(from ? { from } : {}),
+      }),
+      this.provider.getFeeData(),
+    ]);
+    const maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    return { gas, maxFeePerGas, fee: gas * maxFeePerGas };
+  }
+
+  /**
+   * Whether calls to a contract can be sent as one transaction through its multicall(bytes[])
+   * Simulated from the signer's address: false when the contract has no multicall, any call would revert, or the
+   * result is not one bytes entry per call (e.g. a fallback function accepted the calldata).
+   * Always false with a registry backend, which serves the registries' own ABIs
+   */
+  async canMulticall(contract: Contract, calls: ContractCall[]): Promise<boolean> {
+    if (this.backend || calls.length === 0) {
+      return false;
+    }
+
+    const from = await this.getAddress();
+    try {
+      const result = await this.provider.call({
+        to: contract.target as string,
+        data: this.encodeMulticall(contract, calls),
+        ...(from ? { from } : {}),
+      });
+      const [results] = new ethers.Interface(MULTICALL_ABI).decodeFunctionResult('multicall', result);
+      return Array.isArray(results) && results.length === calls.length;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Send calls to a contract as one transaction through its multicall(bytes[]); they succeed or revert together
+   */
+  async transactMulticall(contract: Contract, calls: ContractCall[]): Promise<string> {
+    if (!this.signer) {
+      throw new Error(
+        'Cannot execute transaction: SDK is in read-only mode. Provide a private key to enable write operations.'
+      );
+    }
+
+    const txResponse = await this.signer.sendTransaction({
+      to: contract.target as string,
+      data: this.encodeMulticall(contract, calls),
+    });
+    return txResponse.hash;
+  }
+
+  /**
+   * Calldata for multicall(bytes[]) wrapping the given calls
+   */
+  encodeMulticall(contract: Contract, calls: ContractCall[]): string {
+    return new ethers.Interface(MULTICALL_ABI).encodeFunctionData('multicall', [
+      calls.map((call) => encodeCall(contract, call.method, call.args)),
+    ]);
+  }
+
   /**
    * Wait for transaction to be mined
    */
@@ -225,26 +299,112 @@ export class Web3Client {
     txHash: string,
     timeout: number = 60000
   ): Promise<ethers.ContractTransactionReceipt> {
+    if (this.backend) {
+      return await this.backend.waitForTransaction(txHash, timeout);
+    }
     return (await this.provider.waitForTransaction(txHash, undefined, timeout)) as ethers.ContractTransactionReceipt;
   }
 
   /**
    * Get contract events
+   * @param filterArgs - Optional values for indexed event parameters (use null to match any)
    */
   async getEvents(
     contract: Contract,
     eventName: string,
     fromBlock: number = 0,
-    toBlock?: number
+    toBlock?: number,
+    filterArgs: any[] = []
   ): Promise<ethers.Log[]> {
     const filterFactory = contract.filters[eventName];
     if (!filterFactory || typeof filterFactory !== 'function') {
       throw new Error(`Event ${eventName} not found on contract`);
     }
-    const filter = filterFactory();
+    if (this.backend) {
+      const fragment = contract.interface.getEvent(eventName);
+      if (!fragment) {
+        throw new Error(`Event ${eventName} not found on contract`);
+      }
+      return await this.backend.getLogs({
+        address: contract.target as string,
+        topics: contract.interface.encodeFilterTopics(fragment, filterArgs),
+        fromBlock,
+        toBlock,
+      });
+    }
+    const filter = filterFactory(...filterArgs);
     return await contract.queryFilter(filter, fromBlock, toBlock);
   }
 
+  /**
+   * Blocks that may hold events emitted at a unix timestamp: from the first block mined at or after it
+   * Found by binary search over block headers; with a registry backend (no headers, no range limits) the whole chain
+   * @param span - Blocks to cover from the first match, for chains that mine several blocks per second
+   */
+  async getBlockRangeAt(timestamp: number, span: number = 100): Promise<{ fromBlock: number; toBlock: number }> {
+    const head = await this.getBlockNumber();
+    if (this.backend) {
+      return { fromBlock: 0, toBlock: head };
+    }
+
+    let low = 0;
+    let high = head;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      const block = await this.provider.getBlock(mid);
+      if (!block) {
+        throw new Error(`Block ${mid} not found`);
+      }
+      if (block.timestamp < timestamp) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return { fromBlock: low, toBlock: Math.min(low + span - 1, head) };
+  }
+
+  /**
+   * First block at which a contract has code, found by binary search over eth_getCode
+   * Returns 0 with a registry backend
+   * @throws Error if there is no contract at the address or the node cannot serve historical state (non-archive nodes)
+   */
+  async getDeploymentBlock(address: string): Promise<number> {
+    if (this.backend) {
+      return 0;
+    }
+
+    let low = 0;
+    let high = await this.provider.getBlockNumber();
+    if ((await this.provider.getCode(address, high)) === '0x') {
+      throw new Error(`No contract deployed at ${address}`);
+    }
+    try {
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        if ((await this.provider.getCode(address, mid)) === '0x') {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to find the deployment block of ${address} (historical state needs an archive node): ${errorMessage}`);
+    }
+    return low;
+  }
+
+  /**
+   * Get latest block number
+   */
+  async getBlockNumber(): Promise<number> {
+    if (this.backend) {
+      return await this.backend.getBlockNumber();
+    }
+    return await this.provider.getBlockNumber();
+  }
+
   /**
    * Encode feedback authorization data
    */
@@ -348,3 +508,32 @@ export class Web3Client {
   }
 }
 
+/**
+ * Calldata for a contract call; register() overloads are selected by their arguments:
+ * register() | register(string tokenUri) | register(string tokenUri, tuple[] metadata)
+ */
+export function encodeCall(contract: Contract, methodName: string, args: any[]): string {
+  if (methodName !== 'register') {
+    return contract.interface.encodeFunctionData(methodName, args);
+  }
+
+  let functionName: string;
+  if (args.length === 0) {
+    functionName = 'register()';
+  } else if (args.length === 1 && typeof args[0] === 'string') {
+    functionName = 'register(string)';
+  } else if (args.length === 2 && typeof args[0] === 'string' && Array.isArray(args[1])) {
+    functionName = 'register(string,(string,bytes)[])';
+  } else {
+    throw new Error(
+      `Invalid arguments for register(). Expected: () | (string) | (string, tuple[]), got ${args.length} arguments`
+    );
+  }
+
+  // Get the specific function fragment using the signature
+  const functionFragment = contract.interface.getFunction(functionName);
+  if (!functionFragment) {
+    throw new Error(`Function ${functionName} not found in contract ABI`);
+  }
+  return contract.interface.encodeFunctionData(functionFragment, args);
+}
@@ -5,27 +5,95 @@ import { Web3Client } from './helpers/web3client.js';
 import { IPFSClient, type IPFSClientConfig } from './helpers/ipfsClient.js';
 import { SubgraphClient } from './helpers/subgraphclient.js';
 import { FeedbackManager } from './helpers/feedbackManager.js';
+import { ValidationManager } from './helpers/validationManager.js';
+import { ValidatorService, type ValidatorServiceOptions } from './helpers/validatorService.js';
+import {
+  EventSubscriber,
+  type AgentRegisteredEvent,
+  type AgentUpdate,
+  type EventFilter,
+  type EventSubscriberOptions,
+  type EventSubscription,
+  type RegistryEventCallback,
+  type RegistryEventName,
+} from './helpers/eventSubscriber.js';
 import { AgentIndexer } from './helpers/agentIndexer.js';
+import { LocalIndexer, MemoryIndexStore, type LocalIndexerOptions } from './helpers/localIndexer.js';
 import type { Address, AgentId, ChainId, URI } from './types/common.js';
 import { DEFAULT_REGISTRIES, DEFAULT_SUBGRAPH_URLS, IDENTITY_REGISTRY_ABI, REPUTATION_REGISTRY_ABI, VALIDATION_REGISTRY_ABI } from './helpers/contracts.js';
-import type { AgentSummary, Endpoint, Feedback, RegistrationFile, SearchFeedbackParams, SearchParams, SearchResultMeta } from './types/interfaces.js';
+import type { AgentSummary, ContentProvenance, Endpoint, Feedback, RegistrationFile, SearchFeedbackParams, SearchParams, SearchResultMeta, ValidationRequestResult, ValidationStatus } from './types/interfaces.js';
 // import type { Agent } from './types/subgraphtypes.js';
 import { formatAgentId, parseAgentId } from './utils/id-format.js';
-import { IPFS_GATEWAYS, TIMEOUTS } from './utils/constants.js';
 import { EndpointType, type TrustModel } from './types/enum.js';
 import { Agent } from './helpers/agent.js';
-import { ExecuteTask } from './helpers/execution.js';
+import { ExecuteTask, type TaskRequestOptions } from './helpers/execution.js';
+import type { Tool } from './helpers/function-tools.js';
+import { AgentRouter, type RouteExecuteOptions, type RouteExecution, type RoutePlan, type RouteRequest } from './helpers/agentRouter.js';
+import { PaymentPolicy, type PaymentAmount, type PaymentPolicyConfig, type PaymentRequirements } from './helpers/paymentPolicy.js';
+import { createPaidFetch } from './helpers/paidFetch.js';
+import type { PaymentReceipt } from './helpers/paymentReceipt.js';
+import type { PaymentQuote } from './helpers/paymentQuote.js';
+import {
+  A2AClient,
+  type A2AAgentCard,
+  type A2AMessage,
+  type A2AMessageInput,
+  type A2AMessageSendConfiguration,
+  type A2AStreamEvent,
+  type A2ATask,
+} from './helpers/a2aClient.js';
+import type { RegistryBackend } from './helpers/registryBackend.js';
+import { InvalidRegistrationFile, validateRegistrationFile } from './helpers/registrationValidator.js';
+import { MemoryRegistryBackend } from './helpers/memoryBackend.js';
+import { MemoryIPFSStore } from './helpers/memoryIpfsStore.js';
+import { fetchVerifiedFromGateways, type StorageProvider } from './helpers/storageProvider.js';
+import { KuboStorage } from './helpers/kuboStorage.js';
+import { FilesystemStorage } from './helpers/filesystemStorage.js';
+import type { HttpUploadTarget } from './helpers/httpUploadTarget.js';
+
+/**
+ * Connection settings for one chain of a multi-chain SDK
+ */
+export interface ChainConfig {
+  rpcUrl: string;
+  signer?: string | ethers.Wallet | ethers.Signer; // Defaults to SDKConfig.signer
+  registryOverrides?: Record<string, `0x${string}`>;
+  subgraphUrl?: string;
+}
+
+/**
+ * Options for sendA2ATask / streamA2ATask
+ */
+export interface A2ATaskOptions {
+  signer?: Signer; // Pays x402 charges within the payment policy
+  configuration?: A2AMessageSendConfiguration;
+  headers?: Record<string, string>;
+  timeout?: number; // ms per request
+  onPayment?: (paid: PaymentRequirements, receipt: PaymentReceipt | undefined) => void;
+  onSign?: (paid: PaymentRequirements) => void; // Payment signed, before the paid request is sent
+  maxPayment?: PaymentAmount; // Ceiling for each payment, applied even without a payment policy
+}
 
 export interface SDKConfig {
-  chainId: number;
-  rpcUrl: string;
+  chainId?: number; // Required for the RPC backend unless chains is set; defaults to the backend's chain otherwise
+  rpcUrl?: string; // Required for the RPC backend unless chains is set
   signer?: string | ethers.Wallet | ethers.Signer;
+  backend?: 'rpc' | 'memory' | RegistryBackend; // 'memory' runs all registries in-process (no chain)
   registryOverrides?: Record<number, Record<string, `0x${string}`>>;
-  ipfs?: 'pinata';  // Only Pinata is supported now
+  ipfs?: 'pinata' | 'memory' | 'kubo' | 'filesystem' | StorageProvider; // Defaults to 'memory' when backend is not 'rpc'
   pinataJwt?: string;
   pinataGateway?: string;
+  kuboApiUrl?: string; // For ipfs='kubo' (default: http://127.0.0.1:5001)
+  storagePath?: string; // For ipfs='filesystem' (default: .fluidsdk/ipfs)
+  httpUpload?: HttpUploadTarget; // Where agent.registerHTTP() publishes registration files when no URI is given
   subgraphUrl?: string;
   subgraphOverrides?: Record<number, string>;
+  events?: EventSubscriberOptions; // Transport and confirmation depth for sdk.on()/watchAgent()
+  localIndex?: boolean | LocalIndexerOptions; // Log-based index used without a subgraph (default: on only with a registry backend)
+  agentCache?: boolean; // Share one Agent per agentId across loadAgent() calls (default: false)
+  chains?: Record<number, ChainConfig>; // Extra chains; agent-scoped methods route by the AgentId chain prefix
+  paymentPolicy?: PaymentPolicyConfig | PaymentPolicy; // Spending limits for executeAgentTask's x402 payments
+  registrationValidation?: 'report' | 'strict'; // Loaded files: report issues in registrationFile.validation, or reject malformed ones (default: report)
 }
 
 export class FluidSDK {
@@ -33,26 +101,57 @@ export class FluidSDK {
   private _ipfsClient?: IPFSClient;
   private _subgraphClient?: SubgraphClient;
   private readonly _feedbackManager: FeedbackManager;
+  private readonly _validationManager: ValidationManager;
   private readonly _execution: ExecuteTask;
   private readonly _indexer: AgentIndexer;
+  private _localIndexer?: LocalIndexer;
+  private readonly _eventOptions: EventSubscriberOptions;
+  private _events?: EventSubscriber;
   private _identityRegistry?: ethers.Contract;
   private _reputationRegistry?: ethers.Contract;
   private _validationRegistry?: ethers.Contract;
   private readonly _registries: Record<string, Address>;
   private readonly _chainId: ChainId;
   private readonly _subgraphUrls: Record<ChainId, string> = {};
+  private readonly _agentCache?: Map<AgentId, Agent>;
+  private readonly _httpUpload?: HttpUploadTarget;
+  private readonly _chainSdks = new Map<ChainId, FluidSDK>();
+  private readonly _registrationValidation: 'report' | 'strict';
 
   constructor(config: SDKConfig) {
-    this._chainId = config.chainId;
+    const backend = this._resolveBackend(config);
+    if (config.chains && backend) {
+      throw new Error('chains is only supported with the RPC backend');
+    }
+    const defaultSigner = config.signer;
+    config = this._resolvePrimaryChain(config);
+    const registryOverrides = config.registryOverrides || {};
+    this._eventOptions = config.events || {};
+    this._registrationValidation = config.registrationValidation ?? 'report';
+    if (config.agentCache) {
+      this._agentCache = new Map();
+    }
 
-    // Initialize Web3 client
-    this._web3Client =  Web3Client.getInstance(config.rpcUrl, config.signer);
-    // Note: chainId will be fetched asynchronously on first use
+    if (backend) {
+      // Offline/custom backend - registries live wherever the backend serves them
+      this._chainId = config.chainId ?? Number(backend.chainId);
+      const signer = config.signer || ethers.Wallet.createRandom();
+      this._web3Client = Web3Client.fromBackend(backend, signer);
+      this._registries = { ...backend.registryAddresses(), ...(registryOverrides[this._chainId] || {}) };
+    } else {
+      if (config.chainId === undefined || !config.rpcUrl) {
+        throw new Error('chainId and rpcUrl are required for the RPC backend');
+      }
+      this._chainId = config.chainId;
 
-    // Resolve registry addresses
-    const registryOverrides = config.registryOverrides || {};
-    const defaultRegistries = DEFAULT_REGISTRIES[config.chainId] || {};
-    this._registries = { ...defaultRegistries, ...(registryOverrides[config.chainId] || {}) };
+      // Initialize Web3 client
+      this._web3Client = Web3Client.fromRpc(config.rpcUrl, config.signer);
+      // Note: chainId will be fetched asynchronously on first use
+
+      // Resolve registry addresses
+      const defaultRegistries = DEFAULT_REGISTRIES[config.chainId] || {};
+      this._registries = { ...defaultRegistries, ...(registryOverrides[config.chainId] || {}) };
+    }
 
     // Resolve subgraph URL
     if (config.subgraphOverrides) {
@@ -60,10 +159,11 @@ export class FluidSDK {
     }
 
     let resolvedSubgraphUrl: string | undefined;
-    if (config.chainId in this._subgraphUrls) {
-      resolvedSubgraphUrl = this._subgraphUrls[config.chainId];
-    } else if (config.chainId in DEFAULT_SUBGRAPH_URLS) {
-      resolvedSubgraphUrl = DEFAULT_SUBGRAPH_URLS[config.chainId];
+    if (this._chainId in this._subgraphUrls) {
+      resolvedSubgraphUrl = this._subgraphUrls[this._chainId];
+    } else if (!backend && this._chainId in DEFAULT_SUBGRAPH_URLS) {
+      // Default subgraphs index the public registries only
+      resolvedSubgraphUrl = DEFAULT_SUBGRAPH_URLS[this._chainId];
     } else if (config.subgraphUrl) {
       resolvedSubgraphUrl = config.subgraphUrl;
     }
@@ -73,13 +173,35 @@ export class FluidSDK {
       this._subgraphClient = new SubgraphClient(resolvedSubgraphUrl);
     }
 
-    // Initialize indexer
-    this._indexer = new AgentIndexer(this._web3Client, this._subgraphClient, this._subgraphUrls);
+    // Initialize local log index (fallback for discovery without a subgraph); against an RPC node it is opt-in
+    const localIndex = config.localIndex ?? (!!backend && !this._subgraphClient);
+    if (localIndex) {
+      const indexOptions: LocalIndexerOptions = {
+        storePath: `.fluidsdk/index-${this._chainId}.json`,
+        ...(localIndex === true ? {} : localIndex),
+      };
+      if (backend && !indexOptions.store) {
+        // Backend state is not persisted, so neither is its index
+        indexOptions.store = new MemoryIndexStore();
+      }
+      this._localIndexer = new LocalIndexer(this, indexOptions, (agentURI) => this._loadRegistrationFile(agentURI));
+    }
 
-    this._execution = new ExecuteTask();
-    // Initialize IPFS client
-    if (config.ipfs) {
-      this._ipfsClient = this._initializeIpfsClient(config);
+    // Initialize indexer
+    this._indexer = new AgentIndexer(this._web3Client, this._subgraphClient, this._subgraphUrls, this._localIndexer);
+
+    // One policy for every chain, so budgets and per-agent limits are not multiplied by the number of chains
+    const paymentPolicy = config.paymentPolicy instanceof PaymentPolicy || !config.paymentPolicy
+      ? config.paymentPolicy
+      : new PaymentPolicy(config.paymentPolicy);
+    this._execution = new ExecuteTask(paymentPolicy);
+    // Initialize IPFS client (in-memory store by default when running without a chain)
+    const ipfsConfig: SDKConfig = backend && !config.ipfs ? { ...config, ipfs: 'memory' } : config;
+    if (ipfsConfig.ipfs) {
+      this._ipfsClient = this._initializeIpfsClient(ipfsConfig, backend);
+    }
+    if (config.httpUpload) {
+      this._httpUpload = config.httpUpload;
     }
 
     // Initialize feedback manager (will set registries after they're created)
@@ -96,20 +218,186 @@ export class FluidSDK {
       (chainId) => this.getSubgraphClient(chainId),
       this._chainId
     );
+    if (this._localIndexer) {
+      this._feedbackManager.setLocalIndexer(this._localIndexer);
+    }
+
+    // Initialize validation manager (registries are set lazily as well)
+    this._validationManager = new ValidationManager(this._web3Client, this._ipfsClient);
+
+    // One independent single-chain SDK per additional chain (the subgraph URL of the default chain is not shared)
+    const { chains, subgraphUrl, signer: _primarySigner, ...shared } = config;
+    for (const [chainKey, chainConfig] of Object.entries(chains || {})) {
+      const chainId = Number(chainKey);
+      if (chainId === this._chainId) {
+        continue;
+      }
+      const chainSigner = chainConfig.signer || defaultSigner;
+      this._chainSdks.set(chainId, new FluidSDK({
+        ...shared,
+        ...(paymentPolicy ? { paymentPolicy } : {}),
+        chainId,
+        rpcUrl: chainConfig.rpcUrl,
+        ...(chainSigner ? { signer: chainSigner } : {}),
+        registryOverrides: {
+          ...shared.registryOverrides,
+          [chainId]: { ...shared.registryOverrides?.[chainId], ...chainConfig.registryOverrides },
+        },
+      }));
+    }
+  }
+
+  /**
+   * Fill top-level chainId/rpcUrl/signer from the chains map (default chain: chainId, else the lowest chain id)
+   */
+  private _resolvePrimaryChain(config: SDKConfig): SDKConfig {
+    if (!config.chains) {
+      return config;
+    }
+
+    const chainIds = Object.keys(config.chains).map(Number);
+    const chainId = config.chainId ?? chainIds[0];
+    if (chainId === undefined) {
+      throw new Error('chains must contain at least one chain');
+    }
+
+    // Per-chain subgraph URLs take precedence over the defaults for that chain
+    const subgraphOverrides: Record<number, string> = { ...config.subgraphOverrides };
+    const registryOverrides: Record<number, Record<string, `0x${string}`>> = { ...config.registryOverrides };
+    for (const id of chainIds) {
+      const chainConfig = config.chains[id];
+      if (chainConfig?.subgraphUrl) {
+        subgraphOverrides[id] = chainConfig.subgraphUrl;
+      }
+    }
+
+    const primary = config.chains[chainId];
+    if (primary?.registryOverrides) {
+      registryOverrides[chainId] = { ...registryOverrides[chainId], ...primary.registryOverrides };
+    }
+
+    const resolved: SDKConfig = { ...config, chainId, registryOverrides, subgraphOverrides };
+    if (primary) {
+      resolved.rpcUrl = primary.rpcUrl;
+      if (primary.signer) {
+        resolved.signer = primary.signer;
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Get the SDK bound to a chain (this SDK for its default chain)
+   */
+  forChain(chainId: ChainId): FluidSDK {
+    if (chainId === this._chainId) {
+      return this;
+    }
+    const chainSdk = this._chainSdks.get(chainId);
+    if (!chainSdk) {
+      throw new Error(`Chain ${chainId} is not configured`);
+    }
+    return chainSdk;
+  }
+
+  /**
+   * Chains this SDK can route to (default chain first)
+   */
+  get chainIds(): ChainId[] {
+    return [this._chainId, ...this._chainSdks.keys()];
+  }
+
+  /**
+   * SDK responsible for an agent, picked by the chain prefix of its AgentId
+   * @param subgraphRead - The call only reads a subgraph, so chains with a known subgraph need not be configured
+   * @throws Error if the agent's chain is not configured
+   */
+  private _sdkForAgent(agentId: AgentId, subgraphRead = false): FluidSDK {
+    if (!agentId.includes(':')) {
+      return this;
+    }
+    const { chainId } = parseAgentId(agentId);
+    if (chainId === this._chainId) {
+      return this;
+    }
+    const chainSdk = this._chainSdks.get(chainId);
+    if (chainSdk) {
+      return chainSdk;
+    }
+    if (subgraphRead && this.getSubgraphClient(chainId)) {
+      return this;
+    }
+    throw new Error(`Chain ${chainId} is not configured`);
+  }
+
+  /**
+   * SDK responsible for a validation request: the agent's chain when known, otherwise the first chain
+   * (default chain first) whose validation registry has a validator recorded for the hash
+   */
+  private async _sdkForValidation(requestHash: string, agentId?: AgentId): Promise<FluidSDK> {
+    if (agentId) {
+      return this._sdkForAgent(agentId);
+    }
+    if (this._chainSdks.size === 0) {
+      return this;
+    }
+
+    for (const chainSdk of [this, ...this._chainSdks.values()]) {
+      try {
+        const [validatorAddress] = await chainSdk._web3Client.callContract(
+          chainSdk.getValidationRegistry(),
+          'getValidationStatus',
+          requestHash
+        );
+        if (validatorAddress !== ethers.ZeroAddress) {
+          return chainSdk;
+        }
+      } catch {
+        // Unknown request or no validation registry on this chain
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Resolve registry backend from configuration (undefined means JSON-RPC)
+   */
+  private _resolveBackend(config: SDKConfig): RegistryBackend | undefined {
+    if (!config.backend || config.backend === 'rpc') {
+      return undefined;
+    }
+    if (config.backend === 'memory') {
+      return new MemoryRegistryBackend(config.chainId);
+    }
+    return config.backend;
   }
 
   /**
    * Initialize IPFS client based on configuration
    */
-  private _initializeIpfsClient(config: SDKConfig): IPFSClient {
+  private _initializeIpfsClient(config: SDKConfig, backend?: RegistryBackend): IPFSClient {
     if (!config.ipfs) {
       throw new Error('IPFS provider not specified');
     }
 
     const ipfsConfig: IPFSClientConfig = {};
 
-    // Only Pinata is supported now
-    if (config.ipfs === 'pinata') {
+    if (typeof config.ipfs === 'object') {
+      ipfsConfig.provider = config.ipfs;
+    } else if (config.ipfs === 'memory') {
+      // SDKs sharing a backend share its store, so each can load what the others published
+      if (backend?.storage) {
+        ipfsConfig.provider = backend.storage;
+      } else {
+        ipfsConfig.memoryStore = new MemoryIPFSStore();
+      }
+      ipfsConfig.gatewayFallback = true;
+    } else if (config.ipfs === 'kubo') {
+      ipfsConfig.provider = new KuboStorage(config.kuboApiUrl ? { apiUrl: config.kuboApiUrl } : {});
+    } else if (config.ipfs === 'filesystem') {
+      ipfsConfig.provider = new FilesystemStorage(config.storagePath || '.fluidsdk/ipfs');
+      ipfsConfig.gatewayFallback = true;
+    } else if (config.ipfs === 'pinata') {
       if (!config.pinataJwt) {
         throw new Error("pinataJwt is required when ipfs='pinata'");
       }
@@ -118,7 +406,7 @@ export class FluidSDK {
         ipfsConfig.pinataGateway = config.pinataGateway;
       }
     } else {
-      throw new Error(`Invalid ipfs value: ${config.ipfs}. Only 'pinata' is supported now`);
+      throw new Error(`Invalid ipfs value: ${config.ipfs}. Expected 'pinata', 'memory', 'kubo', 'filesystem' or a StorageProvider`);
     }
 
     return new IPFSClient(ipfsConfig);
@@ -207,6 +495,9 @@ export class FluidSDK {
         throw new Error(`No validation registry address for chain ${this._chainId}`);
       }
       this._validationRegistry = this._web3Client.getContract(address, VALIDATION_REGISTRY_ABI);
+
+      // Update validation manager
+      this._validationManager.setValidationRegistry(this._validationRegistry);
     }
     return this._validationRegistry;
   }
@@ -238,25 +529,50 @@ export class FluidSDK {
       updatedAt: Math.floor(Date.now() / 1000),
     };
     
-    return Agent.getInstance(this, registrationFile);
+    return new Agent(this, registrationFile);
+  }
+
+  /**
+   * Create an agent from an A2A agent card, given as the card or the URL it is published at
+   * The card's name, description, icon, skills and x402 support are carried over; register it like any new agent
+   */
+  async createAgentFromA2ACard(card: A2AAgentCard | string): Promise<Agent> {
+    if (typeof card === 'string') {
+      const loaded = await new A2AClient(card).findAgentCard();
+      if (!loaded) {
+        throw new Error(`No A2A agent card found at ${card}`);
+      }
+      return new Agent(this, Agent.fromA2AAgentCard(loaded, card));
+    }
+    return new Agent(this, Agent.fromA2AAgentCard(card));
   }
 
+  /**
+   * Call an agent endpoint, paying x402 charges within the configured payment policy
+   * @throws BudgetExceeded if the requested payment does not fit the policy
+   * @throws InvalidToolArguments if parameters do not match the tool definition
+   */
   async executeAgentTask({
       agentEndpoint,
       mcpServerUrl,
       parameters,
       signer,
+      agentId,
+      ...options
     }: {
-      agentEndpoint: string;
-      mcpServerUrl: string;
-      parameters: Record<string, any>;
+      agentEndpoint?: string; // Default: tool.endpoint
+      mcpServerUrl?: string; // Default: tool.mcpServerUrl
+      parameters?: Record<string, any>;
       signer: Signer;
-    }){
+      agentId?: AgentId; // Used by per-agent payment limits and allow/deny lists
+    } & TaskRequestOptions){
     const execute = await this._execution.executeAgentTask({
-      agentEndpoint,
-      mcpServerUrl,
-      parameters,
+      ...(agentEndpoint !== undefined ? { agentEndpoint } : {}),
+      ...(mcpServerUrl !== undefined ? { mcpServerUrl } : {}),
+      ...(parameters !== undefined ? { parameters } : {}),
       signer,
+      ...(agentId !== undefined ? { agentId } : {}),
+      ...options,
     }) 
 
 
@@ -265,10 +581,122 @@ export class FluidSDK {
     return execute;
   }
 
+  /**
+   * Price of an agent call without paying: the 402 payment requirements, or the tool's declared pricing
+   * when the server is unreachable
+   */
+  async quoteAgentTask({
+      agentEndpoint,
+      mcpServerUrl,
+      parameters,
+      ...options
+    }: {
+      agentEndpoint?: string; // Default: tool.endpoint
+      mcpServerUrl?: string; // Default: tool.mcpServerUrl
+      parameters?: Record<string, any>;
+    } & TaskRequestOptions): Promise<PaymentQuote> {
+    return this._execution.quoteAgentTask({
+      ...(agentEndpoint !== undefined ? { agentEndpoint } : {}),
+      ...(mcpServerUrl !== undefined ? { mcpServerUrl } : {}),
+      ...(parameters !== undefined ? { parameters } : {}),
+      ...options,
+    });
+  }
+
+  /**
+   * Send a message to an agent's A2A endpoint (message/send)
+   * @returns The task created for the message, or the agent's direct reply
+   * @throws BudgetExceeded if a requested payment does not fit the policy
+   */
+  async sendA2ATask(agentId: AgentId, message: A2AMessageInput, options: A2ATaskOptions = {}): Promise<A2ATask | A2AMessage> {
+    const client = await this.getA2AClient(agentId, options);
+    return client.sendMessage(message, options.configuration);
+  }
+
+  /**
+   * Send a message to an agent's A2A endpoint and stream status and artifact updates (message/stream)
+   */
+  async *streamA2ATask(agentId: AgentId, message: A2AMessageInput, options: A2ATaskOptions = {}): AsyncGenerator<A2AStreamEvent> {
+    const client = await this.getA2AClient(agentId, options);
+    yield* client.streamMessage(message, options.configuration);
+  }
+
+  /**
+   * A2A client for the endpoint in the agent's registration file (for tasks/get, tasks/cancel, ...)
+   */
+  async getA2AClient(agentId: AgentId, options: A2ATaskOptions = {}): Promise<A2AClient> {
+    const agent = await this.loadAgent(agentId);
+    const endpoint = agent.a2aEndpoint;
+    if (!endpoint) {
+      throw new Error(`Agent ${agentId} has no A2A endpoint`);
+    }
+
+    const { signer, headers, timeout, onPayment, onSign, maxPayment } = options;
+    return new A2AClient(endpoint, {
+      ...(signer
+        ? {
+          fetch: createPaidFetch({
+            signer,
+            policy: this._execution.paymentPolicyFor(maxPayment),
+            context: { tool: endpoint, agentId, maxAmount: maxPayment },
+            ...(onPayment ? { onPayment } : {}),
+            ...(onSign ? { onSign } : {}),
+          }),
+        }
+        : {}),
+      ...(headers ? { headers } : {}),
+      ...(timeout !== undefined ? { timeout } : {}),
+    });
+  }
+
+  /**
+   * Rank agents for a tool, A2A skill or free-text query by capability, reputation, price and liveness
+   * With request.execute, the best candidates are called in order until one succeeds
+   * @throws BudgetExceeded if a requested payment does not fit the policy
+   */
+  async route(request: RouteRequest): Promise<RoutePlan> {
+    return new AgentRouter(this).route(request);
+  }
+
+  /**
+   * Run a task on the first working provider: the best agents for a tool, skill or query, or the given agents in order
+   * Network errors and 5xx responses are retried with backoff, then the next agent is tried, as are responses that
+   * fail the tool's outputSchema; a call whose payment was settled (or may have been) is never retried
+   * @returns The serving agent (feedback belongs to execution.agentId), its result and the failed attempts
+   * @throws FailoverExhausted when every candidate failed
+   */
+  async executeWithFailover(request: Omit<RouteRequest, 'execute'> & RouteExecuteOptions): Promise<RouteExecution> {
+    const { signer, parameters, message, maxCandidates, retries, backoffMs, backoffFactor, maxBackoffMs, validateResponse, ...route } = request;
+    const execute: RouteExecuteOptions = {
+      signer,
+      ...(parameters !== undefined ? { parameters } : {}),
+      ...(message !== undefined ? { message } : {}),
+      ...(maxCandidates !== undefined ? { maxCandidates } : {}),
+      ...(retries !== undefined ? { retries } : {}),
+      ...(backoffMs !== undefined ? { backoffMs } : {}),
+      ...(backoffFactor !== undefined ? { backoffFactor } : {}),
+      ...(maxBackoffMs !== undefined ? { maxBackoffMs } : {}),
+      ...(validateResponse !== undefined ? { validateResponse } : {}),
+    };
+    const plan = await new AgentRouter(this).route({ ...route, execute });
+    return plan.execution!;
+  }
+
   /**
    * Load an existing agent (hydrates from registration file if registered)
+   * With agentCache enabled, repeated loads of the same agentId return the same instance
    */
   async loadAgent(agentId: AgentId): Promise<Agent> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.loadAgent(agentId);
+    }
+
+    const cached = this._agentCache?.get(agentId);
+    if (cached) {
+      return cached;
+    }
+
     // Parse agent ID
     const { chainId, tokenId } = parseAgentId(agentId);
 
@@ -299,7 +727,24 @@ export class FluidSDK {
     registrationFile.agentId = agentId;
     registrationFile.agentURI = tokenUri || undefined;
 
-    return Agent.getInstance(this, registrationFile);
+    const agent = new Agent(this, registrationFile);
+    this._agentCache?.set(agentId, agent);
+    return agent;
+  }
+
+  /**
+   * Drop cached agents so the next loadAgent() re-reads them from chain
+   * @param agentId - Agent to evict (default: all)
+   */
+  clearAgentCache(agentId?: AgentId): void {
+    if (agentId) {
+      this._agentCache?.delete(agentId);
+    } else {
+      this._agentCache?.clear();
+    }
+    for (const chainSdk of this._chainSdks.values()) {
+      chainSdk.clearAgentCache(agentId);
+    }
   }
 
   /**
@@ -307,6 +752,11 @@ export class FluidSDK {
    * Supports both default chain and explicit chain specification via chainId:tokenId format
    */
   async getAgent(agentId: AgentId): Promise<AgentSummary| null> {
+    const chainSdk = this._sdkForAgent(agentId, true);
+    if (chainSdk !== this) {
+      return chainSdk.getAgent(agentId);
+    }
+
     // Parse agentId to extract chainId if present
     // If no colon, assume it's just tokenId on default chain
     let parsedChainId: number;
@@ -331,6 +781,9 @@ export class FluidSDK {
       : this._subgraphClient;
     
     if (!subgraphClient) {
+      if (!targetChainId && this._localIndexer) {
+        return this._indexer.getAgent(formattedAgentId);
+      }
       throw new Error(`Subgraph client required for getAgent on chain ${targetChainId || this._chainId}`);
     }
     
@@ -481,6 +934,11 @@ export class FluidSDK {
    * Check if address is agent owner
    */
   async isAgentOwner(agentId: AgentId, address: Address): Promise<boolean> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.isAgentOwner(agentId, address);
+    }
+
     const { tokenId } = parseAgentId(agentId);
     const identityRegistry = this.getIdentityRegistry();
     const owner = await this._web3Client.callContract(identityRegistry, 'ownerOf', BigInt(tokenId));
@@ -491,6 +949,11 @@ export class FluidSDK {
    * Get agent owner
    */
   async getAgentOwner(agentId: AgentId): Promise<Address> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.getAgentOwner(agentId);
+    }
+
     const { tokenId } = parseAgentId(agentId);
     const identityRegistry = this.getIdentityRegistry();
     return await this._web3Client.callContract(identityRegistry, 'ownerOf', BigInt(tokenId));
@@ -507,6 +970,11 @@ export class FluidSDK {
     indexLimit?: number,
     expiryHours: number = 24
   ): Promise<string> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.signFeedbackAuth(agentId, clientAddress, indexLimit, expiryHours);
+    }
+
     // Update feedback manager with registries
     this._feedbackManager.setReputationRegistry(this.getReputationRegistry());
     this._feedbackManager.setIdentityRegistry(this.getIdentityRegistry());
@@ -530,6 +998,11 @@ export class FluidSDK {
     proofOfPayment?: Record<string, unknown>,
     extra?: Record<string, unknown>
   ): Record<string, unknown> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.prepareFeedback(agentId, score, tags, text, capability, name, skill, task, context, proofOfPayment, extra);
+    }
+
     return this._feedbackManager.prepareFeedback(
       agentId,
       score,
@@ -557,6 +1030,11 @@ export class FluidSDK {
     feedbackFile: Record<string, unknown>,
     feedbackAuth?: string,
   ): Promise<Feedback> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.giveFeedback(agentId, feedbackFile, feedbackAuth);
+    }
+
 
 
     console.log({
@@ -602,13 +1080,20 @@ export class FluidSDK {
 
   /**
    * Read feedback
+   * @param verify - Fetch the feedback file and check it against the on-chain feedbackHash
    */
-  async getFeedback(agentId: AgentId, clientAddress: Address, feedbackIndex: number): Promise<Feedback> {
-    return this._feedbackManager.getFeedback(agentId, clientAddress, feedbackIndex);
+  async getFeedback(agentId: AgentId, clientAddress: Address, feedbackIndex: number, verify: boolean = false): Promise<Feedback> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.getFeedback(agentId, clientAddress, feedbackIndex, verify);
+    }
+
+    return this._feedbackManager.getFeedback(agentId, clientAddress, feedbackIndex, verify);
   }
 
   /**
    * Search feedback
+   * @param verify - Fetch each feedback file and check it against the on-chain feedbackHash
    */
   async searchFeedback(
     agentId: AgentId,
@@ -616,8 +1101,14 @@ export class FluidSDK {
     capabilities?: string[],
     skills?: string[],
     minScore?: number,
-    maxScore?: number
+    maxScore?: number,
+    verify?: boolean
   ): Promise<Feedback[]> {
+    const chainSdk = this._sdkForAgent(agentId, true);
+    if (chainSdk !== this) {
+      return chainSdk.searchFeedback(agentId, tags, capabilities, skills, minScore, maxScore, verify);
+    }
+
     const params: SearchFeedbackParams = {
       agents: [agentId],
       tags,
@@ -625,6 +1116,7 @@ export class FluidSDK {
       skills,
       minScore,
       maxScore,
+      verify,
     };
     return this._feedbackManager.searchFeedback(params);
   }
@@ -638,6 +1130,11 @@ export class FluidSDK {
     feedbackIndex: number,
     response: { uri: URI; hash: string }
   ): Promise<string> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.appendResponse(agentId, clientAddress, feedbackIndex, response);
+    }
+
     // Update feedback manager with registries
     this._feedbackManager.setReputationRegistry(this.getReputationRegistry());
 
@@ -648,6 +1145,11 @@ export class FluidSDK {
    * Revoke feedback
    */
   async revokeFeedback(agentId: AgentId, feedbackIndex: number): Promise<string> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.revokeFeedback(agentId, feedbackIndex);
+    }
+
     // Update feedback manager with registries
     this._feedbackManager.setReputationRegistry(this.getReputationRegistry());
 
@@ -662,12 +1164,180 @@ export class FluidSDK {
     tag1?: string,
     tag2?: string
   ): Promise<{ count: number; averageScore: number }> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.getReputationSummary(agentId, tag1, tag2);
+    }
+
     // Update feedback manager with registries
     this._feedbackManager.setReputationRegistry(this.getReputationRegistry());
 
     return this._feedbackManager.getReputationSummary(agentId, tag1, tag2);
   }
 
+  // Validation methods
+
+  /**
+   * Prepare validation request file
+   */
+  prepareValidationRequest(
+    agentId: AgentId,
+    validatorAddress: Address,
+    data?: Record<string, unknown>,
+    description?: string,
+    extra?: Record<string, unknown>
+  ): Record<string, unknown> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.prepareValidationRequest(agentId, validatorAddress, data, description, extra);
+    }
+
+    this._validationManager.setIdentityRegistry(this.getIdentityRegistry());
+
+    return this._validationManager.prepareValidationRequest(agentId, validatorAddress, data, description, extra);
+  }
+
+  /**
+   * Request validation of an agent from a validator
+   * @param agentId - The agent to be validated
+   * @param validatorAddress - Address of the validator (contract or EOA) that should respond
+   * @param requestFile - Request data (see prepareValidationRequest); uploaded to IPFS unless requestUri is given
+   * @param requestUri - Optional pre-published URI of the request file
+   */
+  async requestValidation(
+    agentId: AgentId,
+    validatorAddress: Address,
+    requestFile: Record<string, unknown>,
+    requestUri?: URI
+  ): Promise<ValidationRequestResult> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.requestValidation(agentId, validatorAddress, requestFile, requestUri);
+    }
+
+    // Update validation manager with registries
+    this._validationManager.setValidationRegistry(this.getValidationRegistry());
+    this._validationManager.setIdentityRegistry(this.getIdentityRegistry());
+
+    return this._validationManager.requestValidation(agentId, validatorAddress, requestFile, requestUri);
+  }
+
+  /**
+   * Respond to a validation request (must be called by the addressed validator)
+   * Sent on the chain of options.agentId when given, otherwise on the chain whose registry holds the request
+   */
+  async respondToValidation(
+    requestHash: string,
+    response: number,
+    options: {
+      tag?: string | undefined;
+      responseFile?: Record<string, unknown> | undefined;
+      responseUri?: URI | undefined;
+      responseHash?: string | undefined;
+      agentId?: AgentId | undefined; // Agent the request validates, used to pick the chain
+    } = {}
+  ): Promise<string> {
+    const chainSdk = await this._sdkForValidation(requestHash, options.agentId);
+    if (chainSdk !== this) {
+      return chainSdk.respondToValidation(requestHash, response, options);
+    }
+
+    this._validationManager.setValidationRegistry(this.getValidationRegistry());
+
+    return this._validationManager.respondToValidation(requestHash, response, options);
+  }
+
+  /**
+   * Get validation status for a request hash
+   * @param agentId - Agent the request validates, used to pick the chain (default: the chain whose registry holds the request)
+   */
+  async getValidationStatus(requestHash: string, agentId?: AgentId): Promise<ValidationStatus> {
+    const chainSdk = await this._sdkForValidation(requestHash, agentId);
+    if (chainSdk !== this) {
+      return chainSdk.getValidationStatus(requestHash, agentId);
+    }
+
+    this._validationManager.setValidationRegistry(this.getValidationRegistry());
+
+    return this._validationManager.getValidationStatus(requestHash);
+  }
+
+  /**
+   * Get all validation request hashes for an agent
+   */
+  async getAgentValidations(agentId: AgentId): Promise<string[]> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.getAgentValidations(agentId);
+    }
+
+    this._validationManager.setValidationRegistry(this.getValidationRegistry());
+
+    return this._validationManager.getAgentValidations(agentId);
+  }
+
+  /**
+   * Get validation summary for an agent, optionally filtered by validators and tag
+   */
+  async getValidationSummary(
+    agentId: AgentId,
+    validatorAddresses?: Address[],
+    tag?: string
+  ): Promise<{ count: number; averageResponse: number }> {
+    const chainSdk = this._sdkForAgent(agentId);
+    if (chainSdk !== this) {
+      return chainSdk.getValidationSummary(agentId, validatorAddresses, tag);
+    }
+
+    this._validationManager.setValidationRegistry(this.getValidationRegistry());
+
+    return this._validationManager.getValidationSummary(agentId, validatorAddresses, tag);
+  }
+
+  /**
+   * Create a long-running validator service that answers requests addressed to a validator
+   * Call start() on the returned service to begin polling
+   */
+  createValidatorService(options: ValidatorServiceOptions): ValidatorService {
+    return new ValidatorService(this, options);
+  }
+
+  // Event subscription methods
+
+  /**
+   * Subscribe to a registry event ('agentRegistered', 'metadataSet', 'newFeedback', 'feedbackRevoked')
+   * Optionally filter by agentId and/or clientAddress
+   */
+  on<K extends RegistryEventName>(event: K, callback: RegistryEventCallback<K>): EventSubscription;
+  on<K extends RegistryEventName>(event: K, filter: EventFilter, callback: RegistryEventCallback<K>): EventSubscription;
+  on<K extends RegistryEventName>(
+    event: K,
+    filterOrCallback: EventFilter | RegistryEventCallback<K>,
+    callback?: RegistryEventCallback<K>
+  ): EventSubscription {
+    if (typeof filterOrCallback === 'function') {
+      return this.events.subscribe(event, {}, filterOrCallback);
+    }
+    if (!callback) {
+      throw new Error('Callback is required');
+    }
+    return this.events.subscribe(event, filterOrCallback, callback);
+  }
+
+  /**
+   * Watch a single agent; every event is delivered as an AgentSummary delta
+   */
+  watchAgent(agentId: AgentId, callback: (update: AgentUpdate) => void | Promise<void>): EventSubscription {
+    return this.events.watchAgent(agentId, callback);
+  }
+
+  /**
+   * Subscribe to newly registered agents
+   */
+  onAgentRegistered(callback: (event: AgentRegisteredEvent) => void | Promise<void>): EventSubscription {
+    return this.events.subscribe('agentRegistered', {}, callback);
+  }
+
   /**
    * Create an empty registration file structure
    */
@@ -693,41 +1363,22 @@ export class FluidSDK {
     try {
       // Fetch from IPFS or HTTP
       let rawData: unknown;
+      let provenance: ContentProvenance;
       if (tokenUri.startsWith('ipfs://')) {
         const cid = tokenUri.slice(7);
-        if (this._ipfsClient) {
-          // Use IPFS client if available
-          rawData = await this._ipfsClient.getJson(cid);
-        } else {
-          // Fallback to HTTP gateways if no IPFS client configured
-          const gateways = IPFS_GATEWAYS.map(gateway => `${gateway}${cid}`);
-          
-          let fetched = false;
-          for (const gateway of gateways) {
-            try {
-              const response = await fetch(gateway, {
-                signal: AbortSignal.timeout(TIMEOUTS.IPFS_GATEWAY),
-              });
-              if (response.ok) {
-                rawData = await response.json();
-                fetched = true;
-                break;
-              }
-            } catch {
-              continue;
-            }
-          }
-          
-          if (!fetched) {
-            throw new Error('Failed to retrieve data from all IPFS gateways');
-          }
-        }
+        // Content is hashed locally and checked against the CID; a mismatching gateway is skipped
+        const content = this._ipfsClient
+          ? await this._ipfsClient.getVerified(cid)
+          : await fetchVerifiedFromGateways(cid);
+        rawData = JSON.parse(content.data);
+        provenance = { uri: tokenUri, verified: content.verified, source: content.source };
       } else if (tokenUri.startsWith('http://') || tokenUri.startsWith('https://')) {
         const response = await fetch(tokenUri);
         if (!response.ok) {
           throw new Error(`Failed to fetch registration file: HTTP ${response.status}`);
         }
         rawData = await response.json();
+        provenance = { uri: tokenUri, verified: false, source: tokenUri };
       } else if (tokenUri.startsWith('data:')) {
         // Data URIs are not supported
         throw new Error(`Data URIs are not supported. Expected HTTP(S) or IPFS URI, got: ${tokenUri}`);
@@ -743,9 +1394,21 @@ export class FluidSDK {
         throw new Error('Invalid registration file format: expected an object');
       }
 
+      const strict = this._registrationValidation === 'strict';
+      const validation = validateRegistrationFile(rawData, { strict });
+      if (strict && !validation.valid) {
+        throw new InvalidRegistrationFile(`Invalid registration file at ${tokenUri}`, validation.errors, validation.warnings);
+      }
+
       // Transform IPFS/HTTP file format to RegistrationFile format
-      return this._transformRegistrationFile(rawData as Record<string, unknown>);
+      const registrationFile = this._transformRegistrationFile(rawData as Record<string, unknown>);
+      registrationFile.provenance = provenance;
+      registrationFile.validation = validation;
+      return registrationFile;
     } catch (error) {
+      if (error instanceof InvalidRegistrationFile) {
+        throw error;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to load registration file: ${errorMessage}`);
     }
@@ -759,11 +1422,10 @@ export class FluidSDK {
     const endpoints = this._transformEndpoints(rawData);
     const { walletAddress, walletChainId } = this._extractWalletInfo(rawData);
     
-    // Extract trust models with proper type checking
-    const trustModels: (TrustModel | string)[] = Array.isArray(rawData.supportedTrust)
-      ? rawData.supportedTrust
-      : Array.isArray(rawData.trustModels)
-      ? rawData.trustModels
+    // Extract trust models: supportedTrust (ERC-8004), or the keys written by earlier versions
+    const trustField = [rawData.supportedTrust, rawData.supportedTrusts, rawData.trustModels].find(Array.isArray);
+    const trustModels: (TrustModel | string)[] = trustField
+      ? trustField.filter((model): model is string => typeof model === 'string')
       : [];
 
     return {
@@ -782,6 +1444,7 @@ export class FluidSDK {
       updatedAt: typeof rawData.updatedAt === 'number' ? rawData.updatedAt : Math.floor(Date.now() / 1000),
       walletAddress,
       walletChainId,
+      tools: Array.isArray(rawData.tools) ? rawData.tools as Tool[] : undefined,
     };
   }
 
@@ -819,9 +1482,9 @@ export class FluidSDK {
    * Transform a single endpoint from legacy format
    */
   private _transformEndpointLegacy(ep: Record<string, unknown>, rawData: Record<string, unknown>): Endpoint | null {
-    const name = typeof ep.name === 'string' ? ep.name : '';
-    const value = typeof ep.endpoint === 'string' ? ep.endpoint : '';
-    const version = typeof ep.version === 'string' ? ep.version : undefined;
+    const { name: rawName, endpoint: rawValue, ...fields } = ep;
+    const name = typeof rawName === 'string' ? rawName : '';
+    const value = typeof rawValue === 'string' ? rawValue : '';
 
     // Map endpoint names to types using case-insensitive lookup
     const nameLower = name.toLowerCase();
@@ -850,10 +1513,11 @@ export class FluidSDK {
       type = name; // Fallback to name as type
     }
 
+    // Remaining fields (version, mcpTools, a2aSkills, ...) were spread from meta by formatRegistrationFile
     return {
       type: type as EndpointType,
       value,
-      meta: version ? { version } : undefined,
+      meta: Object.keys(fields).length > 0 ? fields : undefined,
     } as Endpoint;
   }
 
@@ -888,16 +1552,83 @@ export class FluidSDK {
     return this._ipfsClient;
   }
 
+  get httpUpload(): HttpUploadTarget | undefined {
+    return this._httpUpload;
+  }
+
+  get paymentPolicy(): PaymentPolicy | undefined {
+    return this._execution.paymentPolicy;
+  }
+
   get subgraphClient(): SubgraphClient | undefined {
     return this._subgraphClient;
   }
 
+  get events(): EventSubscriber {
+    if (!this._events) {
+      this._events = new EventSubscriber(this, this._eventOptions, (agentURI) => this._loadRegistrationFile(agentURI));
+    }
+    return this._events;
+  }
+
+  get localIndexer(): LocalIndexer | undefined {
+    return this._localIndexer;
+  }
+
+  get validationManager(): ValidationManager {
+    return this._validationManager;
+  }
+
 }
 
 // Export ExecuteTask, Signer type, and feedback types for standalone usage
 export { ExecuteTask } from './helpers/execution.js';
 export type { Signer } from 'x402-axios';
-export type { FeedbackParams, ContractConfig } from './helpers/execution.js';
+export type { FeedbackParams, ContractConfig, TaskResult, TaskRequestOptions } from './helpers/execution.js';
+export { decodePaymentReceipt, receiptToProofOfPayment } from './helpers/paymentReceipt.js';
+export type { PaymentReceipt } from './helpers/paymentReceipt.js';
+export { quoteFromPaymentRequired, quoteFromToolPricing } from './helpers/paymentQuote.js';
+export type { PaymentQuote, QuotedPayment } from './helpers/paymentQuote.js';
+export { createPaidFetch } from './helpers/paidFetch.js';
+export type { PaidFetchOptions } from './helpers/paidFetch.js';
+export { createPaywall, createFacilitator, MockFacilitator, BodyTooLarge, skipSettlement } from './helpers/paywall.js';
+export type { PaywallOptions, PaywallMiddleware, Facilitator } from './helpers/paywall.js';
+export { AgentServer } from './helpers/agentServer.js';
+export type { AgentServerOptions, AgentServerTool, AgentServerResource, AgentServerPrompt, ToolCallContext } from './helpers/agentServer.js';
+export { InvalidToolArguments, validateToolArguments, assertToolArguments, validateJsonSchema } from './helpers/toolValidator.js';
+export type { ToolArgumentIssue } from './helpers/toolValidator.js';
+export {
+  validateRegistrationFile,
+  assertRegistrationFile,
+  InvalidRegistrationFile,
+  REGISTRATION_FILE_TYPE,
+} from './helpers/registrationValidator.js';
+export type { RegistrationIssue, RegistrationValidation, RegistrationValidationOptions } from './helpers/registrationValidator.js';
+export { diffJson, PLAN_AGENT_ID, PLAN_CID } from './helpers/registrationPlan.js';
+export type {
+  RegistrationPlan,
+  PlanOperation,
+  UploadOperation,
+  ContractOperation,
+  PayloadChange,
+  AppliedPlan,
+} from './helpers/registrationPlan.js';
+export { PaymentPolicy, BudgetExceeded, FileSpendStore, MemorySpendStore } from './helpers/paymentPolicy.js';
+export type {
+  PaymentPolicyConfig,
+  PaymentAmount,
+  PaymentContext,
+  PaymentAuthorization,
+  PaymentRequirements,
+  BudgetExceededReason,
+  SpendRecord,
+  SpendStore,
+} from './helpers/paymentPolicy.js';
+
+// Export offline backend for running without a chain
+export { MemoryRegistryBackend } from './helpers/memoryBackend.js';
+export { MemoryIPFSStore } from './helpers/memoryIpfsStore.js';
+export type { RegistryBackend } from './helpers/registryBackend.js';
 
 // Export function-tools functions and types
 export {
@@ -907,11 +1638,15 @@ export {
   decodeHexValue,
   getMetadataValue,
   calculateAverageRating,
-  scoreToStars
+  scoreToStars,
+  toolPriceInUnits
 } from './helpers/function-tools.js';
 
 export type {
   Tool,
+  HttpMethod,
+  ToolParameter,
+  ToolPricing,
   IPFSMetadata,
   AgentDataType,
   AgentsResponse
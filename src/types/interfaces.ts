@@ -4,6 +4,8 @@
 
 import type { AgentId, Address, URI, Timestamp } from "./common.js";
 import type { EndpointType, TrustModel } from './enum.js';
+import type { Tool } from '../helpers/function-tools.js';
+import type { RegistrationValidation } from '../helpers/registrationValidator.js';
 
 /**
  * Represents an agent endpoint
@@ -33,6 +35,18 @@ export interface RegistrationFile {
   x402support: boolean; // Binary flag for x402 payment support
   metadata: Record<string, any>; // arbitrary, SDK-managed
   updatedAt: Timestamp;
+  tools?: Tool[] | undefined; // Published tool definitions with pricing (read-only, from the loaded file)
+  provenance?: ContentProvenance | undefined; // where the file was loaded from (set by loadAgent)
+  validation?: RegistrationValidation | undefined; // schema check of the loaded file (set by loadAgent)
+}
+
+/**
+ * Origin of an off-chain file and whether its content was checked against the CID
+ */
+export interface ContentProvenance {
+  uri: URI;
+  verified: boolean; // true only for IPFS content hashed locally and matched to its CID
+  source: string; // Gateway URL, storage provider or HTTP URL that served the file
 }
 
 /**
@@ -77,6 +91,12 @@ export interface Feedback {
   createdAt: Timestamp;
   answers: Array<Record<string, any>>;
   isRevoked: boolean;
+  feedbackHash?: string | undefined; // keccak256 of the canonical feedback file, as submitted on-chain
+
+  // Set when the feedback file was checked against feedbackHash (verify option)
+  verified?: boolean | undefined;
+  verificationError?: FeedbackVerificationError | undefined;
+  unverifiedFields?: string[] | undefined; // With 'partial': top-level fields whose nested content the hash does not cover
 
   // Off-chain only fields (not stored on blockchain)
   capability?: string | undefined; // MCP capability: "prompts", "resources", "tools", "completions"
@@ -85,6 +105,15 @@ export interface Feedback {
   task?: string | undefined; // A2A task
 }
 
+/**
+ * Why a feedback file could not be verified
+ * - noFile: no feedbackUri/feedbackHash was submitted
+ * - unreachable: the file could not be fetched (or no copy matched its CID) or parsed
+ * - tampered: the file does not hash to the on-chain feedbackHash
+ * - partial: the file matches a legacy (version 1) hash, which leaves nested fields out; see unverifiedFields
+ */
+export type FeedbackVerificationError = 'noFile' | 'unreachable' | 'tampered' | 'partial';
+
 /**
  * Feedback ID tuple: [agentId, clientAddress, feedbackIndex]
  */
@@ -95,6 +124,41 @@ export type FeedbackIdTuple = [AgentId, Address, number];
  */
 export type FeedbackId = string;
 
+/**
+ * Result of submitting a validation request
+ */
+export interface ValidationRequestResult {
+  requestHash: string; // bytes32 hash identifying the request on-chain
+  requestUri: URI;
+  validatorAddress: Address;
+  agentId: AgentId;
+  txHash: string;
+}
+
+/**
+ * Outcome of pushing one metadata key on-chain
+ */
+export interface MetadataUpdateResult {
+  key: string;
+  status: 'confirmed' | 'pending' | 'failed'; // pending: sent but not confirmed within the wait timeout
+  txHash?: string | undefined; // Shared by all keys of a batch
+  batched: boolean; // Sent in one multicall transaction with the other keys
+  error?: string | undefined;
+}
+
+/**
+ * Validation status as stored in the validation registry
+ */
+export interface ValidationStatus {
+  requestHash: string;
+  validatorAddress: Address;
+  agentId: AgentId;
+  response?: number | undefined; // 0-100, undefined until the validator responds
+  tag?: string | undefined;
+  lastUpdate?: Timestamp | undefined;
+  responded: boolean;
+}
+
 /**
  * Parameters for agent search
  */
@@ -132,6 +196,7 @@ export interface SearchFeedbackParams {
   minScore?: number | undefined; // 0-100
   maxScore?: number | undefined; // 0-100
   includeRevoked?: boolean | undefined;
+  verify?: boolean | undefined; // Fetch each feedback file and check it against feedbackHash
 }
 
 /**
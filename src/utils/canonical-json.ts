@@ -0,0 +1,32 @@
+/**
+ * Canonical JSON serialization for hashing off-chain files
+ */
+
+/**
+ * JSON with object keys sorted at every level and no whitespace
+ * Members JSON.stringify would drop (undefined, functions) are dropped; for objects without nested objects the
+ * output equals JSON.stringify(obj, Object.keys(obj).sort())
+ */
+export function canonicalJson(value: unknown): string {
+  if (typeof value === 'object' && value !== null && 'toJSON' in value && typeof value.toJSON === 'function') {
+    value = value.toJSON();
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => (isOmitted(item) ? 'null' : canonicalJson(item)));
+    return `[${items.join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    const members = Object.keys(record)
+      .sort()
+      .filter((key) => !isOmitted(record[key]))
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function isOmitted(value: unknown): boolean {
+  return value === undefined || typeof value === 'function' || typeof value === 'symbol';
+}
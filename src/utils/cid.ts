@@ -0,0 +1,365 @@
+/**
+ * Minimal CID helpers (CIDv0/CIDv1, sha2-256) without a multiformats dependency
+ * Includes just enough dag-pb/UnixFS decoding to verify gateway responses
+ */
+
+import { createHash } from 'crypto';
+
+// Multicodec / multihash codes
+export const CODEC_RAW = 0x55;
+export const HASH_SHA2_256 = 0x12;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+/**
+ * Encode bytes as RFC 4648 base32 (lowercase, no padding) - the multibase 'b' encoding
+ */
+export function base32Encode(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Compute a CIDv1 (raw codec, sha2-256) for the given content
+ */
+export function computeRawCid(content: string | Uint8Array): string {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  const digest = createHash('sha256').update(bytes).digest();
+  const cidBytes = new Uint8Array([0x01, CODEC_RAW, HASH_SHA2_256, digest.length, ...digest]);
+  return 'b' + base32Encode(cidBytes);
+}
+
+export const CODEC_DAG_PB = 0x70;
+export const CODEC_DAG_JSON = 0x0129;
+export const CODEC_JSON = 0x0200;
+export const HASH_IDENTITY = 0x00;
+
+// Default Kubo/Pinata chunk size; larger dag-pb files span several blocks
+export const UNIXFS_CHUNK_SIZE = 262144;
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Decoded CID
+ */
+export interface ParsedCid {
+  version: 0 | 1;
+  codec: number;
+  hashCode: number;
+  digest: Uint8Array;
+}
+
+/**
+ * Decode RFC 4648 base32 (case-insensitive, no padding)
+ */
+export function base32Decode(input: string): Uint8Array {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of input.toLowerCase()) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    buffer = ((buffer << 5) | value) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encode bytes as base58btc (Bitcoin alphabet)
+ */
+export function base58Encode(bytes: Uint8Array): string {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i]! << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  let output = '';
+  for (const byte of bytes) {
+    if (byte !== 0) {
+      break;
+    }
+    output += '1';
+  }
+  for (let i = digits.length - 1; i >= 0; i--) {
+    output += BASE58_ALPHABET[digits[i]!];
+  }
+  return output;
+}
+
+/**
+ * Decode base58btc (Bitcoin alphabet)
+ */
+export function base58Decode(input: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of input) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry === -1) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i]! * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  for (const char of input) {
+    if (char !== '1') {
+      break;
+    }
+    bytes.push(0);
+  }
+  return new Uint8Array(bytes.reverse());
+}
+
+/**
+ * Read an unsigned varint
+ * @returns [value, next offset]
+ */
+export function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0;
+  let shift = 0;
+  while (offset < bytes.length) {
+    const byte = bytes[offset++]!;
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) {
+      return [value, offset];
+    }
+    shift += 7;
+  }
+  throw new Error('Truncated varint');
+}
+
+/**
+ * Encode an unsigned varint
+ */
+export function encodeVarint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+/**
+ * Parse a binary CID (as found in dag-pb links)
+ */
+export function parseCidBytes(bytes: Uint8Array): ParsedCid {
+  // CIDv0 is a bare sha2-256 multihash
+  if (bytes.length === 34 && bytes[0] === HASH_SHA2_256 && bytes[1] === 32) {
+    return { version: 0, codec: CODEC_DAG_PB, hashCode: HASH_SHA2_256, digest: bytes.slice(2) };
+  }
+
+  let offset = 0;
+  let version: number;
+  let codec: number;
+  let hashCode: number;
+  let length: number;
+  [version, offset] = readVarint(bytes, offset);
+  if (version !== 1) {
+    throw new Error(`Unsupported CID version: ${version}`);
+  }
+  [codec, offset] = readVarint(bytes, offset);
+  [hashCode, offset] = readVarint(bytes, offset);
+  [length, offset] = readVarint(bytes, offset);
+  const digest = bytes.slice(offset, offset + length);
+  if (digest.length !== length) {
+    throw new Error('Truncated CID digest');
+  }
+  return { version: 1, codec, hashCode, digest };
+}
+
+/**
+ * Parse a CID string (CIDv0 base58btc, CIDv1 base32 or base58btc)
+ */
+export function parseCid(cid: string): ParsedCid {
+  if (cid.length === 46 && cid.startsWith('Qm')) {
+    return parseCidBytes(base58Decode(cid));
+  }
+  if (cid.startsWith('b')) {
+    return parseCidBytes(base32Decode(cid.slice(1)));
+  }
+  if (cid.startsWith('z')) {
+    return parseCidBytes(base58Decode(cid.slice(1)));
+  }
+  throw new Error(`Unsupported CID encoding: ${cid}`);
+}
+
+/**
+ * Format a parsed CID as a string (CIDv0 base58btc, CIDv1 base32)
+ */
+export function formatCid(cid: ParsedCid): string {
+  const multihash = [...encodeVarint(cid.hashCode), ...encodeVarint(cid.digest.length), ...cid.digest];
+  if (cid.version === 0) {
+    return base58Encode(new Uint8Array(multihash));
+  }
+  return 'b' + base32Encode(new Uint8Array([...encodeVarint(1), ...encodeVarint(cid.codec), ...multihash]));
+}
+
+/**
+ * Check whether a block hashes to the digest of a CID
+ */
+export function blockMatchesCid(cid: ParsedCid, block: Uint8Array): boolean {
+  let digest: Uint8Array;
+  if (cid.hashCode === HASH_SHA2_256) {
+    digest = createHash('sha256').update(block).digest();
+  } else if (cid.hashCode === HASH_IDENTITY) {
+    digest = block;
+  } else {
+    return false;
+  }
+  return digest.length === cid.digest.length && digest.every((byte, i) => byte === cid.digest[i]);
+}
+
+/**
+ * Verify file content against its CID without fetching further blocks
+ * Covers raw leaves, (dag-)json and single-block UnixFS files in dag-pb
+ * @returns true/false, or undefined when the CID spans several blocks (or uses an unsupported hash)
+ */
+export function verifyCidContent(cid: string | ParsedCid, content: string | Uint8Array): boolean | undefined {
+  const parsed = typeof cid === 'string' ? parseCid(cid) : cid;
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+
+  if (parsed.hashCode !== HASH_SHA2_256 && parsed.hashCode !== HASH_IDENTITY) {
+    return undefined;
+  }
+  if (parsed.codec !== CODEC_DAG_PB) {
+    return blockMatchesCid(parsed, bytes);
+  }
+
+  // Rebuild the leaf node Kubo/Pinata would have written (UnixFS type File, or Raw for older js importers)
+  for (const unixfsType of [2, 0]) {
+    if (blockMatchesCid(parsed, encodeUnixfsLeaf(bytes, unixfsType))) {
+      return true;
+    }
+  }
+  return bytes.length > UNIXFS_CHUNK_SIZE ? undefined : false;
+}
+
+/**
+ * Encode a single-block UnixFS file as a dag-pb node
+ */
+function encodeUnixfsLeaf(content: Uint8Array, unixfsType: number): Uint8Array {
+  const length = encodeVarint(content.length);
+  const dataField = content.length > 0 ? 1 + length.length + content.length : 0;
+  const unixfsLength = 2 + dataField + 1 + length.length;
+  const header = [0x0a, ...encodeVarint(unixfsLength), 0x08, unixfsType];
+
+  const node = new Uint8Array(header.length + unixfsLength - 2);
+  node.set(header, 0);
+  let offset = header.length;
+  if (content.length > 0) {
+    node.set([0x12, ...length], offset);
+    offset += 1 + length.length;
+    node.set(content, offset);
+    offset += content.length;
+  }
+  node.set([0x18, ...length], offset);
+  return node;
+}
+
+/**
+ * Decoded dag-pb node with its UnixFS payload
+ */
+export interface DagPbNode {
+  links: ParsedCid[];
+  data?: Uint8Array | undefined; // UnixFS Data field (file bytes held by this node)
+}
+
+/**
+ * Decode a dag-pb block and the UnixFS message it carries
+ */
+export function decodeDagPbNode(block: Uint8Array): DagPbNode {
+  const links: ParsedCid[] = [];
+  let unixfs: Uint8Array | undefined;
+
+  for (const [field, value] of readProtobufFields(block)) {
+    if (field === 2 && value instanceof Uint8Array) {
+      for (const [linkField, linkValue] of readProtobufFields(value)) {
+        if (linkField === 1 && linkValue instanceof Uint8Array) {
+          links.push(parseCidBytes(linkValue));
+        }
+      }
+    } else if (field === 1 && value instanceof Uint8Array) {
+      unixfs = value;
+    }
+  }
+
+  let data: Uint8Array | undefined;
+  if (unixfs) {
+    for (const [field, value] of readProtobufFields(unixfs)) {
+      if (field === 2 && value instanceof Uint8Array) {
+        data = value;
+      }
+    }
+  }
+
+  return { links, data };
+}
+
+/**
+ * Iterate protobuf fields (varint and length-delimited wire types only)
+ */
+function* readProtobufFields(bytes: Uint8Array): Generator<[number, number | Uint8Array]> {
+  let offset = 0;
+  while (offset < bytes.length) {
+    let key: number;
+    [key, offset] = readVarint(bytes, offset);
+    const field = Math.floor(key / 8);
+    const wireType = key & 7;
+    if (wireType === 0) {
+      let value: number;
+      [value, offset] = readVarint(bytes, offset);
+      yield [field, value];
+    } else if (wireType === 2) {
+      let length: number;
+      [length, offset] = readVarint(bytes, offset);
+      if (offset + length > bytes.length) {
+        throw new Error('Truncated protobuf field');
+      }
+      yield [field, bytes.slice(offset, offset + length)];
+      offset += length;
+    } else {
+      throw new Error(`Unsupported protobuf wire type: ${wireType}`);
+    }
+  }
+}
@@ -27,5 +27,6 @@ export const TIMEOUTS = {
 export const DEFAULTS = {
   FEEDBACK_EXPIRY_HOURS: 24,
   SEARCH_PAGE_SIZE: 50,
+  LOG_BLOCK_RANGE: 2000, // Max blocks per eth_getLogs query
 } as const;
 
@@ -0,0 +1,58 @@
+/**
+ * Canonical hashing of off-chain feedback files (the feedbackHash stored next to feedbackUri)
+ */
+
+import { ethers } from 'ethers';
+import { canonicalJson } from './canonical-json.js';
+
+/**
+ * feedbackHash submitted when no feedback file is published
+ */
+export const EMPTY_FEEDBACK_HASH = '0x' + '00'.repeat(32);
+
+/**
+ * How a feedback file is serialized before hashing
+ * - 1: sorted top-level keys passed as the JSON.stringify replacer; they also act as the allow-list for nested
+ *   objects, so nested fields (context, proofOfPayment) are mostly left out. Only used to verify older hashes
+ * - 2: canonical JSON with keys sorted at every level; identical to version 1 for files without nested objects
+ */
+export type FeedbackHashVersion = 1 | 2;
+
+/**
+ * Version giveFeedback hashes with
+ */
+export const FEEDBACK_HASH_VERSION: FeedbackHashVersion = 2;
+
+/**
+ * Serialize a feedback file the way its feedbackHash is computed
+ */
+export function canonicalizeFeedbackFile(
+  feedbackFile: Record<string, unknown>,
+  version: FeedbackHashVersion = FEEDBACK_HASH_VERSION
+): string {
+  if (version === 1) {
+    return JSON.stringify(feedbackFile, Object.keys(feedbackFile).sort());
+  }
+  return canonicalJson(feedbackFile);
+}
+
+/**
+ * keccak256 of the canonical feedback file JSON
+ */
+export function computeFeedbackHash(
+  feedbackFile: Record<string, unknown>,
+  version: FeedbackHashVersion = FEEDBACK_HASH_VERSION
+): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalizeFeedbackFile(feedbackFile, version)));
+}
+
+/**
+ * Top-level fields a version 1 hash does not fully cover (nested content the replacer dropped)
+ */
+export function uncoveredFeedbackFields(feedbackFile: Record<string, unknown>): string[] {
+  const allowList = Object.keys(feedbackFile).sort();
+  return allowList.filter((key) => {
+    const value = feedbackFile[key];
+    return typeof value === 'object' && value !== null && JSON.stringify(value, allowList) !== JSON.stringify(value);
+  });
+}
@@ -5,3 +5,7 @@
 export * from './id-format.js';
 export * from './validation.js';
 export * from './constants.js';
+export * from './cid.js';
+export * from './canonical-json.js';
+export * from './feedback-hash.js';
+export * from './sse.js';
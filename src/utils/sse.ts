@@ -0,0 +1,63 @@
+/**
+ * Server-Sent Events parsing for streaming HTTP responses
+ */
+
+export interface SseEvent {
+  event: string; // "message" unless the server names it
+  data: string; // data lines joined with \n
+}
+
+/**
+ * Read a text/event-stream body event by event
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.search(/\r\n|\r|\n/)) !== -1) {
+        if (!done && newline === buffer.length - 1 && buffer[newline] === '\r') {
+          break; // May be the first half of a CRLF split across chunks
+        }
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + (buffer.startsWith('\r\n', newline) ? 2 : 1));
+
+        if (line === '') {
+          if (data.length > 0) {
+            yield { event, data: data.join('\n') };
+          }
+          event = 'message';
+          data = [];
+        } else if (!line.startsWith(':')) {
+          const colon = line.indexOf(':');
+          const field = colon === -1 ? line : line.slice(0, colon);
+          const fieldValue = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+          if (field === 'event') {
+            event = fieldValue;
+          } else if (field === 'data') {
+            data.push(fieldValue);
+          }
+        }
+      }
+
+      if (done) {
+        if (data.length > 0) {
+          yield { event, data: data.join('\n') };
+        }
+        return;
+      }
+    }
+  } finally {
+    // Stops the download when the consumer leaves early
+    await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}